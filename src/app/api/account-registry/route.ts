@@ -0,0 +1,76 @@
+/**
+ * API Route: /api/account-registry
+ *
+ * The organization → account registry used to check account numbers when merging.
+ *
+ * GET: Returns the saved registry as JSON.
+ *
+ * POST: Learns the accounts used in past master spreadsheets and saves the registry.
+ * Accepts multipart form data with:
+ * - master: A master spreadsheet (required) - repeat the field to learn from several masters
+ *
+ * Returns: JSON with the updated `registry`, how many organization/account pairs were
+ * `added`, and any `issues` reading the masters
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseWeeklySpreadsheet } from '@/lib/xlsx-parser';
+import { learnAccountsFromWeeks, loadAccountRegistry, saveAccountRegistry } from '@/lib/account-registry';
+import type { ValidationIssue } from '@/types/validation-issue';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ registry: await loadAccountRegistry() });
+  } catch (error) {
+    console.error('Load account registry error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to load account registry: ${message}` },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    // Get the master spreadsheets (at least one required)
+    const masterFiles = formData.getAll('master').filter((entry): entry is File => entry instanceof File);
+    if (masterFiles.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one master spreadsheet is required' },
+        { status: 400 }
+      );
+    }
+
+    let registry = await loadAccountRegistry();
+    let added = 0;
+    const issues: ValidationIssue[] = [];
+
+    for (const file of masterFiles) {
+      const parseResult = await parseWeeklySpreadsheet(await file.arrayBuffer());
+      issues.push(...parseResult.issues.map((issue) => ({ ...issue, file: file.name })));
+
+      const learned = learnAccountsFromWeeks(registry, parseResult.weeks);
+      registry = learned.registry;
+      added += learned.added;
+    }
+
+    await saveAccountRegistry(registry);
+
+    return NextResponse.json({ registry, added, issues });
+
+  } catch (error) {
+    console.error('Update account registry error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to update account registry: ${message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * API Route: POST /api/audit-budget-chain
+ *
+ * Checks a master spreadsheet's Weekly Subtotal and Remaining Budget formulas on
+ * the AFR sheet, which manual edits in Excel often break.
+ *
+ * Accepts multipart form data with:
+ * - master: The master spreadsheet .xlsx (required)
+ * - repair: "true" to rewrite the formulas that are wrong (optional)
+ *
+ * Checks:
+ * - Each Weekly Subtotal is =SUM(H{first}:H{last}) over exactly the week's request rows
+ * - Each Remaining Budget is ={previous week's Remaining Budget}-H{subtotal}, with the
+ *   first week starting from the initial budget in I1
+ * - Each Budget Adjustment row is ={previous Remaining Budget}+D{row}, and the next
+ *   Remaining Budget continues from it
+ * - Hard-coded numbers, formulas pointing at deleted rows (#REF!), and missing
+ *   subtotal or remaining rows are reported, as is an I1 that isn't a number
+ * - Legacy-layout masters (budget in I2) are rejected - migrate them first with
+ *   /api/migrate-master
+ *
+ * Returns:
+ * - Without repair: JSON with the `issues` found (each with its `cell`) and `weeksChecked`
+ * - With repair: The repaired .xlsx file as a download. The issues that were fixed are
+ *   sent in X-SGA-Issues (URI-encoded JSON) and the number of formulas rewritten in
+ *   X-SGA-Repaired.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auditBudgetChain } from '@/lib/budget-chain-audit';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    // Get the master spreadsheet (required)
+    const masterFile = formData.get('master') as File | null;
+    if (!masterFile) {
+      return NextResponse.json(
+        { error: 'Master spreadsheet is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    if (!masterFile.name.endsWith('.xlsx')) {
+      return NextResponse.json(
+        { error: 'Please upload an Excel file (.xlsx)' },
+        { status: 400 }
+      );
+    }
+
+    const repair = formData.get('repair') === 'true';
+
+    const audit = await auditBudgetChain(await masterFile.arrayBuffer(), { repair });
+
+    if (!audit.buffer) {
+      return NextResponse.json({
+        issues: audit.issues,
+        weeksChecked: audit.weeksChecked,
+      });
+    }
+
+    const repairedBuffer = audit.buffer;
+
+    return new NextResponse(new Uint8Array(repairedBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${masterFile.name}"`,
+        'Content-Length': repairedBuffer.length.toString(),
+        'X-SGA-Issues': encodeURIComponent(JSON.stringify(audit.issues)),
+        'X-SGA-Repaired': String(audit.repaired),
+      },
+    });
+
+  } catch (error) {
+    console.error('Audit budget chain error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to audit budget chain: ${message}` },
+      { status: 500 }
+    );
+  }
+}
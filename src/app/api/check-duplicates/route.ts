@@ -0,0 +1,95 @@
+/**
+ * API Route: POST /api/check-duplicates
+ * 
+ * Reports likely duplicate requests before they are merged. Each request in the
+ * exports is compared with earlier submissions in the upload and with every row
+ * already in the master spreadsheet (organization, amount, and description).
+ * 
+ * Accepts multipart form data with:
+ * - csv: The budget requests export, .csv or .xlsx (required) - repeat for several exports
+ * - master: The existing master spreadsheet (optional)
+ * - threshold: Minimum similarity to report, 0-1 (optional - defaults to 0.8)
+ * 
+ * Returns: JSON with `duplicates` (most similar first), matching `issues`, and the
+ * `requests` that were checked (for previewing the rows the issues point at)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupportedExport, parseExportFiles } from '@/lib/export-parser';
+import { parseWeeklySpreadsheet } from '@/lib/xlsx-parser';
+import { loadOrgRegistry } from '@/lib/org-registry';
+import { createDuplicateIssue, DUPLICATE_THRESHOLD, findDuplicates } from '@/lib/duplicate-detector';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    
+    // Get the CSV files (at least one required)
+    const csvFiles = formData.getAll('csv').filter((entry): entry is File => entry instanceof File);
+    if (csvFiles.length === 0) {
+      return NextResponse.json(
+        { error: 'CSV file is required' },
+        { status: 400 }
+      );
+    }
+    
+    const unsupportedFile = csvFiles.find((file) => !isSupportedExport(file));
+    if (unsupportedFile) {
+      return NextResponse.json(
+        { error: `"${unsupportedFile.name}" is not a CampusGroups export (.csv or .xlsx)` },
+        { status: 400 }
+      );
+    }
+    
+    // Get the similarity threshold (optional)
+    const thresholdValue = formData.get('threshold') as string | null;
+    const threshold = thresholdValue ? Number(thresholdValue) : DUPLICATE_THRESHOLD;
+    if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+      return NextResponse.json(
+        { error: 'Invalid threshold. Provide a number between 0 and 1.' },
+        { status: 400 }
+      );
+    }
+    
+    // Parse the exports - denied requests won't be merged, so they aren't checked
+    const parseResult = await parseExportFiles(csvFiles, { validate: false, orgRegistry: await loadOrgRegistry() });
+    if (parseResult.errors.length > 0) {
+      return NextResponse.json(
+        { 
+          error: 'Unable to parse export. Ensure the file is a valid CampusGroups export.',
+          errors: parseResult.errors,
+          issues: parseResult.issues,
+        },
+        { status: 400 }
+      );
+    }
+    const requests = parseResult.requests.filter((r) => r.approvalStatus !== 'Denied');
+    
+    // Read the weeks already in the master (optional)
+    const masterFile = formData.get('master') as File | null;
+    const masterWeeks = masterFile
+      ? (await parseWeeklySpreadsheet(await masterFile.arrayBuffer())).weeks
+      : [];
+    
+    const duplicates = findDuplicates(requests, masterWeeks, threshold);
+    
+    return NextResponse.json({
+      duplicates,
+      issues: duplicates.map(createDuplicateIssue),
+      checkedRequests: requests.length,
+      type: parseResult.type,
+      requests,
+      masterRows: masterWeeks.reduce((sum, week) => sum + week.afrRequests.length + week.reallocationRequests.length, 0),
+    });
+    
+  } catch (error) {
+    console.error('Check duplicates error:', error);
+    
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+    
+    return NextResponse.json(
+      { error: `Failed to check for duplicates: ${message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -7,6 +7,7 @@
  * Accepts multipart form data with:
  * - spreadsheet: The weekly budget .xlsx file (required)
  * - weekDate: The week date string to generate for, e.g., "2/1" (required)
+ * - groupBy: "category" or "fundingTier" to group slides by organization category or funding tier (optional)
  * 
  * Returns: Binary .pptx file as a download
  */
@@ -14,6 +15,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { parseWeeklySpreadsheet, findWeekByDate, getWeekPresentationRequests } from '@/lib/xlsx-parser';
 import { generatePPTXFromSpreadsheet } from '@/lib/pptx-generator';
+import { fillOrgMetadata, loadOrgRegistry } from '@/lib/org-registry';
 
 export async function POST(request: NextRequest) {
   try {
@@ -57,14 +59,16 @@ export async function POST(request: NextRequest) {
         { 
           error: 'Failed to parse spreadsheet',
           errors: parseResult.errors,
-          warnings: parseResult.warnings 
+          warnings: parseResult.warnings,
+          issues: parseResult.issues,
         },
         { status: 400 }
       );
     }
     
-    // Find the requested week
-    const week = findWeekByDate(parseResult.weeks, weekDate);
+    // Find the requested week (funding tiers and categories missing from older masters come from the org registry)
+    const weeks = fillOrgMetadata(parseResult.weeks, await loadOrgRegistry());
+    const week = findWeekByDate(weeks, weekDate);
     if (!week) {
       return NextResponse.json(
         { 
@@ -89,7 +93,10 @@ export async function POST(request: NextRequest) {
     }
     
     // Generate the PPTX
-    const pptxBuffer = await generatePPTXFromSpreadsheet(requests, week.date);
+    const groupBy = formData.get('groupBy');
+    const pptxBuffer = await generatePPTXFromSpreadsheet(requests, week.date, {
+      groupBy: groupBy === 'category' || groupBy === 'fundingTier' ? groupBy : undefined,
+    });
     
     // Generate filename
     const safeDate = week.date.replace(/\//g, '-');
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generatePPTX } from '@/lib/pptx-generator';
 import { applyOrgNumbering } from '@/lib/org-numbering';
+import { getTodayISO } from '@/lib/date-utils';
 import type { BudgetRequest } from '@/types/budget-request';
 
 interface GeneratePPTXRequest {
@@ -63,7 +64,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       status: 200,
       headers: {
         'Content-Type': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-        'Content-Disposition': `attachment; filename="SGA_Approved_Requests_${formatDate(new Date())}.pptx"`,
+        'Content-Disposition': `attachment; filename="SGA_Approved_Requests_${getTodayISO()}.pptx"`,
         'Content-Length': uint8Array.byteLength.toString(),
         'Cache-Control': 'no-store',
       },
@@ -96,13 +97,3 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     );
   }
 }
-
-/**
- * Format a date as YYYY-MM-DD for use in filenames
- */
-function formatDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generateXLSX } from '@/lib/xlsx-generator';
 import { applyOrgNumbering } from '@/lib/org-numbering';
+import { getTodayISO } from '@/lib/date-utils';
 import type { BudgetRequest } from '@/types/budget-request';
 
 interface GenerateXLSXRequest {
@@ -73,7 +74,7 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
       status: 200,
       headers: {
         'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        'Content-Disposition': `attachment; filename="SGA_Sunday_Meeting_${formatDate(new Date())}.xlsx"`,
+        'Content-Disposition': `attachment; filename="SGA_Sunday_Meeting_${getTodayISO()}.xlsx"`,
         'Content-Length': uint8Array.byteLength.toString(),
         'Cache-Control': 'no-store',
         // Include warnings in a custom header if there are any
@@ -110,13 +111,3 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     );
   }
 }
-
-/**
- * Format a date as YYYY-MM-DD for use in filenames
- */
-function formatDate(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const day = String(date.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
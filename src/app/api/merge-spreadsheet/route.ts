@@ -3,110 +3,375 @@
  * 
  * Merges budget requests from a CSV into an existing master spreadsheet.
  * Accepts multipart form data with:
- * - csv: The budget requests CSV file (required) - can include all request types
+ * - csv: The budget requests export, .csv or .xlsx (required) - can include all request types.
+ *   Repeat the field to upload several exports; they are combined by submission ID
+ *   (most recently updated copy wins, differing fields are reported as conflicts)
  * - master: The existing master spreadsheet (optional - creates new if not provided)
- * - meetingDate: The date for the meeting (optional)
+ * - semesterName: Title of the new master when no master is uploaded (optional)
+ * - startingBudget: Starting budget (I1) of the new master when no master is uploaded (optional)
+ * - meetingDate: The date for the meeting (optional - defaults to next Sunday)
+ * - deadlineWeekday: Submission deadline day, 0-6 (optional - defaults to Thursday)
+ * - deadlineTime: Submission deadline time as "HH:MM" (optional - defaults to 23:59)
+ * - fuzzyHeaders: "true" to accept near-matching CSV column headers (optional)
+ * - numberBySubmission: "true" to keep the request number each submission was given in an
+ *   earlier merge (optional)
+ * - roster: Officer roster CSV of organization, name, email, role (optional) - requests
+ *   not submitted by the organization's president or treasurer are flagged and marked
+ *   "[Submitter not on roster]" in the Notes column
+ * - budgetAdjustments: JSON list of mid-semester budget changes (optional), each
+ *   { date: "YYYY-MM-DD", source: "Rollover" | "Supplemental Allocation" | "Clawback",
+ *   amount, memo } - amount is added to the remaining budget (negative to take it out)
+ * - format: "json" to get the file and everything about the merge in one JSON body (optional)
  * 
  * Processing:
+ * - Requests already in the master (matched by submission ID) are never added twice, so
+ *   re-running a merge with overlapping exports is safe
+ * - If the master already has a "Week of" section for the meeting date, it is updated in
+ *   place: rows whose request changed are updated (Notes are only rewritten when the
+ *   export's description changed, so reviewer edits survive a re-merge), new requests are
+ *   inserted into the section, and rows whose request is no longer in the export are
+ *   marked "[Withdrawn]"
+ * - Organization names are resolved to canonical names through the organization registry
+ *   (see /api/org-registry) before numbering; unmatched names are reported as warnings
+ * - Requests deferred by the previous merge are carried forward into this week
  * - Denied requests are automatically excluded
- * - "Finance Review" (late submissions) are automatically excluded
- * - Auto-Approve and Budget Review requests are pre-filled with "Approved" status
+ * - "Finance Review" requests and pending requests submitted after the deadline
+ *   are deferred to next week (listed on the master's Deferred to Next Week sheet).
+ *   The export still shows the Finance Review route a week later, so requests on that
+ *   sheet are added this week rather than deferred again
+ * - Auto-Approve and Budget Review requests are pre-filled with "Approved" status,
+ *   unless the amount is above the route's dollar limit (set in the semester's finance
+ *   policy) - those get a highlighted "Route exceeds limit" note instead
  * - Pending Sunday Meeting requests are left blank for manual review
+ * - Organization numbering continues from the highest number each organization already
+ *   has in the master, so "SGA (#3)" means the same request all semester
+ * - Budget adjustments are listed on the AFR sheet as "Budget Adjustment" rows above the
+ *   first week on or after their date, and the Remaining Budget chain runs through them.
+ *   Adjustments the master already lists are not added again
+ * - Likely duplicates (within the upload or of rows already in the master) are reported
+ *   as warnings - use /api/check-duplicates to review them before merging
+ * - Accounts are checked against the account registry (see /api/account-registry), which
+ *   first learns the accounts in the uploaded master. Missing accounts are filled in from
+ *   the organization's usual account and marked in the spreadsheet; accounts belonging to
+ *   another organization, or organizations using too many accounts, are reported as warnings
  * 
- * Returns: The merged .xlsx file as a download
+ * - Rows the export can't be read from (e.g., no valid Submitted On date) are skipped and
+ *   reported with the other warnings, along with fuzzy column matches
+ * 
+ * Returns:
+ * - By default: The merged .xlsx file as a download. Only short JSON headers are sent, so
+ *   a busy week can't outgrow proxy header limits: X-SGA-Merge-Summary ({ added, updated,
+ *   withdrawn, alreadyInMaster, adjustmentsAdded, ... }), X-SGA-Issue-Counts
+ *   ({ error, warning, info }), and X-SGA-Excluded when requests were left out
+ * - With format=json: { filename, file (base64 .xlsx), summary, excluded, issues,
+ *   conflicts, type, requests } - the validation issues and per-field conflicts in full,
+ *   and the uploaded requests (numbered as merged) for previewing them
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { parseCSV } from '@/lib/csv-parser';
-import { validateCSVForSpreadsheet } from '@/lib/csv-validator';
-import { mergeSpreadsheet } from '@/lib/spreadsheet-merger';
-import { applyOrgNumbering } from '@/lib/org-numbering';
+import { isSupportedExport, parseExportFiles } from '@/lib/export-parser';
+import { validateCSV, validateCSVForSpreadsheet } from '@/lib/csv-validator';
+import { mergeSpreadsheet, readDeferredRequests, readMasterSubmissionIds } from '@/lib/spreadsheet-merger';
+import { applyOrgNumbering, getExistingOrgNumbers, recordSubmissionNumbers } from '@/lib/org-numbering';
+import { loadSubmissionNumbers, saveSubmissionNumbers } from '@/lib/submission-numbers';
+import { parseWeeklySpreadsheet } from '@/lib/xlsx-parser';
+import { createDuplicateIssue, findDuplicates } from '@/lib/duplicate-detector';
+import {
+  applyAccountRegistry,
+  learnAccountsFromWeeks,
+  loadAccountRegistry,
+  saveAccountRegistry,
+} from '@/lib/account-registry';
+import { getNextSunday, getTodayISO, parseDateString } from '@/lib/date-utils';
+import { parseSubmissionDeadline } from '@/lib/submission-deadline';
+import { parseOfficerRoster } from '@/lib/officer-roster';
+import { loadOrgRegistry } from '@/lib/org-registry';
+import { parseBudgetAdjustments } from '@/lib/budget-adjustments';
+import type { BudgetAdjustment } from '@/types/budget-request';
+import { countIssuesBySeverity, createIssue, getErrorMessages, getWarningMessages } from '@/lib/validation-issues';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     
-    // Get the CSV file (required)
-    const csvFile = formData.get('csv') as File | null;
-    if (!csvFile) {
+    // Get the CSV files (at least one required)
+    const csvFiles = formData.getAll('csv').filter((entry): entry is File => entry instanceof File);
+    if (csvFiles.length === 0) {
       return NextResponse.json(
         { error: 'CSV file is required' },
         { status: 400 }
       );
     }
     
+    const unsupportedFile = csvFiles.find((file) => !isSupportedExport(file));
+    if (unsupportedFile) {
+      return NextResponse.json(
+        { error: `"${unsupportedFile.name}" is not a CampusGroups export (.csv or .xlsx)` },
+        { status: 400 }
+      );
+    }
+    
     // Get the master spreadsheet file (optional)
     const masterFile = formData.get('master') as File | null;
     
+    // Get the title and starting budget for a new master (optional - used without a master)
+    const semesterName = ((formData.get('semesterName') as string | null) || '').trim();
+    const startingBudgetValue = ((formData.get('startingBudget') as string | null) || '').trim();
+    let startingBudget: number | undefined;
+    if (startingBudgetValue) {
+      startingBudget = Number(startingBudgetValue.replace(/[$,]/g, ''));
+      if (isNaN(startingBudget) || startingBudget <= 0) {
+        return NextResponse.json(
+          { error: 'Starting budget must be a positive number' },
+          { status: 400 }
+        );
+      }
+    }
+    
     // Get the meeting date (optional)
     const meetingDate = formData.get('meetingDate') as string | null;
+    const meetingDateValue = meetingDate ? parseDateString(meetingDate) : getNextSunday();
+    if (!meetingDateValue) {
+      return NextResponse.json(
+        { error: 'Invalid meetingDate. Please provide a date like "2026-01-25".' },
+        { status: 400 }
+      );
+    }
+    
+    // Get the submission deadline (optional)
+    const deadline = parseSubmissionDeadline(
+      formData.get('deadlineWeekday') as string | null,
+      formData.get('deadlineTime') as string | null
+    );
+    if (!deadline) {
+      return NextResponse.json(
+        { error: 'Invalid submission deadline. Provide a weekday (0-6) and a time like "23:59".' },
+        { status: 400 }
+      );
+    }
+    
+    // Whether to accept near-matching column headers (optional)
+    const fuzzyHeaders = formData.get('fuzzyHeaders') === 'true';
+    
+    // Whether submissions keep the numbers they were given in earlier merges (optional)
+    const numberBySubmission = formData.get('numberBySubmission') === 'true';
+    
+    // Whether to send the file and the merge report as one JSON body (optional)
+    const jsonResponse = formData.get('format') === 'json';
+    
+    // Get the budget adjustments (optional)
+    const budgetAdjustmentsValue = formData.get('budgetAdjustments') as string | null;
+    let budgetAdjustments: BudgetAdjustment[];
+    try {
+      budgetAdjustments = budgetAdjustmentsValue ? parseBudgetAdjustments(JSON.parse(budgetAdjustmentsValue)) : [];
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof SyntaxError ? 'budgetAdjustments must be valid JSON' : (error as Error).message },
+        { status: 400 }
+      );
+    }
+    
+    // Read the officer roster (optional)
+    const rosterFile = formData.get('roster');
+    const rosterResult = rosterFile instanceof File ? parseOfficerRoster(await rosterFile.text()) : null;
+    if (rosterResult && rosterResult.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Unable to read the officer roster.',
+          errors: rosterResult.errors,
+          issues: rosterResult.issues,
+        },
+        { status: 400 }
+      );
+    }
     
-    // Parse the CSV
-    const csvText = await csvFile.text();
-    const parseResult = parseCSV(csvText);
+    // Parse and combine the exports (CSV or Excel), resolving organization names through the registry.
+    // Requests are validated once below, so parsing only reports problems reading the files
+    const parseResult = await parseExportFiles(csvFiles, {
+      fuzzyHeaders,
+      orgRegistry: await loadOrgRegistry(),
+      validate: false,
+    });
+    const exportErrors = parseResult.errors.length > 0 ? [] : validateCSV(parseResult.requests).issues
+      .filter((issue) => issue.severity === 'error');
     
     // Check for errors in initial parsing
-    if (parseResult.errors.length > 0) {
+    if (parseResult.errors.length > 0 || exportErrors.length > 0) {
+      const issues = [...parseResult.issues, ...exportErrors];
       return NextResponse.json(
         { 
-          error: 'Unable to parse CSV. Ensure the file is a valid CampusGroups export.',
-          warnings: parseResult.warnings,
-          errors: parseResult.errors 
+          error: 'Unable to parse export. Ensure the file is a valid CampusGroups export.',
+          warnings: getWarningMessages(issues),
+          errors: getErrorMessages(issues),
+          issues,
         },
         { status: 400 }
       );
     }
     
+    // Load master spreadsheet if provided
+    let masterBuffer: ArrayBuffer | null = null;
+    if (masterFile) {
+      masterBuffer = await masterFile.arrayBuffer();
+    }
+    
+    // Carry forward requests deferred last week (the new export wins if it includes them,
+    // but keeps the meeting it was deferred from so it isn't deferred again)
+    const previouslyDeferred = masterBuffer ? await readDeferredRequests(masterBuffer) : [];
+    const deferredFromById = new Map(previouslyDeferred.map((r) => [r.submissionId, r.deferredFrom]));
+    for (const request of parseResult.requests) {
+      if (deferredFromById.has(request.submissionId)) {
+        request.deferredFrom = deferredFromById.get(request.submissionId) || 'an earlier meeting';
+      }
+    }
+    const exportedIds = new Set(parseResult.requests.map((r) => r.submissionId));
+    const carriedForward = previouslyDeferred.filter((r) => !exportedIds.has(r.submissionId));
+    
+    // Update the account registry with the master's accounts, then check the uploaded accounts
+    const masterWeeks = masterBuffer ? (await parseWeeklySpreadsheet(masterBuffer)).weeks : [];
+    const savedRegistry = await loadAccountRegistry();
+    const { registry } = learnAccountsFromWeeks(savedRegistry, masterWeeks);
+    if (registry.updatedAt !== savedRegistry.updatedAt) {
+      try {
+        await saveAccountRegistry(registry);
+      } catch (error) {
+        console.warn('Could not save account registry:', error);
+      }
+    }
+    const accountCheck = applyAccountRegistry([...parseResult.requests, ...carriedForward], registry);
+    
     // Use the spreadsheet-specific validator to filter and mark requests
-    const validationResult = validateCSVForSpreadsheet(parseResult.requests);
+    const validationResult = validateCSVForSpreadsheet(
+      accountCheck.requests,
+      { meetingDate: meetingDateValue, deadline, roster: rosterResult?.officers }
+    );
+    // Rows dropped while parsing (e.g., no Submitted On date) and other parse notes come first
+    validationResult.issues.unshift(...parseResult.issues);
+    validationResult.warnings.unshift(...parseResult.warnings);
+    if (rosterResult) {
+      validationResult.issues.push(...rosterResult.issues);
+      validationResult.warnings.push(...rosterResult.warnings);
+    }
+    validationResult.issues.push(...accountCheck.issues);
+    validationResult.warnings.push(...accountCheck.issues.map((issue) => issue.message));
+    
+    if (carriedForward.length > 0) {
+      const carriedIssue = createIssue(
+        'carried-forward',
+        'info',
+        `${carriedForward.length} request(s) deferred from last week were carried forward.`
+      );
+      validationResult.issues.unshift(carriedIssue);
+      validationResult.warnings.unshift(carriedIssue.message);
+    }
     
     // Check for critical errors
-    if (validationResult.errors.length > 0 || validationResult.type === 'unknown') {
+    if (validationResult.errors.length > 0) {
       return NextResponse.json(
         { 
           error: 'No valid requests to include in spreadsheet after filtering.',
           warnings: validationResult.warnings,
           errors: validationResult.errors,
-          excluded: validationResult.excludedCount
+          issues: validationResult.issues,
+          excluded: validationResult.excludedCount,
+          type: validationResult.type,
+          requests: accountCheck.requests,
         },
         { status: 400 }
       );
     }
     
-    // Apply organization numbering to the filtered requests
-    const numberedRequests = applyOrgNumbering(validationResult.filteredRequests);
+    // Requests the master already has (a re-run merge or overlapping exports) are only updated
+    const masterSubmissionIds = masterBuffer ? await readMasterSubmissionIds(masterBuffer) : new Set<string>();
+    const newRequests = validationResult.filteredRequests.filter((r) => !masterSubmissionIds.has(r.submissionId));
+    const requestsInMaster = validationResult.filteredRequests.filter((r) => masterSubmissionIds.has(r.submissionId));
+    const deferredRequests = validationResult.deferredRequests.filter((r) => !masterSubmissionIds.has(r.submissionId));
     
-    // Load master spreadsheet if provided
-    let masterBuffer: ArrayBuffer | null = null;
-    if (masterFile) {
-      masterBuffer = await masterFile.arrayBuffer();
+    // Flag likely duplicates within the upload and of rows already in the master
+    for (const match of findDuplicates(newRequests, masterWeeks)) {
+      const duplicateIssue = createDuplicateIssue(match);
+      validationResult.issues.push(duplicateIssue);
+      validationResult.warnings.push(duplicateIssue.message);
+    }
+    
+    // Apply organization numbering to the filtered requests, continuing from the master
+    const existingNumbers = getExistingOrgNumbers(
+      masterWeeks.flatMap((week) => [...week.afrRequests, ...week.reallocationRequests])
+    );
+    const submissionNumbers = numberBySubmission ? await loadSubmissionNumbers() : undefined;
+    const numberedRequests = applyOrgNumbering(newRequests, { existingNumbers, submissionNumbers });
+    if (submissionNumbers) {
+      try {
+        await saveSubmissionNumbers(recordSubmissionNumbers(submissionNumbers, numberedRequests));
+      } catch (error) {
+        console.warn('Could not save submission numbers:', error);
+      }
     }
     
     // Merge the spreadsheets
-    const mergedBuffer = await mergeSpreadsheet(
+    const { buffer: mergedBuffer, summary } = await mergeSpreadsheet(
       masterBuffer,
-      numberedRequests,
-      { meetingDate: meetingDate || undefined }
+      [...numberedRequests, ...requestsInMaster],
+      {
+        meetingDate: meetingDate || undefined,
+        deferredRequests,
+        activeSubmissionIds: new Set([...parseResult.requests, ...carriedForward].map((r) => r.submissionId)),
+        budgetAdjustments,
+        semesterName,
+        startingBudget,
+      }
     );
     
+    if (summary.withdrawn > 0) {
+      const withdrawnIssue = createIssue(
+        'withdrawn-from-export',
+        'warning',
+        `${summary.withdrawn} request(s) in this week's section are no longer in the export and were marked withdrawn.`
+      );
+      validationResult.issues.unshift(withdrawnIssue);
+      validationResult.warnings.unshift(withdrawnIssue.message);
+    }
+    if (summary.alreadyInMaster > 0 || summary.updated > 0) {
+      const alreadyInMasterIssue = createIssue(
+        'already-in-master',
+        'info',
+        `${summary.alreadyInMaster} already in master, ${summary.updated} updated, ${summary.added} added.`
+      );
+      validationResult.issues.unshift(alreadyInMasterIssue);
+      validationResult.warnings.unshift(alreadyInMasterIssue.message);
+    }
+    
     // Generate filename
-    const dateStr = meetingDate || new Date().toISOString().split('T')[0];
+    const dateStr = meetingDate || getTodayISO();
     const filename = `SGA_Budget_Review_${dateStr}.xlsx`;
     
-    // Build response with warnings if any
+    if (jsonResponse) {
+      // Uploaded requests as merged, so issues can be matched to their rows
+      const numberedById = new Map(numberedRequests.map((r) => [r.submissionId, r]));
+      return NextResponse.json({
+        filename,
+        file: mergedBuffer.toString('base64'),
+        summary,
+        excluded: validationResult.excludedCount,
+        issues: validationResult.issues,
+        conflicts: parseResult.conflicts ?? [],
+        type: validationResult.type,
+        requests: accountCheck.requests.map((r) => numberedById.get(r.submissionId) ?? r),
+      });
+    }
+    
+    // Build response with short summary headers - the issues themselves are only sent as JSON
     const responseHeaders: HeadersInit = {
       'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
       'Content-Disposition': `attachment; filename="${filename}"`,
       'Content-Length': mergedBuffer.length.toString(),
+      'X-SGA-Merge-Summary': JSON.stringify(summary),
+      'X-SGA-Issue-Counts': JSON.stringify(countIssuesBySeverity(validationResult.issues)),
     };
     
-    // Include warnings in a custom header if any
-    if (validationResult.warnings.length > 0) {
-      responseHeaders['X-SGA-Warnings'] = JSON.stringify(validationResult.warnings);
-    }
-    
     // Include exclusion counts
-    if (validationResult.excludedCount.denied > 0 || validationResult.excludedCount.financeReview > 0) {
+    const { denied, financeReview, late } = validationResult.excludedCount;
+    if (denied > 0 || financeReview > 0 || late > 0) {
       responseHeaders['X-SGA-Excluded'] = JSON.stringify(validationResult.excludedCount);
     }
     
@@ -0,0 +1,95 @@
+/**
+ * API Route: POST /api/migrate-master
+ *
+ * Rewrites a master spreadsheet made in an older layout into the current one
+ * (the layout /api/create-master generates), so merges, week removal, and the
+ * budget chain audit all read it the same way.
+ *
+ * Accepts multipart form data with:
+ * - master: The master spreadsheet .xlsx (required)
+ * - semesterName: Semester name for the title row (required)
+ * - startingBudget: Starting budget for I1 (optional - defaults to the master's Initial Budget)
+ *
+ * Processing:
+ * - The layout is read from the schema version stamp, or recognized from the sheets
+ * - Legacy masters get the title and starting budget on row 1 and one column header
+ *   row (row 2); the column header rows repeated under each week are removed
+ * - Week sections and their Weekly Subtotal and Remaining Budget formulas are kept
+ * - The migrated master is stamped with the current schema version
+ *
+ * Returns: The migrated .xlsx file as a download. What changed is sent in
+ * X-SGA-Migration-Summary as JSON ({ fromLayout, version, headerRowsRemoved, renamedSheets, renumberedRows }).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { migrateMaster } from '@/lib/master-migration';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    // Get the master spreadsheet (required)
+    const masterFile = formData.get('master') as File | null;
+    if (!masterFile) {
+      return NextResponse.json(
+        { error: 'Master spreadsheet is required' },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    if (!masterFile.name.endsWith('.xlsx')) {
+      return NextResponse.json(
+        { error: 'Please upload an Excel file (.xlsx)' },
+        { status: 400 }
+      );
+    }
+
+    // Get the semester name (required)
+    const semesterName = ((formData.get('semesterName') as string | null) || '').trim();
+    if (!semesterName) {
+      return NextResponse.json(
+        { error: 'Semester name is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get the starting budget (optional)
+    const startingBudgetValue = ((formData.get('startingBudget') as string | null) || '').trim();
+    let startingBudget: number | undefined;
+    if (startingBudgetValue) {
+      startingBudget = Number(startingBudgetValue.replace(/[$,]/g, ''));
+      if (isNaN(startingBudget) || startingBudget <= 0) {
+        return NextResponse.json(
+          { error: 'Starting budget must be a positive number' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const { buffer: migratedBuffer, summary } = await migrateMaster(await masterFile.arrayBuffer(), {
+      semesterName,
+      startingBudget,
+    });
+
+    return new NextResponse(new Uint8Array(migratedBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${masterFile.name}"`,
+        'Content-Length': migratedBuffer.length.toString(),
+        'X-SGA-Migration-Summary': JSON.stringify(summary),
+      },
+    });
+
+  } catch (error) {
+    console.error('Migrate master error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to migrate master: ${message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * API Route: /api/org-registry
+ *
+ * The canonical organization registry used to resolve organization names.
+ *
+ * GET: Returns the saved registry as JSON.
+ *
+ * POST: Saves a submitted name as an alias of an organization.
+ * Accepts a JSON body with:
+ * - name: The organization name as submitted (required)
+ * - canonicalName: The organization it refers to (required) - a name not yet in the
+ *   registry is added as a new organization
+ *
+ * PUT: Sets an organization's reporting details, replacing any saved before.
+ * Accepts a JSON body with:
+ * - canonicalName: The organization (required) - a name not yet in the registry is added
+ * - category: Club Sports, Cultural, Academic, Greek Life, or Media (optional)
+ * - fundingTier: Funding tier, e.g., "Tier 2" (optional)
+ * - advisor: Advisor's name (optional)
+ * - baseBudget: Semester budget in USD (optional)
+ *
+ * POST and PUT return JSON with the updated `registry`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { addOrgAlias, loadOrgRegistry, parseOrgMetadata, saveOrgRegistry, setOrgMetadata } from '@/lib/org-registry';
+import type { OrgMetadata } from '@/types/org-registry';
+
+interface AddAliasRequest {
+  name?: unknown;
+  canonicalName?: unknown;
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ registry: await loadOrgRegistry() });
+  } catch (error) {
+    console.error('Load organization registry error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to load organization registry: ${message}` },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: AddAliasRequest = await request.json();
+
+    if (typeof body.name !== 'string' || !body.name.trim() ||
+        typeof body.canonicalName !== 'string' || !body.canonicalName.trim()) {
+      return NextResponse.json(
+        { error: 'Invalid request body. Expected "name" and "canonicalName".' },
+        { status: 400 }
+      );
+    }
+
+    const registry = addOrgAlias(await loadOrgRegistry(), body.name, body.canonicalName);
+    await saveOrgRegistry(registry);
+
+    return NextResponse.json({ registry });
+
+  } catch (error) {
+    console.error('Update organization registry error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to update organization registry: ${message}` },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const body: unknown = await request.json();
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body) ||
+        !('canonicalName' in body) || typeof body.canonicalName !== 'string' || !body.canonicalName.trim()) {
+      return NextResponse.json(
+        { error: 'Invalid request body. Expected "canonicalName".' },
+        { status: 400 }
+      );
+    }
+
+    let metadata: OrgMetadata;
+    try {
+      metadata = parseOrgMetadata(body as Record<string, unknown>, body.canonicalName);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid organization details' },
+        { status: 400 }
+      );
+    }
+
+    const registry = setOrgMetadata(await loadOrgRegistry(), body.canonicalName, metadata);
+    await saveOrgRegistry(registry);
+
+    return NextResponse.json({ registry });
+
+  } catch (error) {
+    console.error('Update organization details error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to update organization details: ${message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,49 +1,79 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { parseCSV } from '@/lib/csv-parser';
+import { isSupportedExport, parseExportFiles } from '@/lib/export-parser';
 import { validateCSV, detectCSVType } from '@/lib/csv-validator';
+import { parseOfficerRoster } from '@/lib/officer-roster';
+import { loadOrgRegistry } from '@/lib/org-registry';
+import { createIssue } from '@/lib/validation-issues';
 import type { CSVParseResult } from '@/types/budget-request';
 
 /**
  * POST /api/parse-csv
  * 
- * Accepts a CSV file via FormData, parses and validates it,
- * and returns the parsed budget requests with type detection.
+ * Accepts one or more CampusGroups exports (.csv or .xlsx) via FormData as repeated
+ * `file` fields, parses and validates them, and returns the parsed budget requests
+ * with type detection. Multiple files are combined by submission ID - the most
+ * recently updated copy wins and differing fields are returned in `conflicts`.
+ * Set the optional `fuzzyHeaders` field to "true" to accept near-matching
+ * column headers (reported as warnings). Upload an officer roster CSV as `roster`
+ * (organization, name, email, role) to flag requests whose submitter isn't the
+ * organization's president or treasurer (`submitterNotOnRoster`).
+ * Organization names are resolved to canonical names through the organization
+ * registry (the submitted spelling is kept in `submittedOrganizationName`).
+ * 
+ * Every warning and error is also returned as a structured entry in `issues`
+ * (code, severity, submission ID, row, field and suggested fix).
  */
 export async function POST(request: NextRequest): Promise<NextResponse<CSVParseResult | { error: string }>> {
   try {
     // Get the form data from the request
     const formData = await request.formData();
-    const file = formData.get('file');
+    const files = formData.getAll('file').filter((entry): entry is File => entry instanceof File);
+    const fuzzyHeaders = formData.get('fuzzyHeaders') === 'true';
 
     // Validate that a file was provided
-    if (!file || !(file instanceof File)) {
+    if (files.length === 0) {
       return NextResponse.json(
-        { error: 'No file provided. Please upload a CSV file.' },
+        { error: 'No file provided. Please upload a CSV or Excel export.' },
         { status: 400 }
       );
     }
 
-    // Validate file type
-    if (!file.name.endsWith('.csv') && file.type !== 'text/csv') {
-      return NextResponse.json(
-        { error: 'Invalid file type. Please upload a CSV file (.csv).' },
-        { status: 400 }
-      );
-    }
+    for (const file of files) {
+      // Validate file type
+      if (!isSupportedExport(file)) {
+        return NextResponse.json(
+          { error: `Invalid file type for "${file.name}". Please upload CampusGroups exports (.csv or .xlsx).` },
+          { status: 400 }
+        );
+      }
 
-    // Read file contents
-    const fileContent = await file.text();
+      // Check for empty file
+      if (file.size === 0) {
+        return NextResponse.json(
+          { error: `The uploaded file "${file.name}" appears to be empty.` },
+          { status: 400 }
+        );
+      }
+    }
 
-    // Check for empty file
-    if (!fileContent.trim()) {
+    // Read the officer roster (optional)
+    const rosterFile = formData.get('roster');
+    const rosterResult = rosterFile instanceof File ? parseOfficerRoster(await rosterFile.text()) : null;
+    if (rosterResult && rosterResult.errors.length > 0) {
       return NextResponse.json(
-        { error: 'The uploaded file appears to be empty.' },
+        {
+          type: 'unknown' as const,
+          requests: [],
+          warnings: rosterResult.warnings,
+          errors: rosterResult.errors,
+          issues: rosterResult.issues,
+        },
         { status: 400 }
       );
     }
 
-    // Parse the CSV content
-    const parseResult = parseCSV(fileContent);
+    // Parse and combine the exports (CSV or Excel), resolving organization names through the registry
+    const parseResult = await parseExportFiles(files, { fuzzyHeaders, orgRegistry: await loadOrgRegistry() });
 
     // Check for parsing errors
     if (parseResult.errors.length > 0) {
@@ -53,13 +83,20 @@ export async function POST(request: NextRequest): Promise<NextResponse<CSVParseR
           requests: [],
           warnings: parseResult.warnings,
           errors: parseResult.errors,
+          issues: parseResult.issues,
+          profile: parseResult.profile,
+          conflicts: parseResult.conflicts,
         },
         { status: 400 }
       );
     }
 
     // Validate the CSV structure and content
-    const validationResult = validateCSV(parseResult.requests);
+    const validationResult = validateCSV(parseResult.requests, { roster: rosterResult?.officers });
+    if (rosterResult) {
+      validationResult.issues.push(...rosterResult.issues);
+      validationResult.warnings.push(...rosterResult.warnings);
+    }
 
     // If there are validation errors, return them
     if (validationResult.errors.length > 0) {
@@ -69,6 +106,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<CSVParseR
           requests: [],
           warnings: [...parseResult.warnings, ...validationResult.warnings],
           errors: validationResult.errors,
+          issues: [...parseResult.issues, ...validationResult.issues],
+          profile: parseResult.profile,
+          conflicts: parseResult.conflicts,
         },
         { status: 400 }
       );
@@ -79,15 +119,25 @@ export async function POST(request: NextRequest): Promise<NextResponse<CSVParseR
 
     // Handle mixed status case
     if (csvType === 'mixed') {
+      const mixedMessage =
+        'This CSV contains both approved and pending requests. ' +
+        'Please upload separate files for approved and pending requests.';
       return NextResponse.json(
         {
           type: 'mixed' as const,
           requests: parseResult.requests,
           warnings: [...parseResult.warnings, ...validationResult.warnings],
-          errors: [
-            'This CSV contains both approved and pending requests. ' +
-            'Please upload separate files for approved and pending requests.'
+          errors: [mixedMessage],
+          issues: [
+            ...parseResult.issues,
+            ...validationResult.issues,
+            createIssue('undetermined-type', 'error', mixedMessage, {
+              field: 'approvalStatus',
+              suggestedFix: 'Export approved and pending requests as separate reports.',
+            }),
           ],
+          profile: parseResult.profile,
+          conflicts: parseResult.conflicts,
         },
         { status: 400 }
       );
@@ -99,6 +149,9 @@ export async function POST(request: NextRequest): Promise<NextResponse<CSVParseR
       requests: parseResult.requests,
       warnings: [...parseResult.warnings, ...validationResult.warnings],
       errors: [],
+      issues: [...parseResult.issues, ...validationResult.issues],
+      profile: parseResult.profile,
+      conflicts: parseResult.conflicts,
     });
 
   } catch (error) {
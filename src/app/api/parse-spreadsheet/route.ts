@@ -7,11 +7,14 @@
  * Accepts multipart form data with:
  * - spreadsheet: The weekly budget .xlsx file (required)
  * 
- * Returns: JSON with weeks array containing summaries for week selection
+ * Returns: JSON with weeks array containing summaries for week selection, including
+ * per-category and per-funding-tier totals (funding tiers, and categories missing from
+ * older masters, come from the org registry)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { parseWeeklySpreadsheet, getWeekSummaries } from '@/lib/xlsx-parser';
+import { fillOrgMetadata, loadOrgRegistry } from '@/lib/org-registry';
 
 export async function POST(request: NextRequest) {
   try {
@@ -46,7 +49,8 @@ export async function POST(request: NextRequest) {
         { 
           error: 'Failed to parse spreadsheet',
           errors: parseResult.errors,
-          warnings: parseResult.warnings 
+          warnings: parseResult.warnings,
+          issues: parseResult.issues,
         },
         { status: 400 }
       );
@@ -57,19 +61,21 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(
         { 
           error: 'No weeks found in the spreadsheet. Ensure weeks are marked with "Week of X" headers.',
-          warnings: parseResult.warnings 
+          warnings: parseResult.warnings,
+          issues: parseResult.issues,
         },
         { status: 400 }
       );
     }
     
     // Get summaries for the week selector
-    const weekSummaries = getWeekSummaries(parseResult.weeks);
+    const weekSummaries = getWeekSummaries(fillOrgMetadata(parseResult.weeks, await loadOrgRegistry()));
     
     // Return the summaries
     return NextResponse.json({
       weeks: weekSummaries,
       warnings: parseResult.warnings,
+      issues: parseResult.issues,
       totalWeeks: parseResult.weeks.length,
     });
     
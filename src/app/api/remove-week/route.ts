@@ -0,0 +1,95 @@
+/**
+ * API Route: POST /api/remove-week
+ *
+ * Removes a whole "Week of" section from a master spreadsheet - used to roll back
+ * a bad merge without hand-editing the workbook.
+ *
+ * Accepts multipart form data with:
+ * - master: The master spreadsheet .xlsx (required)
+ * - weekDate: The week to remove, as listed by /api/parse-spreadsheet (required)
+ *
+ * Processing:
+ * - The week's section is removed from both the AFR and Reallocation sheets, along
+ *   with its Weekly Subtotal and Remaining Budget rows
+ * - The next week's Remaining Budget formula is pointed at the previous week's
+ *   Remaining Budget (or the initial budget), so the chain stays intact
+ * - Subtotal and Remaining Budget formulas below the removed week move up with their rows
+ *
+ * Returns: The repaired .xlsx file as a download named SGA_Budget_Review_<week date>.xlsx
+ * (the form saves it under the master's own name). What was removed is sent in
+ * X-SGA-Removal-Summary as JSON ({ week, afrRequests, reallocationRequests, repointedFormulas }).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { findWeekByDate, parseWeeklySpreadsheet } from '@/lib/xlsx-parser';
+import { removeWeek } from '@/lib/spreadsheet-merger';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    // Get the master spreadsheet (required)
+    const masterFile = formData.get('master') as File | null;
+    if (!masterFile) {
+      return NextResponse.json(
+        { error: 'Master spreadsheet is required' },
+        { status: 400 }
+      );
+    }
+
+    // Get the week date (required)
+    const weekDate = formData.get('weekDate') as string | null;
+    if (!weekDate) {
+      return NextResponse.json(
+        { error: 'Week date is required. Please select a week to remove.' },
+        { status: 400 }
+      );
+    }
+
+    // Validate file type
+    if (!masterFile.name.endsWith('.xlsx')) {
+      return NextResponse.json(
+        { error: 'Please upload an Excel file (.xlsx)' },
+        { status: 400 }
+      );
+    }
+
+    const buffer = await masterFile.arrayBuffer();
+
+    // Find the week's header as written in the master
+    const { weeks } = await parseWeeklySpreadsheet(buffer);
+    const week = findWeekByDate(weeks, weekDate);
+    if (!week) {
+      return NextResponse.json(
+        { error: `Week ${weekDate} not found in the master spreadsheet` },
+        { status: 400 }
+      );
+    }
+
+    const { buffer: repairedBuffer, summary } = await removeWeek(buffer, `Week of ${week.date}`);
+
+    // Name the download from the week, never the uploaded file name, so the header stays well-formed
+    const safeDate = week.dateISO || week.date.replace(/\//g, '-');
+    const filename = `SGA_Budget_Review_${safeDate}.xlsx`;
+
+    return new NextResponse(new Uint8Array(repairedBuffer), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': repairedBuffer.length.toString(),
+        'X-SGA-Removal-Summary': JSON.stringify(summary),
+      },
+    });
+
+  } catch (error) {
+    console.error('Remove week error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to remove week: ${message}` },
+      { status: 500 }
+    );
+  }
+}
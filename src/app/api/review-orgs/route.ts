@@ -0,0 +1,70 @@
+/**
+ * API Route: POST /api/review-orgs
+ *
+ * Lists the organization names in the exports that the organization registry
+ * couldn't match exactly, so they can be saved as aliases (via /api/org-registry)
+ * before merging.
+ *
+ * Accepts multipart form data with:
+ * - csv: The budget requests export, .csv or .xlsx (required) - repeat for several exports
+ *
+ * Returns: JSON with `names` to review (unmatched first, then fuzzy and acronym
+ * matches to confirm) and the registry's canonical `organizations`
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupportedExport, parseExportFiles } from '@/lib/export-parser';
+import { loadOrgRegistry, reviewOrgNames } from '@/lib/org-registry';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    // Get the CSV files (at least one required)
+    const csvFiles = formData.getAll('csv').filter((entry): entry is File => entry instanceof File);
+    if (csvFiles.length === 0) {
+      return NextResponse.json(
+        { error: 'CSV file is required' },
+        { status: 400 }
+      );
+    }
+
+    const unsupportedFile = csvFiles.find((file) => !isSupportedExport(file));
+    if (unsupportedFile) {
+      return NextResponse.json(
+        { error: `"${unsupportedFile.name}" is not a CampusGroups export (.csv or .xlsx)` },
+        { status: 400 }
+      );
+    }
+
+    // Parse without the registry so names come back as submitted
+    const parseResult = await parseExportFiles(csvFiles, { validate: false });
+    if (parseResult.errors.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Unable to parse export. Ensure the file is a valid CampusGroups export.',
+          errors: parseResult.errors,
+          issues: parseResult.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const registry = await loadOrgRegistry();
+
+    return NextResponse.json({
+      names: reviewOrgNames(parseResult.requests.map((r) => r.organizationName), registry),
+      organizations: registry.organizations.map((org) => org.canonicalName).sort((a, b) => a.localeCompare(b)),
+    });
+
+  } catch (error) {
+    console.error('Review organizations error:', error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return NextResponse.json(
+      { error: `Failed to review organization names: ${message}` },
+      { status: 500 }
+    );
+  }
+}
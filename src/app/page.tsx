@@ -4,8 +4,13 @@ import { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { CreateMasterForm } from '@/components/create-master-form';
 import { MergeMasterForm } from '@/components/merge-master-form';
+import { RemoveWeekForm } from '@/components/remove-week-form';
+import { MigrateMasterForm } from '@/components/migrate-master-form';
 import { WeekSelector } from '@/components/week-selector';
+import { IssueList } from '@/components/issue-list';
 import type { WeekSummary } from '@/types/presentation-request';
+import type { ValidationIssue } from '@/types/validation-issue';
+import type { OrgGrouping } from '@/types/org-registry';
 
 export default function Home() {
   // State for Senate Presentation workflow
@@ -14,8 +19,9 @@ export default function Home() {
   const [selectedWeek, setSelectedWeek] = useState<string>('');
   const [isParsingXlsx, setIsParsingXlsx] = useState(false);
   const [isGeneratingPptx, setIsGeneratingPptx] = useState(false);
+  const [slideGrouping, setSlideGrouping] = useState<OrgGrouping | ''>('');
   const [xlsxError, setXlsxError] = useState<string | null>(null);
-  const [xlsxWarnings, setXlsxWarnings] = useState<string[]>([]);
+  const [xlsxIssues, setXlsxIssues] = useState<ValidationIssue[]>([]);
 
   // Handle XLSX file drop for Senate Presentation
   const onXlsxDrop = useCallback(async (acceptedFiles: File[]) => {
@@ -29,7 +35,7 @@ export default function Home() {
 
     setXlsxFile(file);
     setXlsxError(null);
-    setXlsxWarnings([]);
+    setXlsxIssues([]);
     setWeeks([]);
     setSelectedWeek('');
     setIsParsingXlsx(true);
@@ -50,7 +56,7 @@ export default function Home() {
       }
 
       setWeeks(data.weeks);
-      setXlsxWarnings(data.warnings || []);
+      setXlsxIssues(data.issues || []);
       
       // Default to most recent week (first in array since sorted desc)
       if (data.weeks.length > 0) {
@@ -88,6 +94,9 @@ export default function Home() {
       const formData = new FormData();
       formData.append('spreadsheet', xlsxFile);
       formData.append('weekDate', selectedWeek);
+      if (slideGrouping) {
+        formData.append('groupBy', slideGrouping);
+      }
 
       const response = await fetch('/api/generate-pptx-from-xlsx', {
         method: 'POST',
@@ -131,7 +140,7 @@ export default function Home() {
     setWeeks([]);
     setSelectedWeek('');
     setXlsxError(null);
-    setXlsxWarnings([]);
+    setXlsxIssues([]);
   }, []);
 
   // Get selected week summary for display
@@ -256,23 +265,7 @@ export default function Home() {
               </div>
 
               {/* Warnings */}
-              {xlsxWarnings.length > 0 && (
-                <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4">
-                  <div className="flex items-start gap-3">
-                    <svg className="w-5 h-5 text-yellow-500 dark:text-yellow-400 mt-0.5 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                    </svg>
-                    <div>
-                      <h4 className="font-medium text-yellow-800 dark:text-yellow-300">Note</h4>
-                      <ul className="text-yellow-700 dark:text-yellow-400 text-sm mt-1 list-disc list-inside">
-                        {xlsxWarnings.map((warning, i) => (
-                          <li key={i}>{warning}</li>
-                        ))}
-                      </ul>
-                    </div>
-                  </div>
-                </div>
-              )}
+              <IssueList issues={xlsxIssues} />
 
               {/* Step 2: Week Selector */}
               <div className="bg-gray-50 dark:bg-neutral-900 rounded-lg border border-gray-200 dark:border-neutral-800 p-6">
@@ -306,6 +299,19 @@ export default function Home() {
 
               {/* Step 3: Generate Button */}
               <div className="flex flex-col items-center justify-center pt-4">
+                <label className="mb-4 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+                  <span>Group slides by</span>
+                  <select
+                    value={slideGrouping}
+                    onChange={(e) => setSlideGrouping(e.target.value as OrgGrouping | '')}
+                    disabled={isGeneratingPptx}
+                    className="px-2 py-1 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent bg-white dark:bg-neutral-800 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Nothing (meeting order)</option>
+                    <option value="category">Organization category</option>
+                    <option value="fundingTier">Funding tier</option>
+                  </select>
+                </label>
                 <button
                   onClick={handleGeneratePptx}
                   disabled={!selectedWeek || isGeneratingPptx || (selectedWeekSummary && selectedWeekSummary.approvedCount + selectedWeekSummary.deniedCount === 0)}
@@ -385,6 +391,20 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Roll Back a Week */}
+        <div className="bg-white dark:bg-neutral-900 p-1 rounded-xl shadow-sm border border-gray-200 dark:border-neutral-800">
+          <div className="p-1">
+            <RemoveWeekForm />
+          </div>
+        </div>
+
+        {/* Upgrade an Old Master */}
+        <div className="bg-white dark:bg-neutral-900 p-1 rounded-xl shadow-sm border border-gray-200 dark:border-neutral-800">
+          <div className="p-1">
+            <MigrateMasterForm />
+          </div>
+        </div>
+
         {/* Master Spreadsheet Tips */}
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-100 dark:border-blue-800 rounded-xl p-6 mt-8">
           <h3 className="text-lg font-semibold text-blue-900 dark:text-blue-300 mb-4 flex items-center gap-2">
@@ -1,18 +1,80 @@
 'use client';
 
+import { useState } from 'react';
 import type { BudgetRequest, CSVType } from '@/types/budget-request';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { AMOUNT_ISSUE_LABELS, formatCurrency } from '@/lib/currency-parser';
+import { isUrl } from '@/lib/supporting-docs';
+import { IssueList } from './issue-list';
 import { StatusBadge } from './status-badge';
 
 interface CSVPreviewProps {
   requests: BudgetRequest[];
   type: CSVType;
+  /** Validation issues to list above the table - clicking one jumps to its row */
+  issues?: ValidationIssue[];
 }
 
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(amount);
+function getRowId(submissionId: string): string {
+  return `request-${submissionId}`;
+}
+
+function SupportingDocs({ request }: { request: BudgetRequest }) {
+  const docs = [
+    { label: 'Spreadsheet', value: request.supportingLink?.trim() || '' },
+    { label: 'Upload', value: request.supportingUpload?.trim() || '' },
+  ].filter((doc) => doc.value);
+
+  if (docs.length === 0) {
+    return <span className="text-xs text-gray-400 dark:text-gray-500">None</span>;
+  }
+
+  return (
+    <div className="flex flex-col gap-0.5">
+      {docs.map((doc) =>
+        isUrl(doc.value) ? (
+          <a
+            key={doc.label}
+            href={doc.value}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs font-medium text-[#A32638] dark:text-red-400 hover:underline"
+          >
+            {doc.label}
+          </a>
+        ) : (
+          <span key={doc.label} className="text-xs text-gray-600 dark:text-gray-400 truncate max-w-[160px]" title={doc.value}>
+            {doc.value}
+          </span>
+        )
+      )}
+    </div>
+  );
+}
+
+function Amount({ request }: { request: BudgetRequest }) {
+  const info = request.amountInfo;
+  const needsReview = info && info.confidence !== 'exact' && info.issue !== 'empty';
+
+  return (
+    <div className="flex flex-col items-end gap-0.5">
+      <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
+        {formatCurrency(request.amount)}
+      </span>
+      {needsReview && info.issue && (
+        <span
+          className={`text-xs ${
+            info.confidence === 'inferred'
+              ? 'text-gray-500 dark:text-gray-400'
+              : 'text-amber-700 dark:text-amber-400'
+          }`}
+          title={AMOUNT_ISSUE_LABELS[info.issue]}
+        >
+          &ldquo;{info.raw}&rdquo; &middot; {AMOUNT_ISSUE_LABELS[info.issue]}
+        </span>
+      )}
+    </div>
+  );
 }
 
 function getTypeLabel(type: CSVType): { text: string; className: string } {
@@ -40,9 +102,19 @@ function getTypeLabel(type: CSVType): { text: string; className: string } {
   }
 }
 
-export function CSVPreview({ requests, type }: CSVPreviewProps) {
+export function CSVPreview({ requests, type, issues = [] }: CSVPreviewProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
   const typeLabel = getTypeLabel(type);
   const totalAmount = requests.reduce((sum, r) => sum + r.amount, 0);
+  const flaggedIds = new Set(
+    issues.filter((issue) => issue.severity !== 'info' && issue.submissionId).map((issue) => issue.submissionId)
+  );
+
+  const selectIssue = (issue: ValidationIssue) => {
+    if (!issue.submissionId) return;
+    setSelectedId(issue.submissionId);
+    document.getElementById(getRowId(issue.submissionId))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
   if (requests.length === 0) {
     return (
@@ -87,6 +159,13 @@ export function CSVPreview({ requests, type }: CSVPreviewProps) {
         </div>
       </div>
 
+      {/* Validation issues */}
+      {issues.length > 0 && (
+        <div className="mb-4">
+          <IssueList issues={issues} onSelectIssue={selectIssue} />
+        </div>
+      )}
+
       {/* Table */}
       <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-neutral-800 shadow-sm">
         <table className="min-w-full divide-y divide-gray-200 dark:divide-neutral-800">
@@ -122,21 +201,48 @@ export function CSVPreview({ requests, type }: CSVPreviewProps) {
               >
                 Finance Route
               </th>
+              <th
+                scope="col"
+                className="px-4 py-3 text-left text-xs font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider"
+              >
+                Docs
+              </th>
             </tr>
           </thead>
           <tbody className="bg-white dark:bg-neutral-900 divide-y divide-gray-200 dark:divide-neutral-800">
             {requests.map((request, index) => (
               <tr
                 key={request.submissionId || index}
-                className="hover:bg-gray-50 dark:hover:bg-neutral-800/50 transition-colors"
+                id={getRowId(request.submissionId)}
+                className={`transition-colors ${
+                  request.submissionId === selectedId
+                    ? 'bg-yellow-50 dark:bg-yellow-900/20'
+                    : 'hover:bg-gray-50 dark:hover:bg-neutral-800/50'
+                }`}
               >
                 <td className="px-4 py-3 whitespace-nowrap">
-                  <div className="text-sm font-medium text-gray-900 dark:text-gray-200">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-200 flex items-center gap-1.5">
+                    {flaggedIds.has(request.submissionId) && (
+                      <span className="w-1.5 h-1.5 rounded-full bg-amber-500" title="Has validation issues" />
+                    )}
                     {request.displayName || request.organizationName}
                   </div>
                   {request.displayName && request.displayName !== request.organizationName && (
                     <div className="text-xs text-gray-500 dark:text-gray-400">{request.organizationName}</div>
                   )}
+                  {(request.category || request.fundingTier) && (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {[request.category, request.fundingTier].filter(Boolean).join(' · ')}
+                    </div>
+                  )}
+                  {request.submitterNotOnRoster && (
+                    <span
+                      className="mt-0.5 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-400"
+                      title={`Submitted by ${request.submitterName || 'unknown'} (${request.submitterEmail || 'no email'}) - not the organization's president or treasurer on the officer roster`}
+                    >
+                      Submitter not on roster
+                    </span>
+                  )}
                 </td>
                 <td className="px-4 py-3 whitespace-nowrap">
                   <span
@@ -150,9 +256,7 @@ export function CSVPreview({ requests, type }: CSVPreviewProps) {
                   </span>
                 </td>
                 <td className="px-4 py-3 whitespace-nowrap text-right">
-                  <span className="text-sm font-medium text-gray-900 dark:text-gray-200">
-                    {formatCurrency(request.amount)}
-                  </span>
+                  <Amount request={request} />
                 </td>
                 <td className="px-4 py-3 whitespace-nowrap">
                   <StatusBadge status={request.approvalStatus} variant="approval" />
@@ -160,6 +264,9 @@ export function CSVPreview({ requests, type }: CSVPreviewProps) {
                 <td className="px-4 py-3 whitespace-nowrap">
                   <StatusBadge status={request.financeRoute} variant="finance" />
                 </td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <SupportingDocs request={request} />
+                </td>
               </tr>
             ))}
           </tbody>
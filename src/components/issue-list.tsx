@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import type { IssueCode, IssueSeverity, ValidationIssue } from '@/types/validation-issue';
+
+interface IssueListProps {
+  issues: ValidationIssue[];
+  /** Called when the user clicks an issue that points at a request */
+  onSelectIssue?: (issue: ValidationIssue) => void;
+}
+
+type SeverityFilter = IssueSeverity | 'all';
+
+const SEVERITY_ORDER: IssueSeverity[] = ['error', 'warning', 'info'];
+
+const severityLabels: Record<IssueSeverity, string> = {
+  error: 'Errors',
+  warning: 'Warnings',
+  info: 'Notes',
+};
+
+const severityStyles: Record<IssueSeverity, string> = {
+  error: 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400',
+  warning: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800 text-yellow-700 dark:text-yellow-400',
+  info: 'bg-gray-50 dark:bg-neutral-800/50 border-gray-200 dark:border-neutral-700 text-gray-600 dark:text-gray-400',
+};
+
+/**
+ * Turn an issue code into a heading (e.g., "amount-interpreted" → "Amount interpreted")
+ */
+function formatCode(code: IssueCode): string {
+  const text = code.replace(/-/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Group issues by code, keeping the order codes first appear in
+ */
+function groupByCode(issues: ValidationIssue[]): [IssueCode, ValidationIssue[]][] {
+  const groups = new Map<IssueCode, ValidationIssue[]>();
+  for (const issue of issues) {
+    const group = groups.get(issue.code);
+    if (group) {
+      group.push(issue);
+    } else {
+      groups.set(issue.code, [issue]);
+    }
+  }
+  return Array.from(groups.entries());
+}
+
+export function IssueList({ issues, onSelectIssue }: IssueListProps) {
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const counts = SEVERITY_ORDER.map((severity) => ({
+    severity,
+    count: issues.filter((issue) => issue.severity === severity).length,
+  })).filter(({ count }) => count > 0);
+
+  const visibleSeverities = SEVERITY_ORDER.filter(
+    (severity) => filter === 'all' || filter === severity
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Severity filter */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        {[{ severity: 'all' as const, count: issues.length }, ...counts].map(({ severity, count }) => (
+          <button
+            key={severity}
+            type="button"
+            onClick={() => setFilter(severity)}
+            className={`px-2.5 py-1 rounded-full border font-medium transition-colors ${
+              filter === severity
+                ? 'bg-[#A32638] border-[#A32638] text-white'
+                : 'bg-white dark:bg-neutral-900 border-gray-300 dark:border-neutral-700 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-neutral-800'
+            }`}
+          >
+            {severity === 'all' ? 'All' : severityLabels[severity]} ({count})
+          </button>
+        ))}
+      </div>
+
+      {visibleSeverities.map((severity) => {
+        const severityIssues = issues.filter((issue) => issue.severity === severity);
+        if (severityIssues.length === 0) {
+          return null;
+        }
+
+        return (
+          <div key={severity} className={`p-3 border rounded-md text-sm ${severityStyles[severity]}`}>
+            <h4 className="font-medium">{severityLabels[severity]}</h4>
+            {groupByCode(severityIssues).map(([code, group]) => (
+              <div key={code} className="mt-2">
+                <p className="text-xs font-semibold uppercase tracking-wide opacity-80">
+                  {formatCode(code)} ({group.length})
+                </p>
+                <ul className="mt-1 space-y-1 text-xs">
+                  {group.map((issue, i) => (
+                    <li key={i}>
+                      {onSelectIssue && issue.submissionId ? (
+                        <button
+                          type="button"
+                          onClick={() => onSelectIssue(issue)}
+                          className="text-left hover:underline"
+                          title="Show this request"
+                        >
+                          {issue.message}
+                        </button>
+                      ) : (
+                        <span>{issue.message}</span>
+                      )}
+                      {issue.policy && (
+                        <span className="block opacity-80">Policy: {issue.policy}</span>
+                      )}
+                      {issue.suggestedFix && (
+                        <span className="block opacity-80">Fix: {issue.suggestedFix}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
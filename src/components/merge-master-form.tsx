@@ -3,15 +3,69 @@
 import { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { getNextSundayISO } from '@/lib/date-utils';
+import { DEFAULT_SUBMISSION_DEADLINE } from '@/constants/submission-deadline';
+import { BUDGET_ADJUSTMENT_SOURCES } from '@/constants/budget-adjustments';
+import type { BudgetAdjustmentSource, BudgetRequest, CSVType, MergeSummary, SubmissionConflict } from '@/types/budget-request';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { CSVPreview } from './csv-preview';
+import { IssueList } from './issue-list';
+import { OrgReview } from './org-review';
+
+const WEEKDAY_OPTIONS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const DEFAULT_DEADLINE_TIME = `${String(DEFAULT_SUBMISSION_DEADLINE.hour).padStart(2, '0')}:${String(DEFAULT_SUBMISSION_DEADLINE.minute).padStart(2, '0')}`;
+
+/**
+ * A budget adjustment being entered (amount kept as typed)
+ */
+interface AdjustmentDraft {
+  date: string;
+  source: BudgetAdjustmentSource;
+  amount: string;
+  memo: string;
+}
+
+/**
+ * Requests returned with a merge or duplicate check, for jumping from an issue to its row
+ */
+interface RequestPreview {
+  requests: BudgetRequest[];
+  type: CSVType;
+}
+
+/**
+ * List issues above a table of the requests they point at, or on their own if there are no requests
+ */
+function IssuesWithPreview({ issues, preview }: { issues: ValidationIssue[]; preview: RequestPreview | null }) {
+  if (preview && preview.requests.length > 0 && issues.length > 0) {
+    return <CSVPreview requests={preview.requests} type={preview.type} issues={issues} />;
+  }
+  return <IssueList issues={issues} />;
+}
 
 export function MergeMasterForm() {
   const [masterFile, setMasterFile] = useState<File | null>(null);
-  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [semesterName, setSemesterName] = useState('');
+  const [startingBudget, setStartingBudget] = useState('');
+  const [csvFiles, setCsvFiles] = useState<File[]>([]);
+  const [rosterFile, setRosterFile] = useState<File | null>(null);
   const [meetingDate, setMeetingDate] = useState(getNextSundayISO());
+  const [fuzzyHeaders, setFuzzyHeaders] = useState(false);
+  const [numberBySubmission, setNumberBySubmission] = useState(false);
+  const [deadlineWeekday, setDeadlineWeekday] = useState(String(DEFAULT_SUBMISSION_DEADLINE.weekday));
+  const [deadlineTime, setDeadlineTime] = useState(DEFAULT_DEADLINE_TIME);
+  const [adjustments, setAdjustments] = useState<AdjustmentDraft[]>([]);
   
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<string[]>([]);
   const [success, setSuccess] = useState(false);
+  const [conflicts, setConflicts] = useState<SubmissionConflict[]>([]);
+  const [mergeSummary, setMergeSummary] = useState<MergeSummary | null>(null);
+  const [issues, setIssues] = useState<ValidationIssue[]>([]);
+  const [mergePreview, setMergePreview] = useState<RequestPreview | null>(null);
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false);
+  const [duplicateIssues, setDuplicateIssues] = useState<ValidationIssue[] | null>(null);
+  const [duplicatePreview, setDuplicatePreview] = useState<RequestPreview | null>(null);
 
   // Master file dropzone
   const onMasterDrop = useCallback((acceptedFiles: File[]) => {
@@ -19,6 +73,7 @@ export function MergeMasterForm() {
       const file = acceptedFiles[0];
       if (file.name.endsWith('.xlsx') || file.name.endsWith('.xls')) {
         setMasterFile(file);
+        setDuplicateIssues(null);
         setError(null);
       } else {
         setError('Please upload an Excel file (.xlsx)');
@@ -40,15 +95,19 @@ export function MergeMasterForm() {
     disabled: isLoading,
   });
 
-  // CSV file dropzone
+  // CSV file dropzone - several exports can be combined (e.g., approved + pending)
   const onCsvDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      const file = acceptedFiles[0];
-      if (file.name.endsWith('.csv')) {
-        setCsvFile(file);
+      const exports = acceptedFiles.filter((file) => file.name.endsWith('.csv') || file.name.endsWith('.xlsx'));
+      if (exports.length === acceptedFiles.length) {
+        setCsvFiles((current) => [
+          ...current.filter((existing) => !exports.some((file) => file.name === existing.name)),
+          ...exports,
+        ]);
+        setDuplicateIssues(null);
         setError(null);
       } else {
-        setError('Please upload a CSV file');
+        setError('Please upload CampusGroups exports (.csv or .xlsx)');
       }
     }
   }, []);
@@ -59,6 +118,33 @@ export function MergeMasterForm() {
     isDragActive: isCsvDragActive,
   } = useDropzone({
     onDrop: onCsvDrop,
+    accept: {
+      'text/csv': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    },
+    multiple: true,
+    disabled: isLoading,
+  });
+
+  // Officer roster dropzone - submitters are checked against each org's president/treasurer
+  const onRosterDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length > 0) {
+      const file = acceptedFiles[0];
+      if (file.name.endsWith('.csv')) {
+        setRosterFile(file);
+        setError(null);
+      } else {
+        setError('Please upload the officer roster as a .csv file');
+      }
+    }
+  }, []);
+
+  const {
+    getRootProps: getRosterRootProps,
+    getInputProps: getRosterInputProps,
+    isDragActive: isRosterDragActive,
+  } = useDropzone({
+    onDrop: onRosterDrop,
     accept: {
       'text/csv': ['.csv'],
     },
@@ -66,13 +152,58 @@ export function MergeMasterForm() {
     disabled: isLoading,
   });
 
+  // Compare the exports with each other and the master before merging
+  const handleCheckDuplicates = async () => {
+    setIsCheckingDuplicates(true);
+    setError(null);
+    setErrorDetails([]);
+    setDuplicateIssues(null);
+
+    try {
+      const formData = new FormData();
+      csvFiles.forEach((file) => formData.append('csv', file));
+      if (masterFile) {
+        formData.append('master', masterFile);
+      }
+
+      const response = await fetch('/api/check-duplicates', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (Array.isArray(data.errors)) {
+          setErrorDetails(data.errors);
+        }
+        throw new Error(data.error || 'Failed to check for duplicates');
+      }
+
+      setDuplicateIssues(data.issues);
+      setDuplicatePreview({ requests: data.requests ?? [], type: data.type ?? 'unknown' });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsCheckingDuplicates(false);
+    }
+  };
+
+  const updateAdjustment = (index: number, changes: Partial<AdjustmentDraft>) => {
+    setAdjustments((current) => current.map((adjustment, i) => (i === index ? { ...adjustment, ...changes } : adjustment)));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
+    setErrorDetails([]);
     setSuccess(false);
+    setConflicts([]);
+    setMergeSummary(null);
+    setIssues([]);
+    setMergePreview(null);
 
-    if (!csvFile) {
+    if (csvFiles.length === 0) {
       setError('Please upload a CSV file with pending requests');
       setIsLoading(false);
       return;
@@ -80,11 +211,28 @@ export function MergeMasterForm() {
 
     try {
       const formData = new FormData();
-      formData.append('csv', csvFile);
+      csvFiles.forEach((file) => formData.append('csv', file));
       if (masterFile) {
         formData.append('master', masterFile);
+      } else {
+        formData.append('semesterName', semesterName);
+        formData.append('startingBudget', startingBudget);
+      }
+      if (rosterFile) {
+        formData.append('roster', rosterFile);
       }
       formData.append('meetingDate', meetingDate);
+      formData.append('deadlineWeekday', deadlineWeekday);
+      formData.append('deadlineTime', deadlineTime);
+      formData.append('fuzzyHeaders', String(fuzzyHeaders));
+      formData.append('numberBySubmission', String(numberBySubmission));
+      formData.append('format', 'json');
+      if (adjustments.length > 0) {
+        formData.append('budgetAdjustments', JSON.stringify(adjustments.map((adjustment) => ({
+          ...adjustment,
+          amount: parseFloat(adjustment.amount),
+        }))));
+      }
 
       const response = await fetch('/api/merge-spreadsheet', {
         method: 'POST',
@@ -93,33 +241,43 @@ export function MergeMasterForm() {
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
+        if (Array.isArray(errorData.issues)) {
+          setIssues(errorData.issues);
+          if (Array.isArray(errorData.requests)) {
+            setMergePreview({ requests: errorData.requests, type: errorData.type ?? 'unknown' });
+          }
+        } else if (Array.isArray(errorData.errors)) {
+          setErrorDetails(errorData.errors);
+        }
         throw new Error(errorData.error || 'Failed to merge spreadsheet');
       }
 
-      // Get the filename from Content-Disposition header or use default
-      const contentDisposition = response.headers.get('Content-Disposition');
-      let filename = `SGA_Budget_Review_${meetingDate}.xlsx`;
-      if (contentDisposition) {
-        const filenameMatch = contentDisposition.match(/filename="?([^"]+)"?/);
-        if (filenameMatch) {
-          filename = filenameMatch[1];
-        }
-      }
+      const data = await response.json();
 
       // Download the file
-      const blob = await response.blob();
+      const blob = new Blob([Uint8Array.from(atob(data.file), (char) => char.charCodeAt(0))], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = filename;
+      a.download = data.filename || `SGA_Budget_Review_${meetingDate}.xlsx`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
       document.body.removeChild(a);
 
+      // Report how many requests were added and skipped as already in the master,
+      // fields that differed between copies of the same submission, and validation issues
+      setMergeSummary(data.summary ?? null);
+      setConflicts(data.conflicts ?? []);
+      setIssues(data.issues ?? []);
+      setMergePreview({ requests: data.requests ?? [], type: data.type ?? 'unknown' });
+
       setSuccess(true);
-      // Clear the CSV file after successful merge, keep master for next week
-      setCsvFile(null);
+      // Clear the CSV files after successful merge, keep master and roster for next week
+      setCsvFiles([]);
+      setDuplicateIssues(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -129,11 +287,13 @@ export function MergeMasterForm() {
 
   const clearMasterFile = () => {
     setMasterFile(null);
+    setDuplicateIssues(null);
     setSuccess(false);
   };
 
-  const clearCsvFile = () => {
-    setCsvFile(null);
+  const removeCsvFile = (name: string) => {
+    setCsvFiles((current) => current.filter((file) => file.name !== name));
+    setDuplicateIssues(null);
     setSuccess(false);
   };
 
@@ -202,33 +362,163 @@ export function MergeMasterForm() {
           )}
         </div>
 
+        {/* Title and budget for a new master */}
+        {!masterFile && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="merge-semester" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Semester Name <span className="text-gray-400 dark:text-gray-500">(new master)</span>
+              </label>
+              <input
+                id="merge-semester"
+                type="text"
+                value={semesterName}
+                onChange={(e) => setSemesterName(e.target.value)}
+                disabled={isLoading}
+                placeholder="e.g., Fall 2026"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent transition-shadow bg-white dark:bg-neutral-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="merge-budget" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Starting AFR Budget <span className="text-gray-400 dark:text-gray-500">(new master)</span>
+              </label>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <span className="text-gray-500 dark:text-gray-400 sm:text-sm">$</span>
+                </div>
+                <input
+                  id="merge-budget"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={startingBudget}
+                  onChange={(e) => setStartingBudget(e.target.value)}
+                  disabled={isLoading}
+                  placeholder="0.00"
+                  className="w-full pl-7 px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent transition-shadow bg-white dark:bg-neutral-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* CSV File Upload */}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-            Budget Requests CSV <span className="text-red-500 dark:text-red-400">*</span>
+            Budget Requests Export(s) <span className="text-red-500 dark:text-red-400">*</span>
           </label>
-          {!csvFile ? (
+          {csvFiles.length > 0 && (
+            <ul className="mb-2 space-y-2">
+              {csvFiles.map((file) => (
+                <li
+                  key={file.name}
+                  className="flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg"
+                >
+                  <div className="flex items-center gap-2">
+                    <svg className="w-5 h-5 text-green-600 dark:text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span className="text-sm text-green-800 dark:text-green-300 font-medium truncate max-w-[200px]">
+                      {file.name}
+                    </span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeCsvFile(file.name)}
+                    className="text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300 p-1"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div
+            {...getCsvRootProps()}
+            className={`
+              border-2 border-dashed rounded-lg p-4 text-center cursor-pointer
+              transition-colors duration-200
+              ${isCsvDragActive 
+                ? 'border-[#A32638] dark:border-red-500 bg-red-50 dark:bg-red-900/10' 
+                : 'border-gray-300 dark:border-neutral-700 hover:border-gray-400 dark:hover:border-neutral-600 hover:bg-gray-50 dark:hover:bg-neutral-800'
+              }
+              ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}
+            `}
+          >
+            <input {...getCsvInputProps()} />
+            <svg className="w-8 h-8 mx-auto text-gray-400 dark:text-gray-500 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+            </svg>
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {isCsvDragActive ? 'Drop the exports here' : 'Drop budget requests .csv/.xlsx or click to upload'}
+            </p>
+            <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+              {csvFiles.length > 0
+                ? 'Add more exports - duplicates are combined by submission ID'
+                : 'Includes Auto-Approved, Budget Review, and Sunday Meeting requests'}
+            </p>
+          </div>
+          {/* Info text about automatic filtering */}
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 flex items-start gap-1">
+            <svg className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
+              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
+            </svg>
+            <span>
+              Denied requests are automatically excluded. Late submissions are deferred to next week
+              and carried forward on the next merge. Pre-approved items will have status pre-filled.
+            </span>
+          </p>
+          {/* Fuzzy header matching opt-in */}
+          <label className="mt-2 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={fuzzyHeaders}
+              onChange={(e) => setFuzzyHeaders(e.target.checked)}
+              disabled={isLoading}
+              className="rounded border-gray-300 dark:border-neutral-700 text-[#A32638] focus:ring-[#A32638]"
+            />
+            <span>Accept near-matching column names if the CampusGroups form was reworded</span>
+          </label>
+          {/* Stable numbering opt-in */}
+          <label className="mt-2 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={numberBySubmission}
+              onChange={(e) => setNumberBySubmission(e.target.checked)}
+              disabled={isLoading}
+              className="rounded border-gray-300 dark:border-neutral-700 text-[#A32638] focus:ring-[#A32638]"
+            />
+            <span>Keep each submission&apos;s request number (e.g., &ldquo;SGA (#3)&rdquo;) if it is merged again</span>
+          </label>
+        </div>
+
+        {/* Officer Roster Upload */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Officer Roster <span className="text-gray-400 dark:text-gray-500">(optional)</span>
+          </label>
+          {!rosterFile ? (
             <div
-              {...getCsvRootProps()}
+              {...getRosterRootProps()}
               className={`
                 border-2 border-dashed rounded-lg p-4 text-center cursor-pointer
                 transition-colors duration-200
-                ${isCsvDragActive 
+                ${isRosterDragActive 
                   ? 'border-[#A32638] dark:border-red-500 bg-red-50 dark:bg-red-900/10' 
                   : 'border-gray-300 dark:border-neutral-700 hover:border-gray-400 dark:hover:border-neutral-600 hover:bg-gray-50 dark:hover:bg-neutral-800'
                 }
                 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}
               `}
             >
-              <input {...getCsvInputProps()} />
-              <svg className="w-8 h-8 mx-auto text-gray-400 dark:text-gray-500 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
-              </svg>
+              <input {...getRosterInputProps()} />
               <p className="text-sm text-gray-600 dark:text-gray-300">
-                {isCsvDragActive ? 'Drop the CSV file here' : 'Drop budget requests .csv or click to upload'}
+                {isRosterDragActive ? 'Drop the roster here' : 'Drop officer roster .csv or click to upload'}
               </p>
               <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                Includes Auto-Approved, Budget Review, and Sunday Meeting requests
+                Columns: organization, name, email, role - flags submitters who aren&apos;t a president or treasurer
               </p>
             </div>
           ) : (
@@ -238,12 +528,12 @@ export function MergeMasterForm() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
                 <span className="text-sm text-green-800 dark:text-green-300 font-medium truncate max-w-[200px]">
-                  {csvFile.name}
+                  {rosterFile.name}
                 </span>
               </div>
               <button
                 type="button"
-                onClick={clearCsvFile}
+                onClick={() => setRosterFile(null)}
                 className="text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300 p-1"
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -252,16 +542,6 @@ export function MergeMasterForm() {
               </button>
             </div>
           )}
-          {/* Info text about automatic filtering */}
-          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 flex items-start gap-1">
-            <svg className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
-            </svg>
-            <span>
-              Denied requests and late submissions (Finance Review) are automatically excluded. 
-              Pre-approved items will have status pre-filled.
-            </span>
-          </p>
         </div>
 
         {/* Meeting Date */}
@@ -279,13 +559,129 @@ export function MergeMasterForm() {
           />
         </div>
 
+        {/* Submission Deadline */}
+        <div>
+          <label htmlFor="merge-deadline-day" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Submission Deadline <span className="text-gray-400 dark:text-gray-500">(before the meeting)</span>
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="merge-deadline-day"
+              value={deadlineWeekday}
+              onChange={(e) => setDeadlineWeekday(e.target.value)}
+              disabled={isLoading}
+              className="flex-1 px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent transition-shadow bg-white dark:bg-neutral-800 text-gray-900 dark:text-white"
+            >
+              {WEEKDAY_OPTIONS.map((day, index) => (
+                <option key={day} value={index}>{day}</option>
+              ))}
+            </select>
+            <input
+              type="time"
+              aria-label="Submission deadline time"
+              value={deadlineTime}
+              onChange={(e) => setDeadlineTime(e.target.value)}
+              disabled={isLoading}
+              className="w-32 px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent transition-shadow bg-white dark:bg-neutral-800 text-gray-900 dark:text-white [color-scheme:light] dark:[color-scheme:dark]"
+              required
+            />
+          </div>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Pending requests submitted after this time (Eastern) are deferred to next week.
+          </p>
+        </div>
+
+        {/* Budget Adjustments */}
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+              Budget Adjustments <span className="text-gray-400 dark:text-gray-500">(optional)</span>
+            </span>
+            <button
+              type="button"
+              onClick={() => setAdjustments([...adjustments, { date: meetingDate, source: 'Rollover', amount: '', memo: '' }])}
+              disabled={isLoading}
+              className="text-xs text-[#A32638] dark:text-red-400 hover:underline"
+            >
+              + Add adjustment
+            </button>
+          </div>
+          {adjustments.map((adjustment, index) => (
+            <div key={index} className="mt-2 grid grid-cols-2 gap-2">
+              <input
+                type="date"
+                aria-label="Adjustment date"
+                value={adjustment.date}
+                onChange={(e) => updateAdjustment(index, { date: e.target.value })}
+                disabled={isLoading}
+                className="px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md text-sm bg-white dark:bg-neutral-800 text-gray-900 dark:text-white [color-scheme:light] dark:[color-scheme:dark]"
+                required
+              />
+              <select
+                aria-label="Adjustment source"
+                value={adjustment.source}
+                onChange={(e) => updateAdjustment(index, { source: e.target.value as BudgetAdjustmentSource })}
+                disabled={isLoading}
+                className="px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md text-sm bg-white dark:bg-neutral-800 text-gray-900 dark:text-white"
+              >
+                {BUDGET_ADJUSTMENT_SOURCES.map((source) => (
+                  <option key={source} value={source}>{source}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="0.01"
+                aria-label="Adjustment amount"
+                value={adjustment.amount}
+                onChange={(e) => updateAdjustment(index, { amount: e.target.value })}
+                placeholder="Amount (negative to reduce)"
+                disabled={isLoading}
+                className="px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md text-sm bg-white dark:bg-neutral-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+                required
+              />
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  aria-label="Adjustment memo"
+                  value={adjustment.memo}
+                  onChange={(e) => updateAdjustment(index, { memo: e.target.value })}
+                  placeholder="Memo"
+                  disabled={isLoading}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md text-sm bg-white dark:bg-neutral-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => setAdjustments(adjustments.filter((_, i) => i !== index))}
+                  disabled={isLoading}
+                  aria-label="Remove adjustment"
+                  className="px-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                >
+                  &times;
+                </button>
+              </div>
+            </div>
+          ))}
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Rollover, supplemental allocations, or clawbacks - listed above the first week on or after their date and included in the Remaining Budget.
+          </p>
+        </div>
+
         {/* Error Message */}
         {error && (
           <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-700 dark:text-red-400 flex items-start gap-2">
             <svg className="w-4 h-4 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
             </svg>
-            <span>{error}</span>
+            <div>
+              <span>{error}</span>
+              {errorDetails.length > 0 && (
+                <ul className="mt-1 list-disc list-inside text-xs">
+                  {errorDetails.map((detail, i) => (
+                    <li key={i}>{detail}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
           </div>
         )}
 
@@ -295,14 +691,67 @@ export function MergeMasterForm() {
             <svg className="w-4 h-4 flex-shrink-0 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
               <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
             </svg>
-            <span>Spreadsheet merged successfully! Check your downloads.</span>
+            <div>
+              <span>Spreadsheet merged successfully! Check your downloads.</span>
+              {mergeSummary && (mergeSummary.alreadyInMaster > 0 || mergeSummary.updated > 0) && (
+                <p className="mt-1">
+                  {mergeSummary.alreadyInMaster} already in master, {mergeSummary.updated} updated, {mergeSummary.added} added.
+                </p>
+              )}
+              {mergeSummary && mergeSummary.adjustmentsAdded > 0 && (
+                <p className="mt-1">
+                  {mergeSummary.adjustmentsAdded} budget adjustment{mergeSummary.adjustmentsAdded !== 1 ? 's' : ''} added.
+                </p>
+              )}
+              {mergeSummary && mergeSummary.withdrawn > 0 && (
+                <p className="mt-1 text-amber-700 dark:text-amber-400">
+                  {mergeSummary.withdrawn} marked withdrawn (no longer in the export).
+                </p>
+              )}
+              {conflicts.length > 0 && (
+                <div className="mt-2 text-amber-700 dark:text-amber-400">
+                  <p className="font-medium">
+                    {conflicts.length} field conflict(s) between duplicate submissions - the most recently updated copy was kept:
+                  </p>
+                  <ul className="mt-1 list-disc list-inside text-xs">
+                    {conflicts.map((conflict, i) => (
+                      <li key={i}>
+                        #{conflict.submissionId} ({conflict.organizationName}) {conflict.field}: kept &ldquo;{conflict.keptValue}&rdquo; from {conflict.keptFile}, discarded &ldquo;{conflict.discardedValue}&rdquo; from {conflict.discardedFile}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
           </div>
         )}
 
+        {/* Validation Issues - clicking one jumps to its request */}
+        <IssuesWithPreview issues={issues} preview={mergePreview} />
+
+        {/* Organization Name Review */}
+        <OrgReview key={csvFiles.map((file) => file.name).join('|')} csvFiles={csvFiles} disabled={isLoading} />
+
+        {/* Duplicate Check */}
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={handleCheckDuplicates}
+            disabled={isLoading || isCheckingDuplicates || csvFiles.length === 0}
+            className="w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-neutral-900 border border-gray-300 dark:border-neutral-700 rounded-md hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            {isCheckingDuplicates ? 'Checking...' : 'Check for Duplicates'}
+          </button>
+          {duplicateIssues && duplicateIssues.length === 0 && (
+            <p className="text-xs text-green-700 dark:text-green-400">No likely duplicates found.</p>
+          )}
+          {duplicateIssues && <IssuesWithPreview issues={duplicateIssues} preview={duplicatePreview} />}
+        </div>
+
         {/* Submit Button */}
         <button
           type="submit"
-          disabled={isLoading || !csvFile}
+          disabled={isLoading || csvFiles.length === 0}
           className={`
             w-full flex items-center justify-center gap-2
             px-4 py-2.5 mt-2
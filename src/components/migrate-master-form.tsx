@@ -0,0 +1,249 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import type { MasterLayout, MasterMigrationSummary } from '@/types/master-schema';
+
+/**
+ * How each layout is described to the user
+ */
+const LAYOUT_LABELS: Record<MasterLayout, string> = {
+  'current': 'the current layout',
+  'legacy-weekly': 'the old layout (column headers under every week)',
+  'review-sheet': 'a Sunday meeting review spreadsheet',
+  'unknown': 'an unrecognized layout',
+};
+
+/**
+ * Rewrite a master made in an older layout into the current one
+ */
+export function MigrateMasterForm() {
+  const [masterFile, setMasterFile] = useState<File | null>(null);
+  const [semesterName, setSemesterName] = useState('');
+  const [startingBudget, setStartingBudget] = useState('');
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [migrationSummary, setMigrationSummary] = useState<MasterMigrationSummary | null>(null);
+
+  const onMasterDrop = useCallback((acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    if (!file.name.endsWith('.xlsx')) {
+      setError('Please upload an Excel file (.xlsx)');
+      return;
+    }
+
+    setMasterFile(file);
+    setError(null);
+    setMigrationSummary(null);
+  }, []);
+
+  const {
+    getRootProps: getMasterRootProps,
+    getInputProps: getMasterInputProps,
+    isDragActive: isMasterDragActive,
+  } = useDropzone({
+    onDrop: onMasterDrop,
+    accept: {
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    },
+    multiple: false,
+    disabled: isMigrating,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!masterFile) return;
+
+    if (!semesterName.trim()) {
+      setError('Please enter a semester name');
+      return;
+    }
+
+    setIsMigrating(true);
+    setError(null);
+    setMigrationSummary(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('master', masterFile);
+      formData.append('semesterName', semesterName);
+      if (startingBudget) {
+        formData.append('startingBudget', startingBudget);
+      }
+
+      const response = await fetch('/api/migrate-master', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to migrate master');
+      }
+
+      // Download the migrated file under the master's name
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = masterFile.name;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      const summaryHeader = response.headers.get('X-SGA-Migration-Summary');
+      if (summaryHeader) {
+        try {
+          setMigrationSummary(JSON.parse(summaryHeader));
+        } catch {
+          // Ignore malformed header - the migration itself succeeded
+        }
+      }
+
+      setMasterFile(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg border border-gray-200 dark:border-neutral-800 shadow-sm h-full">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <svg className="w-5 h-5 text-[#A32638]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Upgrade an Old Master
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Rewrite a master made before semester masters (budget on row 2, column headers under every week) into the current layout. Weeks and formulas are kept.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Master File Upload */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Master Spreadsheet
+          </label>
+          {!masterFile ? (
+            <div
+              {...getMasterRootProps()}
+              className={`
+                border-2 border-dashed rounded-lg p-4 text-center cursor-pointer
+                transition-colors duration-200
+                ${isMasterDragActive
+                  ? 'border-[#A32638] dark:border-red-500 bg-red-50 dark:bg-red-900/10'
+                  : 'border-gray-300 dark:border-neutral-700 hover:border-gray-400 dark:hover:border-neutral-600 hover:bg-gray-50 dark:hover:bg-neutral-800'
+                }
+              `}
+            >
+              <input {...getMasterInputProps()} />
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {isMasterDragActive ? 'Drop the master file here' : 'Drop master .xlsx or click to upload'}
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+              <span className="text-sm text-green-800 dark:text-green-300 font-medium truncate max-w-[200px]">
+                {masterFile.name}
+              </span>
+              <button
+                type="button"
+                onClick={() => setMasterFile(null)}
+                disabled={isMigrating}
+                className="text-xs text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300"
+              >
+                Change
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {/* Semester Name */}
+          <div>
+            <label htmlFor="migrateSemester" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Semester Name
+            </label>
+            <input
+              id="migrateSemester"
+              type="text"
+              value={semesterName}
+              onChange={(e) => setSemesterName(e.target.value)}
+              placeholder="e.g., Spring 2026"
+              className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent transition-shadow bg-white dark:bg-neutral-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+              required
+            />
+          </div>
+
+          {/* Starting Budget */}
+          <div>
+            <label htmlFor="migrateBudget" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Starting AFR Budget <span className="text-gray-400 font-normal">(optional)</span>
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <span className="text-gray-500 dark:text-gray-400 sm:text-sm">$</span>
+              </div>
+              <input
+                id="migrateBudget"
+                type="number"
+                min="0"
+                step="0.01"
+                value={startingBudget}
+                onChange={(e) => setStartingBudget(e.target.value)}
+                placeholder="From the master"
+                className="w-full pl-7 px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent transition-shadow bg-white dark:bg-neutral-800 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Success Message */}
+        {migrationSummary && (
+          <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md text-sm text-green-700 dark:text-green-400">
+            <span>
+              {migrationSummary.fromLayout === 'current'
+                ? 'The master was already in the current layout - it has been stamped with the schema version.'
+                : `Migrated from ${LAYOUT_LABELS[migrationSummary.fromLayout]}. Check your downloads.`}
+            </span>
+            {migrationSummary.fromLayout !== 'current' && (
+              <p className="mt-1">
+                {migrationSummary.headerRowsRemoved} repeated header row{migrationSummary.headerRowsRemoved !== 1 ? 's' : ''} removed
+                {migrationSummary.renamedSheets.length > 0 && `; renamed ${migrationSummary.renamedSheets.join(', ')}`}.
+              </p>
+            )}
+            {migrationSummary.renumberedRows > 0 && (
+              <p className="mt-1">
+                {migrationSummary.renumberedRows} request number{migrationSummary.renumberedRows !== 1 ? 's' : ''} rewritten
+                from &ldquo;SGA 1&rdquo; to &ldquo;SGA (#1)&rdquo;.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!masterFile || isMigrating}
+          className="w-full px-4 py-2.5 text-sm font-medium text-white bg-[#A32638] rounded-md hover:bg-[#8a1f2f] active:bg-[#721a27] transition-all duration-200 shadow-sm disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          {isMigrating ? 'Migrating...' : 'Migrate & Download'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import type { OrgNameReview } from '@/types/org-registry';
+
+interface OrgReviewProps {
+  /** Exports whose organization names are reviewed */
+  csvFiles: File[];
+  disabled?: boolean;
+}
+
+const NEW_ORGANIZATION = '__new__';
+
+function formatPercent(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
+
+/**
+ * Describe how a name was matched (e.g., "Matched to SGA (acronym)")
+ */
+function describeMatch(review: OrgNameReview): string {
+  switch (review.matchType) {
+    case 'acronym':
+      return `Matched to ${review.canonicalName} (acronym)`;
+    case 'fuzzy':
+      return `Matched to ${review.canonicalName} (${formatPercent(review.score)} similar)`;
+    default:
+      return review.suggestions.length > 0
+        ? `Not in registry - closest is ${review.suggestions[0].canonicalName} (${formatPercent(review.suggestions[0].score)})`
+        : 'Not in registry';
+  }
+}
+
+/**
+ * Review organization names the registry couldn't match exactly and save them as aliases
+ */
+export function OrgReview({ csvFiles, disabled = false }: OrgReviewProps) {
+  const [isChecking, setIsChecking] = useState(false);
+  const [reviews, setReviews] = useState<OrgNameReview[] | null>(null);
+  const [organizations, setOrganizations] = useState<string[]>([]);
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [savingName, setSavingName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReview = async () => {
+    setIsChecking(true);
+    setError(null);
+    setReviews(null);
+
+    try {
+      const formData = new FormData();
+      csvFiles.forEach((file) => formData.append('csv', file));
+
+      const response = await fetch('/api/review-orgs', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to review organization names');
+      }
+
+      const names: OrgNameReview[] = data.names;
+      setReviews(names);
+      setOrganizations(data.organizations);
+      setSelections(Object.fromEntries(
+        names.map((review) => [review.name, review.canonicalName ?? review.suggestions[0]?.canonicalName ?? ''])
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleSave = async (review: OrgNameReview) => {
+    const selection = selections[review.name];
+    const canonicalName = selection === NEW_ORGANIZATION ? review.name : selection;
+    if (!canonicalName) return;
+
+    setSavingName(review.name);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/org-registry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: review.name, canonicalName }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save alias');
+      }
+
+      setReviews((current) => current?.filter((r) => r.name !== review.name) ?? null);
+      setOrganizations((current) =>
+        current.includes(canonicalName) ? current : [...current, canonicalName].sort((a, b) => a.localeCompare(b))
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setSavingName(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <button
+        type="button"
+        onClick={handleReview}
+        disabled={disabled || isChecking || csvFiles.length === 0}
+        className="w-full px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-neutral-900 border border-gray-300 dark:border-neutral-700 rounded-md hover:bg-gray-50 dark:hover:bg-neutral-800 transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
+      >
+        {isChecking ? 'Reviewing...' : 'Review Organization Names'}
+      </button>
+
+      {error && (
+        <p className="text-xs text-red-700 dark:text-red-400">{error}</p>
+      )}
+
+      {reviews && reviews.length === 0 && (
+        <p className="text-xs text-green-700 dark:text-green-400">All organization names are in the registry.</p>
+      )}
+
+      {reviews && reviews.length > 0 && (
+        <ul className="space-y-2">
+          {reviews.map((review) => (
+            <li
+              key={review.name}
+              className={`p-3 border rounded-md text-sm ${
+                review.matchType === 'unmatched'
+                  ? 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-200 dark:border-yellow-800'
+                  : 'bg-gray-50 dark:bg-neutral-800/50 border-gray-200 dark:border-neutral-700'
+              }`}
+            >
+              <div className="flex items-baseline justify-between gap-2">
+                <span className="font-medium text-gray-900 dark:text-gray-200">&ldquo;{review.name}&rdquo;</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  {review.count} request{review.count !== 1 ? 's' : ''}
+                </span>
+              </div>
+              <p className="mt-0.5 text-xs text-gray-600 dark:text-gray-400">{describeMatch(review)}</p>
+              <div className="mt-2 flex gap-2">
+                <select
+                  aria-label={`Organization for ${review.name}`}
+                  value={selections[review.name] ?? ''}
+                  onChange={(e) => setSelections((current) => ({ ...current, [review.name]: e.target.value }))}
+                  disabled={savingName !== null}
+                  className="flex-1 px-2 py-1.5 text-xs border border-gray-300 dark:border-neutral-700 rounded-md bg-white dark:bg-neutral-800 text-gray-900 dark:text-white"
+                >
+                  <option value="">Choose an organization...</option>
+                  {organizations.map((org) => (
+                    <option key={org} value={org}>{org}</option>
+                  ))}
+                  <option value={NEW_ORGANIZATION}>New organization: {review.name}</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => handleSave(review)}
+                  disabled={!selections[review.name] || savingName !== null}
+                  className="px-3 py-1.5 text-xs font-medium text-white bg-[#A32638] rounded-md hover:bg-[#8a1f2f] disabled:opacity-70 disabled:cursor-not-allowed"
+                >
+                  {savingName === review.name ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useDropzone } from 'react-dropzone';
+import type { WeekRemovalSummary } from '@/types/budget-request';
+import type { WeekSummary } from '@/types/presentation-request';
+
+/**
+ * Remove a whole week from the master spreadsheet, e.g., to roll back a bad merge
+ */
+export function RemoveWeekForm() {
+  const [masterFile, setMasterFile] = useState<File | null>(null);
+  const [weeks, setWeeks] = useState<WeekSummary[]>([]);
+  const [selectedWeek, setSelectedWeek] = useState('');
+  const [isLoadingWeeks, setIsLoadingWeeks] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [removalSummary, setRemovalSummary] = useState<WeekRemovalSummary | null>(null);
+
+  const onMasterDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const file = acceptedFiles[0];
+    if (!file.name.endsWith('.xlsx')) {
+      setError('Please upload an Excel file (.xlsx)');
+      return;
+    }
+
+    setMasterFile(file);
+    setWeeks([]);
+    setSelectedWeek('');
+    setError(null);
+    setRemovalSummary(null);
+    setIsLoadingWeeks(true);
+
+    try {
+      const formData = new FormData();
+      formData.append('spreadsheet', file);
+
+      const response = await fetch('/api/parse-spreadsheet', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to read the master spreadsheet');
+      }
+
+      setWeeks(data.weeks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setMasterFile(null);
+    } finally {
+      setIsLoadingWeeks(false);
+    }
+  }, []);
+
+  const {
+    getRootProps: getMasterRootProps,
+    getInputProps: getMasterInputProps,
+    isDragActive: isMasterDragActive,
+  } = useDropzone({
+    onDrop: onMasterDrop,
+    accept: {
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    },
+    multiple: false,
+    disabled: isLoadingWeeks || isRemoving,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!masterFile || !selectedWeek) return;
+
+    setIsRemoving(true);
+    setError(null);
+    setRemovalSummary(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('master', masterFile);
+      formData.append('weekDate', selectedWeek);
+
+      const response = await fetch('/api/remove-week', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to remove week');
+      }
+
+      // Download the repaired file under the master's name
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = masterFile.name;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      const summaryHeader = response.headers.get('X-SGA-Removal-Summary');
+      if (summaryHeader) {
+        try {
+          setRemovalSummary(JSON.parse(summaryHeader));
+        } catch {
+          // Ignore malformed header - the removal itself succeeded
+        }
+      }
+
+      // The uploaded master still has the week - upload the repaired copy to remove another
+      setMasterFile(null);
+      setWeeks([]);
+      setSelectedWeek('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+    } finally {
+      setIsRemoving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-neutral-900 p-6 rounded-lg border border-gray-200 dark:border-neutral-800 shadow-sm h-full">
+      <div className="mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <svg className="w-5 h-5 text-[#A32638]" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+          </svg>
+          Roll Back a Week
+        </h2>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          Remove a week&apos;s section from the master, e.g., after a bad merge. The Remaining Budget formulas are repaired.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Master File Upload */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Master Spreadsheet
+          </label>
+          {!masterFile ? (
+            <div
+              {...getMasterRootProps()}
+              className={`
+                border-2 border-dashed rounded-lg p-4 text-center cursor-pointer
+                transition-colors duration-200
+                ${isMasterDragActive
+                  ? 'border-[#A32638] dark:border-red-500 bg-red-50 dark:bg-red-900/10'
+                  : 'border-gray-300 dark:border-neutral-700 hover:border-gray-400 dark:hover:border-neutral-600 hover:bg-gray-50 dark:hover:bg-neutral-800'
+                }
+              `}
+            >
+              <input {...getMasterInputProps()} />
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {isMasterDragActive ? 'Drop the master file here' : 'Drop master .xlsx or click to upload'}
+              </p>
+            </div>
+          ) : (
+            <div className="flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+              <span className="text-sm text-green-800 dark:text-green-300 font-medium truncate max-w-[200px]">
+                {masterFile.name}
+              </span>
+              <button
+                type="button"
+                onClick={() => {
+                  setMasterFile(null);
+                  setWeeks([]);
+                  setSelectedWeek('');
+                }}
+                disabled={isRemoving}
+                className="text-xs text-green-600 dark:text-green-400 hover:text-green-800 dark:hover:text-green-300"
+              >
+                Change
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Week to remove */}
+        {masterFile && (
+          <div>
+            <label htmlFor="removeWeek" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Week to Remove
+            </label>
+            <select
+              id="removeWeek"
+              value={selectedWeek}
+              onChange={(e) => setSelectedWeek(e.target.value)}
+              disabled={isLoadingWeeks || isRemoving}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-neutral-700 rounded-md focus:outline-none focus:ring-2 focus:ring-[#A32638] focus:border-transparent bg-white dark:bg-neutral-800 text-gray-900 dark:text-white"
+            >
+              <option value="">{isLoadingWeeks ? 'Reading weeks...' : 'Choose a week...'}</option>
+              {weeks.map((week) => (
+                <option key={week.dateISO} value={week.dateISO}>
+                  Week of {week.date} ({week.afrCount} AFR, {week.reallocationCount} reallocation)
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Your uploaded file isn&apos;t changed - a copy without the week is downloaded.
+            </p>
+          </div>
+        )}
+
+        {/* Error Message */}
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md text-sm text-red-700 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        {/* Success Message */}
+        {removalSummary && (
+          <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md text-sm text-green-700 dark:text-green-400">
+            <span>Removed {removalSummary.week}. Check your downloads.</span>
+            <p className="mt-1">
+              {removalSummary.afrRequests} AFR and {removalSummary.reallocationRequests} reallocation request{removalSummary.afrRequests + removalSummary.reallocationRequests !== 1 ? 's' : ''} removed
+              {removalSummary.repointedFormulas > 0 && "; the next week's Remaining Budget now follows the week before"}.
+            </p>
+          </div>
+        )}
+
+        {/* Submit Button */}
+        <button
+          type="submit"
+          disabled={!masterFile || !selectedWeek || isRemoving}
+          className="w-full px-4 py-2.5 text-sm font-medium text-white bg-[#A32638] rounded-md hover:bg-[#8a1f2f] active:bg-[#721a27] transition-all duration-200 shadow-sm disabled:opacity-70 disabled:cursor-not-allowed"
+        >
+          {isRemoving ? 'Removing...' : 'Remove Week & Download'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
-import type { WeekSummary } from '@/types/presentation-request';
+import type { GroupSummary, WeekSummary } from '@/types/presentation-request';
+import { formatCurrency } from '@/lib/currency-parser';
 
 interface WeekSelectorProps {
   weeks: WeekSummary[];
@@ -94,6 +95,27 @@ export function WeekSelector({
   );
 }
 
+/**
+ * Lists requests and approved dollars per category or funding tier
+ */
+function GroupBreakdown({ groups }: { groups: GroupSummary[] }) {
+  if (groups.length === 0) return null;
+
+  return (
+    <ul className="mt-3 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+      {groups.map((group) => (
+        <li key={group.name} className="flex justify-between gap-4">
+          <span>
+            <span className="font-medium text-gray-700 dark:text-gray-300">{group.name}</span>
+            {' '}({group.requestCount} request{group.requestCount !== 1 ? 's' : ''})
+          </span>
+          <span>{formatCurrency(group.approvedAmount)} approved</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 /**
  * Displays detailed information about the selected week
  */
@@ -150,6 +172,27 @@ function WeekDetails({ week }: { week?: WeekSummary }) {
         </span>
       </div>
       
+      {/* Category and funding tier breakdowns */}
+      <GroupBreakdown groups={week.categories} />
+      <GroupBreakdown groups={week.fundingTiers} />
+
+      {/* Budget adjustments made before this week */}
+      {week.budgetAdjustments.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-gray-500 dark:text-gray-400">
+          {week.budgetAdjustments.map((adjustment, index) => (
+            <li key={index} className="flex justify-between gap-4">
+              <span>
+                <span className="font-medium text-gray-700 dark:text-gray-300">{adjustment.source}</span>
+                {adjustment.memo && ` - ${adjustment.memo}`}
+              </span>
+              <span className={adjustment.amount < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                {adjustment.amount > 0 ? '+' : ''}{formatCurrency(adjustment.amount)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Warning for items without status */}
       {(week.requestCount - week.approvedCount - week.deniedCount) > 0 && (
         <div className="mt-3 p-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-xs text-yellow-700 dark:text-yellow-400 flex items-start gap-2">
@@ -0,0 +1,15 @@
+/**
+ * University account number format
+ */
+
+/**
+ * KFS account numbers are seven digits (e.g., "1200927")
+ * Spaces and dashes are ignored when checking the format.
+ */
+export const ACCOUNT_NUMBER_PATTERN = /^\d{7}$/;
+
+/**
+ * Most accounts one organization is expected to use
+ * Organizations with more (e.g., three different accounts) are flagged for review.
+ */
+export const MAX_ACCOUNTS_PER_ORG = 2;
@@ -0,0 +1,10 @@
+/**
+ * Sources of mid-semester budget adjustments
+ */
+
+import type { BudgetAdjustmentSource } from '@/types/budget-request';
+
+/**
+ * Every adjustment source, in the order they are offered
+ */
+export const BUDGET_ADJUSTMENT_SOURCES: BudgetAdjustmentSource[] = ['Rollover', 'Supplemental Allocation', 'Clawback'];
@@ -0,0 +1,90 @@
+/**
+ * CampusGroups column-mapping profiles
+ *
+ * Each profile maps the parser's internal column keys to the header text of one
+ * version of the budget request form. The parser picks the profile that matches
+ * the most headers in an uploaded CSV, so add a new profile here whenever the
+ * finance chair rewords a form question.
+ */
+
+import type { ColumnProfile, CSVColumnKey } from '@/types/column-profile';
+
+/**
+ * Spring 2026 form - exact question text from the CampusGroups export
+ * Also used as the reference text when suggesting close header matches.
+ */
+export const SPRING_2026_COLUMNS = {
+  submissionId: 'Submission Id',
+  organizationName: 'Please enter the name of the organization this request is for:',
+  requestType: 'What type of request is this?',
+  afrAmount: 'Total Cost of AFR:',
+  reallocationAmount: 'Total Amount to Reallocate:',
+  approvalStatus: 'Approval Status',
+  approvalMessage: 'Approval Message',
+  // Note: There are two "Finance Review" columns - one for AFR, one for Reallocation
+  // Papa Parse will rename duplicates, so we check both
+  financeReviewAFR: 'Finance Review',
+  financeReviewReallocation: 'Finance Review_1', // Papa Parse auto-renames duplicates
+  afrDescription: 'Please explain the details of the Additional Funding Request. Be sure to include what each budget line item is used for and the items being purchases. Be sure to include the specific amount(s) you would like to request. Be as specific as possible to improve approval odds.',
+  reallocationDescription: 'Please explain the details of the reallocation request. Be sure to include what budget line item you want the money to come from and go to. Be sure to include the specific amount(s) you would like to reallocate. Be as specific as possible to improve approval odds.',
+  accountNumber: 'Please list the account number you would like any additional approved funds to be deposited into:',
+  afrSpreadsheetLink: 'Provide a link to your spreadsheet:',
+  afrSpreadsheetUpload: 'OR Provide an upload of your spreadsheet:',
+  reallocationSpreadsheetLink: '[Optional] If you would like to include a link to a shared spreadsheet please do so here. Ensure that the sharing settings allow anyone with the link to view.',
+  reallocationSpreadsheetUpload: '[Optional] If you would like to upload a supporting document or spreadsheet please do so here',
+  startedOn: 'Started On',
+  submittedOn: 'Submitted On',
+  lastUpdatedOn: 'Last Updated On',
+  approvalStatusUpdatedOn: 'Approval Status Last Updated On',
+  firstName: 'First Name',
+  lastName: 'Last Name',
+  email: 'Email',
+} satisfies Record<CSVColumnKey, string>;
+
+export const SPRING_2026_PROFILE: ColumnProfile = {
+  id: 'spring-2026',
+  name: 'Spring 2026 form',
+  columns: SPRING_2026_COLUMNS,
+};
+
+/**
+ * Keyword-based profile for reworded forms
+ * Matches on the stable part of each question so minor edits still parse
+ */
+export const KEYWORD_PROFILE: ColumnProfile = {
+  id: 'campusgroups-keywords',
+  name: 'CampusGroups form (keyword match)',
+  columns: {
+    submissionId: /^submission\s*id$/i,
+    organizationName: /name of (the|your) (organization|org|club)/i,
+    requestType: /type of request/i,
+    afrAmount: /total (cost|amount) of (the )?AFR/i,
+    reallocationAmount: /total amount to re-?allocate/i,
+    approvalStatus: /^approval\s+status$/i,
+    approvalMessage: /^approval\s+message$/i,
+    financeReviewAFR: /^finance review$/i,
+    financeReviewReallocation: /^finance review_1$/i,
+    afrDescription: /details of the additional funding request/i,
+    reallocationDescription: /details of the re-?allocation request/i,
+    accountNumber: /account number/i,
+    afrSpreadsheetLink: /link to your spreadsheet/i,
+    afrSpreadsheetUpload: /upload of your spreadsheet/i,
+    reallocationSpreadsheetLink: /link to a shared spreadsheet/i,
+    reallocationSpreadsheetUpload: /upload a supporting document/i,
+    startedOn: /^started\s+on$/i,
+    submittedOn: /^submitted\s+on$/i,
+    lastUpdatedOn: /^last\s+updated\s+on$/i,
+    approvalStatusUpdatedOn: /^approval\s+status\s+last\s+updated\s+on$/i,
+    firstName: /^first\s+name$/i,
+    lastName: /^last\s+name$/i,
+    email: /^e-?mail$/i,
+  },
+};
+
+/**
+ * All known profiles, in order of preference when two profiles match equally well
+ */
+export const COLUMN_PROFILES: ColumnProfile[] = [
+  SPRING_2026_PROFILE,
+  KEYWORD_PROFILE,
+];
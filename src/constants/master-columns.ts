@@ -0,0 +1,47 @@
+/**
+ * Columns shared by the master and review spreadsheets
+ *
+ * The submission lifecycle columns follow Supporting Docs on both master sheets,
+ * with Category and the hidden Submission Id and Export Description after them. Column numbers past the
+ * lifecycle columns are derived here so adding a lifecycle column moves them all.
+ */
+
+/**
+ * Submission lifecycle columns appended to both sheets
+ * Lets reviewers spot requests edited after the agenda was set
+ */
+export const LIFECYCLE_COLUMNS = [
+  { header: 'Submitted On', key: 'submittedOn', width: 18 },
+  { header: 'Last Updated On', key: 'lastUpdatedOn', width: 18 },
+  { header: 'Edited After Submission', key: 'editedAfterSubmission', width: 12 },
+  { header: 'Turnaround (hrs)', key: 'turnaroundHours', width: 12 },
+  { header: 'Approval Message', key: 'approvalMessage', width: 30 },
+] as const;
+
+export type LifecycleColumnKey = (typeof LIFECYCLE_COLUMNS)[number]['key'];
+
+/**
+ * Get the column of a lifecycle field (1-indexed)
+ *
+ * @param startColumn - First lifecycle column on the sheet
+ * @param key - Lifecycle field
+ */
+export function getLifecycleColumn(startColumn: number, key: LifecycleColumnKey): number {
+  return startColumn + LIFECYCLE_COLUMNS.findIndex((column) => column.key === key);
+}
+
+/**
+ * AFR master sheet (1-indexed): lifecycle from N, then Category, Submission Id and Export Description
+ */
+export const AFR_LIFECYCLE_COLUMN = 14; // N - after M: Supporting Docs
+export const AFR_CATEGORY_COLUMN = AFR_LIFECYCLE_COLUMN + LIFECYCLE_COLUMNS.length; // S
+export const AFR_SUBMISSION_ID_COLUMN = AFR_CATEGORY_COLUMN + 1; // T
+export const AFR_DESCRIPTION_COLUMN = AFR_SUBMISSION_ID_COLUMN + 1; // U
+
+/**
+ * Reallocation master sheet (1-indexed): lifecycle from I, then Category, Submission Id and Export Description
+ */
+export const REALLOCATION_LIFECYCLE_COLUMN = 9; // I - after H: Supporting Docs
+export const REALLOCATION_CATEGORY_COLUMN = REALLOCATION_LIFECYCLE_COLUMN + LIFECYCLE_COLUMNS.length; // N
+export const REALLOCATION_SUBMISSION_ID_COLUMN = REALLOCATION_CATEGORY_COLUMN + 1; // O
+export const REALLOCATION_DESCRIPTION_COLUMN = REALLOCATION_SUBMISSION_ID_COLUMN + 1; // P
@@ -0,0 +1,24 @@
+/**
+ * Officer roster settings
+ */
+
+/**
+ * Officer roles allowed to submit funding requests for their organization
+ * Compared case-insensitively with the roster's role column.
+ */
+export const AUTHORIZED_SUBMITTER_ROLES = ['President', 'Treasurer'];
+
+/**
+ * Accepted header names for each roster column (case-insensitive)
+ */
+export const ROSTER_COLUMNS = {
+  organizationName: ['Organization', 'Org', 'Organization Name', 'Club'],
+  name: ['Name', 'Officer', 'Officer Name', 'Full Name'],
+  email: ['Email', 'Email Address', 'E-mail'],
+  role: ['Role', 'Position', 'Title', 'Officer Role'],
+} as const;
+
+/**
+ * Marker added to the Notes column for requests from unauthorized submitters
+ */
+export const SUBMITTER_NOT_ON_ROSTER_NOTE = 'Submitter not on roster';
@@ -0,0 +1,20 @@
+/**
+ * Organization categories used for finance reports
+ */
+
+import type { OrgCategory } from '@/types/org-registry';
+
+/**
+ * Categories in report order
+ */
+export const ORG_CATEGORIES: OrgCategory[] = ['Club Sports', 'Cultural', 'Academic', 'Greek Life', 'Media'];
+
+/**
+ * Label for organizations without a category in the registry
+ */
+export const UNCATEGORIZED = 'Uncategorized';
+
+/**
+ * Label for organizations without a funding tier in the registry
+ */
+export const NO_FUNDING_TIER = 'No Tier';
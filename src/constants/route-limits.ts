@@ -0,0 +1,14 @@
+/**
+ * Default dollar limits for finance routes
+ */
+
+import type { RouteLimits } from '@/types/budget-request';
+
+/**
+ * Used when the semester's finance policy doesn't set route limits
+ * Requests tagged with a route but asking for more are sent to the Senate instead.
+ */
+export const DEFAULT_ROUTE_LIMITS: RouteLimits = {
+  'Auto-Approve': 500,
+  'Budget Review': 2000,
+};
@@ -0,0 +1,15 @@
+/**
+ * Default submission deadline for Sunday Senate meetings
+ */
+
+import type { SubmissionDeadline } from '@/types/budget-request';
+
+/**
+ * Thursday 11:59 PM before the meeting
+ * Requests submitted later are deferred to the following week's agenda.
+ */
+export const DEFAULT_SUBMISSION_DEADLINE: SubmissionDeadline = {
+  weekday: 4,
+  hour: 23,
+  minute: 59,
+};
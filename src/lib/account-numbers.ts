@@ -0,0 +1,28 @@
+/**
+ * Account number helpers
+ */
+
+import { ACCOUNT_NUMBER_PATTERN } from '@/constants/account-numbers';
+
+/**
+ * Remove spaces and dashes from an account number
+ * Example: "120-0927" → "1200927"
+ */
+export function normalizeAccountNumber(accountNumber: string): string {
+  return (accountNumber || '').replace(/[\s-]/g, '');
+}
+
+/**
+ * Check whether an account number is blank or a placeholder ("#")
+ */
+export function isMissingAccountNumber(accountNumber: string): boolean {
+  const normalized = normalizeAccountNumber(accountNumber);
+  return normalized === '' || normalized === '#';
+}
+
+/**
+ * Check whether an account number matches the university's format
+ */
+export function isValidAccountNumber(accountNumber: string): boolean {
+  return ACCOUNT_NUMBER_PATTERN.test(normalizeAccountNumber(accountNumber));
+}
@@ -0,0 +1,236 @@
+/**
+ * Organization account registry
+ *
+ * Remembers which accounts each organization has used in past master
+ * spreadsheets. Uploaded requests are checked against it: an account that
+ * belongs to a different organization or an organization using too many
+ * accounts is flagged, and a missing account is filled in from the
+ * organization's usual account. The registry is stored in the data directory
+ * as account-registry.json.
+ */
+
+import type { BudgetRequest } from '@/types/budget-request';
+import type { AccountRegistry, AccountRegistryEntry } from '@/types/account-registry';
+import type { ParsedWeek } from '@/types/presentation-request';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { MAX_ACCOUNTS_PER_ORG } from '@/constants/account-numbers';
+import { isMissingAccountNumber, isValidAccountNumber, normalizeAccountNumber } from './account-numbers';
+import { readDataFile, writeDataFile } from './data-store';
+import { isRecord } from './json-values';
+import { groupByOrganization, normalizeOrgName } from './org-numbering';
+import { createIssue, createRequestIssue } from './validation-issues';
+
+const REGISTRY_FILE = 'account-registry.json';
+
+/**
+ * Create an empty registry
+ */
+export function createAccountRegistry(): AccountRegistry {
+  return { updatedAt: new Date().toISOString(), entries: [] };
+}
+
+/**
+ * Validate a registry file's contents
+ *
+ * @param data - Parsed JSON from the registry file
+ * @param source - Name used in error messages
+ * @returns The validated registry
+ * @throws Error describing the first problem found
+ */
+export function parseAccountRegistry(data: unknown, source: string = REGISTRY_FILE): AccountRegistry {
+  if (!isRecord(data) || typeof data.updatedAt !== 'string' || !Array.isArray(data.entries)) {
+    throw new Error(`${source}: Registry needs "updatedAt" and an "entries" list`);
+  }
+
+  const entries = data.entries.map((entry, i): AccountRegistryEntry => {
+    if (
+      !isRecord(entry) ||
+      typeof entry.organizationName !== 'string' ||
+      typeof entry.accountNumber !== 'string' ||
+      !Array.isArray(entry.weeks) ||
+      !entry.weeks.every((week) => typeof week === 'string')
+    ) {
+      throw new Error(`${source}: Entry ${i + 1} needs "organizationName", "accountNumber", and "weeks"`);
+    }
+    return {
+      organizationName: entry.organizationName,
+      accountNumber: entry.accountNumber,
+      weeks: entry.weeks as string[],
+    };
+  });
+
+  return { updatedAt: data.updatedAt, entries };
+}
+
+/**
+ * Load the saved registry (empty if none has been saved yet)
+ */
+export async function loadAccountRegistry(): Promise<AccountRegistry> {
+  const data = await readDataFile(REGISTRY_FILE);
+  return data === null ? createAccountRegistry() : parseAccountRegistry(data);
+}
+
+/**
+ * Save the registry to the data directory
+ */
+export async function saveAccountRegistry(registry: AccountRegistry): Promise<void> {
+  await writeDataFile(REGISTRY_FILE, registry);
+}
+
+/**
+ * Record the accounts used in a master spreadsheet's weeks
+ * Rows without a validly formatted account are skipped. Learning the same
+ * master twice changes nothing.
+ *
+ * @param registry - Registry to add to (not modified)
+ * @param weeks - Weeks from parseWeeklySpreadsheet
+ * @returns The updated registry and how many organization/account pairs were new
+ */
+export function learnAccountsFromWeeks(
+  registry: AccountRegistry,
+  weeks: ParsedWeek[]
+): { registry: AccountRegistry; added: number } {
+  const entries = registry.entries.map((entry) => ({ ...entry, weeks: [...entry.weeks] }));
+  let added = 0;
+  let changed = false;
+
+  for (const week of weeks) {
+    for (const row of [...week.afrRequests, ...week.reallocationRequests]) {
+      if (!isValidAccountNumber(row.accountNumber)) continue;
+
+      const { organizationName } = row;
+      const orgKey = normalizeOrgName(organizationName);
+      const accountNumber = normalizeAccountNumber(row.accountNumber);
+
+      const entry = entries.find(
+        (e) => e.accountNumber === accountNumber && normalizeOrgName(e.organizationName) === orgKey
+      );
+      if (!entry) {
+        entries.push({ organizationName, accountNumber, weeks: [week.dateISO] });
+        added++;
+        changed = true;
+      } else if (!entry.weeks.includes(week.dateISO)) {
+        entry.weeks.push(week.dateISO);
+        entry.organizationName = organizationName;
+        changed = true;
+      }
+    }
+  }
+
+  return {
+    registry: {
+      updatedAt: changed ? new Date().toISOString() : registry.updatedAt,
+      entries,
+    },
+    added,
+  };
+}
+
+/**
+ * Get the accounts an organization has used, most used (then most recent) first
+ */
+export function getOrgAccounts(registry: AccountRegistry, organizationName: string): AccountRegistryEntry[] {
+  const orgKey = normalizeOrgName(organizationName);
+  const latestWeek = (entry: AccountRegistryEntry) => [...entry.weeks].sort().pop() ?? '';
+
+  return registry.entries
+    .filter((entry) => normalizeOrgName(entry.organizationName) === orgKey)
+    .sort((a, b) => b.weeks.length - a.weeks.length || latestWeek(b).localeCompare(latestWeek(a)));
+}
+
+/**
+ * Get the organizations that have used an account
+ */
+export function getAccountOwners(registry: AccountRegistry, accountNumber: string): AccountRegistryEntry[] {
+  const normalized = normalizeAccountNumber(accountNumber);
+  return registry.entries.filter((entry) => entry.accountNumber === normalized);
+}
+
+/**
+ * Check uploaded requests against the registry and fill in missing accounts
+ *
+ * - A missing account is filled with the organization's usual account (accountAutoFilled is set)
+ * - An account the registry lists only under other organizations is flagged
+ * - An organization using more than MAX_ACCOUNTS_PER_ORG accounts (past and uploaded) is flagged
+ *
+ * Accounts that don't match the university format are left to the validator, and
+ * denied requests are returned unchanged.
+ *
+ * @param requests - Uploaded requests
+ * @param registry - Accounts learned from past masters
+ * @returns New request objects (originals are not modified) and the issues found
+ */
+export function applyAccountRegistry(
+  requests: BudgetRequest[],
+  registry: AccountRegistry
+): { requests: BudgetRequest[]; issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+
+  const checked = requests.map((request): BudgetRequest => {
+    if (request.approvalStatus === 'Denied') {
+      return request;
+    }
+
+    const label = `#${request.submissionId} (${request.organizationName})`;
+
+    if (isMissingAccountNumber(request.accountNumber)) {
+      const [usual] = getOrgAccounts(registry, request.organizationName);
+      if (!usual) {
+        return request;
+      }
+      issues.push(createRequestIssue(
+        'account-auto-filled',
+        'info',
+        `${label}: Account number auto-filled from the registry (${usual.accountNumber}).`,
+        request,
+        { field: 'accountNumber', suggestedFix: 'Confirm the account with the organization before entering in KFS.' }
+      ));
+      return { ...request, accountNumber: usual.accountNumber, accountAutoFilled: true };
+    }
+
+    if (!isValidAccountNumber(request.accountNumber)) {
+      return request;
+    }
+
+    const owners = getAccountOwners(registry, request.accountNumber);
+    const orgKey = normalizeOrgName(request.organizationName);
+    if (owners.length > 0 && !owners.some((owner) => normalizeOrgName(owner.organizationName) === orgKey)) {
+      const ownerNames = Array.from(new Set(owners.map((owner) => owner.organizationName)));
+      issues.push(createRequestIssue(
+        'account-mismatch',
+        'warning',
+        `${label}: Account ${normalizeAccountNumber(request.accountNumber)} belongs to ${ownerNames.join(', ')}, not ${request.organizationName}.`,
+        request,
+        { field: 'accountNumber', suggestedFix: 'Confirm with the organization which account the money should go to.' }
+      ));
+    }
+
+    return request;
+  });
+
+  // Organizations spreading requests across too many accounts
+  const active = checked.filter((request) => request.approvalStatus !== 'Denied');
+  for (const group of groupByOrganization(active).values()) {
+    const organizationName = group[0].organizationName;
+    const accounts = new Set(getOrgAccounts(registry, organizationName).map((entry) => entry.accountNumber));
+    for (const request of group) {
+      if (isValidAccountNumber(request.accountNumber)) {
+        accounts.add(normalizeAccountNumber(request.accountNumber));
+      }
+    }
+
+    if (accounts.size > MAX_ACCOUNTS_PER_ORG) {
+      issues.push(createIssue(
+        'account-multiple',
+        'warning',
+        `${organizationName} has used ${accounts.size} different accounts (${Array.from(accounts).join(', ')}).`,
+        {
+          field: 'accountNumber',
+          suggestedFix: 'Check with the organization which account is current.',
+        }
+      ));
+    }
+  }
+
+  return { requests: checked, issues };
+}
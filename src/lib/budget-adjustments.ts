@@ -0,0 +1,118 @@
+/**
+ * Mid-semester budget adjustments
+ *
+ * The AFR budget starts from the starting budget in I1, but rollover funds,
+ * supplemental allocations from the university, and clawbacks of unspent
+ * organization funds change it mid-semester. Each adjustment is a row on the
+ * master's AFR sheet, between weeks, that the Remaining Budget chain runs through:
+ *
+ *   A: Date  B: Memo  C: Source  D: Amount  G: "Budget Adjustment:"  I: ={previous}+D{row}
+ */
+
+import * as ExcelJS from 'exceljs';
+import type { BudgetAdjustment, BudgetAdjustmentSource } from '@/types/budget-request';
+import { BUDGET_ADJUSTMENT_SOURCES } from '@/constants/budget-adjustments';
+import { weekDateToISO } from './date-utils';
+import { parseCurrency } from './currency-parser';
+import { isRecord } from './json-values';
+import { getCellText } from './master-worksheets';
+
+/**
+ * Column G label that marks a Budget Adjustment row
+ */
+export const BUDGET_ADJUSTMENT_LABEL = 'Budget Adjustment:';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isBudgetAdjustmentSource(value: unknown): value is BudgetAdjustmentSource {
+  return BUDGET_ADJUSTMENT_SOURCES.includes(value as BudgetAdjustmentSource);
+}
+
+/**
+ * Validate a list of budget adjustments (e.g., from a form field's JSON)
+ *
+ * @param data - Parsed JSON
+ * @param source - Name used in error messages
+ * @returns The validated adjustments
+ * @throws Error describing the first problem found
+ */
+export function parseBudgetAdjustments(data: unknown, source: string = 'Budget adjustments'): BudgetAdjustment[] {
+  if (!Array.isArray(data)) {
+    throw new Error(`${source}: Must be a list of adjustments`);
+  }
+
+  return data.map((item, index) => {
+    const label = `${source}: Adjustment ${index + 1}`;
+    if (!isRecord(item)) {
+      throw new Error(`${label} must be an object`);
+    }
+
+    const { date, amount, memo } = item;
+    if (typeof date !== 'string' || !ISO_DATE_PATTERN.test(date)) {
+      throw new Error(`${label} needs a date like "2026-02-01"`);
+    }
+    if (!isBudgetAdjustmentSource(item.source)) {
+      throw new Error(`${label} source must be one of ${BUDGET_ADJUSTMENT_SOURCES.join(', ')}`);
+    }
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount === 0) {
+      throw new Error(`${label} needs a non-zero amount`);
+    }
+    if (memo !== undefined && typeof memo !== 'string') {
+      throw new Error(`${label} memo must be text`);
+    }
+
+    return { date, source: item.source, amount, memo: (memo || '').trim() };
+  });
+}
+
+/**
+ * Check whether an AFR sheet row is a Budget Adjustment row
+ */
+export function isBudgetAdjustmentRow(row: ExcelJS.Row): boolean {
+  return /budget\s*adjustment/i.test(getCellText(row.getCell(7))); // G
+}
+
+/**
+ * Read the adjustment on a Budget Adjustment row
+ *
+ * @returns The adjustment, or null if the row isn't one or its source, date, or
+ *   amount can't be read
+ */
+export function readBudgetAdjustmentRow(row: ExcelJS.Row): BudgetAdjustment | null {
+  if (!isBudgetAdjustmentRow(row)) return null;
+
+  const sourceText = getCellText(row.getCell(3)).toLowerCase(); // C
+  const source = BUDGET_ADJUSTMENT_SOURCES.find((s) => s.toLowerCase() === sourceText);
+  if (!source) return null;
+
+  // Amounts typed over as text (e.g., "$1,500.00") are read like request amounts
+  const amountValue = row.getCell(4).value; // D
+  let amount: number;
+  if (typeof amountValue === 'number') {
+    amount = amountValue;
+  } else {
+    const parsed = parseCurrency(getCellText(row.getCell(4)));
+    if (parsed.confidence === 'missing' || parsed.confidence === 'ambiguous') return null;
+    amount = parsed.value;
+  }
+  if (!Number.isFinite(amount) || amount === 0) return null;
+
+  const dateValue = row.getCell(1).value; // A
+  // Dates typed into Excel are read as UTC midnight
+  const date = dateValue instanceof Date ? dateValue.toISOString().slice(0, 10) : weekDateToISO(getCellText(row.getCell(1)));
+  if (!date) return null;
+
+  return {
+    date,
+    source,
+    amount,
+    memo: getCellText(row.getCell(2)), // B
+  };
+}
+
+/**
+ * Check whether two adjustments are the same (e.g., listed again by a re-run merge)
+ */
+export function isSameAdjustment(a: BudgetAdjustment, b: BudgetAdjustment): boolean {
+  return a.date === b.date && a.source === b.source && a.amount === b.amount && a.memo === b.memo;
+}
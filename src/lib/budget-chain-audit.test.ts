@@ -0,0 +1,30 @@
+import * as ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { auditBudgetChain } from './budget-chain-audit';
+
+async function toBuffer(workbook: ExcelJS.Workbook): Promise<ArrayBuffer> {
+  return new Uint8Array(await workbook.xlsx.writeBuffer()).slice().buffer as ArrayBuffer;
+}
+
+describe('auditBudgetChain', () => {
+  it('rejects legacy-layout masters', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const afr = workbook.addWorksheet('AFR');
+    afr.getCell('A1').value = 'Date of Meeting';
+    afr.getCell('I1').value = 'Remaining Budget';
+    afr.getCell('C2').value = 'Initial Budget';
+    afr.getCell('I2').value = 50000;
+
+    await expect(auditBudgetChain(await toBuffer(workbook))).rejects.toThrow('/api/migrate-master');
+  });
+
+  it('reports an initial budget that is not a number', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const afr = workbook.addWorksheet('AFR Requests');
+    afr.getCell('A2').value = 'Date of Meeting';
+    afr.getCell('I1').value = 'TBD';
+
+    const { issues } = await auditBudgetChain(await toBuffer(workbook));
+    expect(issues).toMatchObject([{ code: 'initial-budget-missing', cell: 'I1' }]);
+  });
+});
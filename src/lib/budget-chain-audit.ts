@@ -0,0 +1,303 @@
+/**
+ * Remaining Budget chain audit
+ *
+ * Each week on a master's AFR sheet ends with a Weekly Subtotal row
+ * (=SUM(H{first}:H{last}) over the week's requests) and a Remaining Budget row
+ * (=previous week's remaining - this week's subtotal, starting from the initial
+ * budget in I1). Budget Adjustment rows between weeks are links in the same chain
+ * (=previous remaining + the adjustment's amount). Manual edits in Excel often break
+ * the chain: formulas pointing at deleted rows, hard-coded numbers, or subtotals
+ * that miss rows. This walks every week, reports what is wrong by cell address, and
+ * can rewrite the formulas.
+ */
+
+import * as ExcelJS from 'exceljs';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { createIssue } from '@/lib/validation-issues';
+import { isBudgetAdjustmentRow } from '@/lib/budget-adjustments';
+import { findAFRWorksheet, getCellText } from '@/lib/master-worksheets';
+import { detectMasterLayout } from '@/lib/master-schema';
+
+/**
+ * Cell holding the semester's initial budget - the first week's chain starts here
+ */
+const INITIAL_BUDGET_CELL = 'I1';
+
+/**
+ * Pattern to match "Week of X" section headers
+ */
+const WEEK_HEADER_PATTERN = /^Week\s+of\s+/i;
+
+export interface BudgetChainAudit {
+  /** Number of weeks checked */
+  weeksChecked: number;
+  /** Problems found, with the cell each is about */
+  issues: ValidationIssue[];
+  /** Number of formulas rewritten (0 unless repairing) */
+  repaired: number;
+  /** The repaired .xlsx file (only when repairing) */
+  buffer?: Buffer;
+}
+
+/**
+ * A week's section on the AFR sheet
+ */
+interface ChainSection {
+  /** Section header text (e.g., "Week of 1/25/26") */
+  title: string;
+  /** Rows holding requests */
+  dataRows: number[];
+  subtotalRow: number | null;
+  remainingRow: number | null;
+}
+
+/**
+ * A link in the Remaining Budget chain, in sheet order
+ */
+type ChainLink =
+  | { kind: 'week'; section: ChainSection }
+  | { kind: 'adjustment'; row: number };
+
+/**
+ * Split the AFR sheet into its weekly sections and the Budget Adjustment rows between them
+ * Column headers, the initial budget row, and blank rows are not data rows.
+ */
+function findChainLinks(worksheet: ExcelJS.Worksheet): ChainLink[] {
+  const links: ChainLink[] = [];
+  let current: ChainSection | null = null;
+
+  worksheet.eachRow((row, rowNumber) => {
+    const first = getCellText(row.getCell(1));
+    if (WEEK_HEADER_PATTERN.test(first)) {
+      current = { title: first, dataRows: [], subtotalRow: null, remainingRow: null };
+      links.push({ kind: 'week', section: current });
+      return;
+    }
+    if (isBudgetAdjustmentRow(row)) {
+      links.push({ kind: 'adjustment', row: rowNumber });
+      return;
+    }
+    if (!current) return;
+
+    const label = getCellText(row.getCell(7)).toLowerCase(); // G
+    if (label.includes('weekly subtotal')) {
+      current.subtotalRow = rowNumber;
+      return;
+    }
+    if (label.includes('remaining budget')) {
+      current.remainingRow = rowNumber;
+      return;
+    }
+
+    // Rows after the subtotal belong to no week until the next header
+    if (current.subtotalRow !== null) return;
+
+    const organization = getCellText(row.getCell(3)); // C
+    if (organization && organization !== 'Organization' && organization !== 'Initial Budget') {
+      current.dataRows.push(rowNumber);
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Normalize a formula for comparison ("= SUM($H$5:H9)" → "SUM(H5:H9)")
+ */
+function normalizeFormula(formula: string): string {
+  return formula.replace(/^=/, '').replace(/[\s$]/g, '').toUpperCase();
+}
+
+/**
+ * Get a cell's formula, or null if it holds a value
+ */
+function getFormula(cell: ExcelJS.Cell): string | null {
+  return cell.type === ExcelJS.ValueType.Formula ? cell.formula : null;
+}
+
+/**
+ * Describe what a cell holds instead of the expected formula
+ */
+function describeCell(cell: ExcelJS.Cell): string {
+  const formula = getFormula(cell);
+  if (formula) return `=${formula}`;
+  const text = getCellText(cell);
+  return text ? `the value ${text}` : 'empty';
+}
+
+/**
+ * Check whether a cell holds a number (formulas give their cached result)
+ */
+function hasNumber(cell: ExcelJS.Cell): boolean {
+  const value = cell.value;
+  if (typeof value === 'number') return true;
+  return !!value && typeof value === 'object' && 'result' in value && typeof value.result === 'number';
+}
+
+/**
+ * Check one cell against the formula it should hold, optionally rewriting it
+ *
+ * @returns The issue found, or null if the formula is right
+ */
+function checkFormula(
+  cell: ExcelJS.Cell,
+  expected: string,
+  describe: (actual: string) => { code: ValidationIssue['code']; message: string },
+  repair: boolean
+): ValidationIssue | null {
+  const formula = getFormula(cell);
+  if (formula !== null && normalizeFormula(formula) === expected) return null;
+
+  const { code, message } = describe(describeCell(cell));
+  if (repair) {
+    cell.value = { formula: expected } as ExcelJS.CellFormulaValue;
+  }
+  return createIssue(code, 'warning', message, {
+    cell: cell.address,
+    suggestedFix: `Set ${cell.address} to =${expected}`,
+  });
+}
+
+/**
+ * Audit every week's Weekly Subtotal and Remaining Budget formulas on the AFR sheet
+ * - Subtotals must be =SUM(H{first}:H{last}) over exactly the week's request rows
+ * - Each Remaining Budget must be ={previous week's remaining}-H{subtotal}, with the
+ *   first week starting from I1
+ * - Each Budget Adjustment must be ={previous remaining}+D{row}, and the week after it
+ *   must start from it
+ * Weeks without a subtotal or remaining row are reported but can't be repaired.
+ * Masters in the legacy layout keep their budget in I2, not I1, and must be migrated first.
+ *
+ * @param masterBuffer - Buffer containing the master spreadsheet
+ * @param options.repair - Rewrite the formulas that are wrong and return the repaired file
+ * @returns The issues found and how many formulas were rewritten
+ */
+export async function auditBudgetChain(
+  masterBuffer: ArrayBuffer,
+  options: { repair?: boolean } = {}
+): Promise<BudgetChainAudit> {
+  const repair = options.repair === true;
+  const audit: BudgetChainAudit = { weeksChecked: 0, issues: [], repaired: 0 };
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(masterBuffer);
+
+  const { layout } = detectMasterLayout(workbook);
+  if (layout === 'legacy-weekly') {
+    throw new Error('This master is in the legacy layout - migrate it with /api/migrate-master before auditing');
+  }
+  if (layout === 'review-sheet') {
+    throw new Error('This is a Sunday meeting review spreadsheet, not a master - upload the semester master instead');
+  }
+
+  const worksheet = findAFRWorksheet(workbook);
+  if (!worksheet) return audit;
+
+  const initialBudgetCell = worksheet.getCell(INITIAL_BUDGET_CELL);
+  if (!hasNumber(initialBudgetCell)) {
+    audit.issues.push(createIssue(
+      'initial-budget-missing',
+      'warning',
+      `Initial budget ${INITIAL_BUDGET_CELL} is ${describeCell(initialBudgetCell)}, not a number - ` +
+      `the first week's Remaining Budget has nothing to start from.`,
+      { cell: INITIAL_BUDGET_CELL, suggestedFix: `Enter the semester's starting budget in ${INITIAL_BUDGET_CELL}.` }
+    ));
+  }
+
+  const report = (issue: ValidationIssue | null) => {
+    if (!issue) return;
+    audit.issues.push(issue);
+    if (repair) audit.repaired++;
+  };
+
+  let previousRemaining = INITIAL_BUDGET_CELL;
+
+  for (const link of findChainLinks(worksheet)) {
+    if (link.kind === 'adjustment') {
+      const adjustmentCell = worksheet.getRow(link.row).getCell(9); // I
+      report(checkFormula(
+        adjustmentCell,
+        `${previousRemaining}+D${link.row}`,
+        (actual) => {
+          const label = `Budget Adjustment ${adjustmentCell.address}`;
+          if (!getFormula(adjustmentCell)) {
+            return {
+              code: 'budget-chain-hard-coded',
+              message: `${label} is ${actual} instead of a formula, so it won't follow changes to earlier weeks.`,
+            };
+          }
+          return {
+            code: 'remaining-budget-chain-broken',
+            message: actual.includes('#REF!')
+              ? `${label} points at deleted rows (${actual}).`
+              : `${label} is ${actual}, but should add D${link.row} to ${previousRemaining}.`,
+          };
+        },
+        repair
+      ));
+      previousRemaining = `I${link.row}`;
+      continue;
+    }
+
+    const { section } = link;
+    audit.weeksChecked++;
+
+    if (section.subtotalRow === null || section.remainingRow === null) {
+      const missing = section.subtotalRow === null ? 'Weekly Subtotal' : 'Remaining Budget';
+      audit.issues.push(createIssue(
+        'budget-chain-row-missing',
+        'warning',
+        `${section.title}: No ${missing} row - the Remaining Budget chain can't be checked past this week.`,
+        { suggestedFix: `Add a "${missing}:" row (column G) at the end of the week.` }
+      ));
+      // Later weeks are still checked, but their chain can't be trusted from here
+      if (section.remainingRow !== null) previousRemaining = `I${section.remainingRow}`;
+      continue;
+    }
+
+    const subtotalCell = worksheet.getRow(section.subtotalRow).getCell(8); // H
+    if (section.dataRows.length > 0) {
+      const first = section.dataRows[0];
+      const last = section.dataRows[section.dataRows.length - 1];
+      report(checkFormula(
+        subtotalCell,
+        `SUM(H${first}:H${last})`,
+        (actual) => ({
+          code: getFormula(subtotalCell) ? 'subtotal-range-mismatch' : 'budget-chain-hard-coded',
+          message: `${section.title}: Weekly Subtotal ${subtotalCell.address} is ${actual}, but the week's requests are in rows ${first}-${last}.`,
+        }),
+        repair
+      ));
+    }
+
+    const remainingCell = worksheet.getRow(section.remainingRow).getCell(9); // I
+    report(checkFormula(
+      remainingCell,
+      `${previousRemaining}-H${section.subtotalRow}`,
+      (actual) => {
+        const label = `${section.title}: Remaining Budget ${remainingCell.address}`;
+        if (!getFormula(remainingCell)) {
+          return {
+            code: 'budget-chain-hard-coded',
+            message: `${label} is ${actual} instead of a formula, so it won't follow changes to earlier weeks.`,
+          };
+        }
+        return {
+          code: 'remaining-budget-chain-broken',
+          message: actual.includes('#REF!')
+            ? `${label} points at deleted rows (${actual}).`
+            : `${label} is ${actual}, but should start from ${previousRemaining}.`,
+        };
+      },
+      repair
+    ));
+
+    previousRemaining = `I${section.remainingRow}`;
+  }
+
+  if (repair) {
+    audit.buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  return audit;
+}
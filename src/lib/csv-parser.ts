@@ -5,84 +5,110 @@
  */
 
 import Papa from 'papaparse';
-import type { BudgetRequest, CSVParseResult, CSVType } from '@/types/budget-request';
-import { validateCSV } from './csv-validator';
-
-// CampusGroups column name mappings
-const CSV_COLUMNS = {
-  submissionId: 'Submission Id',
-  organizationName: 'Please enter the name of the organization this request is for:',
-  requestType: 'What type of request is this?',
-  afrAmount: 'Total Cost of AFR:',
-  reallocationAmount: 'Total Amount to Reallocate:',
-  approvalStatus: 'Approval Status',
-  // Note: There are two "Finance Review" columns - one for AFR, one for Reallocation
-  // Papa Parse will rename duplicates, so we check both
-  financeReviewAFR: 'Finance Review',
-  financeReviewReallocation: 'Finance Review_1', // Papa Parse auto-renames duplicates
-  afrDescription: 'Please explain the details of the Additional Funding Request. Be sure to include what each budget line item is used for and the items being purchases. Be sure to include the specific amount(s) you would like to request. Be as specific as possible to improve approval odds.',
-  reallocationDescription: 'Please explain the details of the reallocation request. Be sure to include what budget line item you want the money to come from and go to. Be sure to include the specific amount(s) you would like to reallocate. Be as specific as possible to improve approval odds.',
-  accountNumber: 'Please list the account number you would like any additional approved funds to be deposited into:',
-  submittedOn: 'Submitted On',
-  firstName: 'First Name',
-  lastName: 'Last Name',
-  email: 'Email',
-} as const;
+import type { BudgetRequest, CSVParseResult, ParsedAmount } from '@/types/budget-request';
+import type { ColumnMatcher, ColumnProfile, ColumnProfileMatch, CSVColumnKey } from '@/types/column-profile';
+import type { OrgRegistry } from '@/types/org-registry';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { COLUMN_PROFILES, SPRING_2026_COLUMNS, SPRING_2026_PROFILE } from '@/constants/column-profiles';
+import { parseCurrency } from './currency-parser';
+import { parseTimestamp } from './date-utils';
+import { detectCSVType, validateCSV } from './csv-validator';
+import { findOrganization, resolveOrgName } from './org-registry';
+import { findClosestMatch, formatSimilarity } from './string-similarity';
+import { createIssue, getErrorMessages, getWarningMessages } from './validation-issues';
+
+// Column mappings for the default (current) CampusGroups form
+const CSV_COLUMNS = SPRING_2026_COLUMNS;
 
 // Required columns that must exist in the CSV
-const REQUIRED_COLUMNS = [
-  CSV_COLUMNS.submissionId,
-  CSV_COLUMNS.organizationName,
-  CSV_COLUMNS.requestType,
-  CSV_COLUMNS.approvalStatus,
-  CSV_COLUMNS.submittedOn,
-  CSV_COLUMNS.firstName,
-  CSV_COLUMNS.lastName,
-  CSV_COLUMNS.email,
+const REQUIRED_COLUMNS: CSVColumnKey[] = [
+  'submissionId',
+  'organizationName',
+  'requestType',
+  'approvalStatus',
+  'submittedOn',
+  'firstName',
+  'lastName',
+  'email',
 ];
 
+// Minimum similarity for a header to be accepted in fuzzy mode
+const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+// Updates within this window after submission don't count as edits
+const EDIT_TOLERANCE_MS = 60 * 1000;
+
+// Minimum similarity for a header to be suggested as a "did you mean" match
+const SUGGESTION_THRESHOLD = 0.5;
+
 /**
- * Parse a currency string to a number
- * Handles formats like "$1,234.56", "1234.56", "$100", etc.
+ * Headers resolved from a column profile - maps each column key to the
+ * actual CSV header it matched (undefined if not present)
  */
-function parseCurrency(value: string | undefined | null): number {
-  if (!value || typeof value !== 'string') {
-    return 0;
-  }
-  
-  // Remove currency symbols, commas, and whitespace
-  const cleaned = value.replace(/[$,\s]/g, '').trim();
-  
-  if (!cleaned) {
-    return 0;
-  }
-  
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
+type ResolvedColumns = Partial<Record<CSVColumnKey, string>>;
+
+/**
+ * Options for parsing a CSV
+ */
+export interface ParseCSVOptions {
+  /** Column profiles to choose from (defaults to all known profiles) */
+  profiles?: ColumnProfile[];
+  /** Accept near-matching headers for missing columns (with a warning) */
+  fuzzyHeaders?: boolean;
+  /** Minimum similarity (0-1) for fuzzy header matches. Defaults to 0.8 */
+  fuzzyThreshold?: number;
+  /**
+   * Run request validation after parsing (default true)
+   * Turn off when combining several files so the union is validated once.
+   */
+  validate?: boolean;
+  /** Registry used to resolve organization names to canonical names (names are kept as submitted when omitted) */
+  orgRegistry?: OrgRegistry;
 }
 
 /**
- * Parse a date string from CampusGroups format
- * Expected format: "1/9/2026 12:19:03 PM" or similar
+ * Closest unmatched header for a missing column
  */
-function parseDate(value: string | undefined | null): Date {
-  if (!value || typeof value !== 'string') {
-    return new Date();
-  }
-  
-  const trimmed = value.trim();
-  if (!trimmed) {
-    return new Date();
+interface HeaderSuggestion {
+  header: string;
+  score: number;
+}
+
+/**
+ * Parse an optional timestamp column
+ * Returns undefined for blank or unparseable values
+ */
+function parseOptionalDate(value: string | undefined | null): Date | undefined {
+  return parseTimestamp(value) ?? undefined;
+}
+
+/**
+ * Check whether a submission was updated after it was submitted
+ * CampusGroups stamps "Last Updated On" a few seconds after submitting,
+ * so small differences are ignored
+ */
+function wasEditedAfterSubmission(submittedOn: Date, lastUpdatedOn: Date | undefined): boolean {
+  if (!lastUpdatedOn) {
+    return false;
   }
-  
-  const parsed = new Date(trimmed);
-  
-  // Check if date is valid
-  if (isNaN(parsed.getTime())) {
-    return new Date();
+  return lastUpdatedOn.getTime() - submittedOn.getTime() > EDIT_TOLERANCE_MS;
+}
+
+/**
+ * Hours from submission to the approve/deny decision
+ * Returns undefined for pending requests or when the decision time is unknown
+ */
+function getTurnaroundHours(
+  approvalStatus: BudgetRequest['approvalStatus'],
+  submittedOn: Date,
+  approvalStatusUpdatedOn: Date | undefined
+): number | undefined {
+  if (approvalStatus === 'Pending Approval' || !approvalStatusUpdatedOn) {
+    return undefined;
   }
   
-  return parsed;
+  const hours = (approvalStatusUpdatedOn.getTime() - submittedOn.getTime()) / (60 * 60 * 1000);
+  return hours >= 0 ? Math.round(hours * 10) / 10 : undefined;
 }
 
 /**
@@ -153,117 +179,324 @@ function normalizeRequestType(value: string | undefined | null): BudgetRequest['
 /**
  * Get a string value from a row, handling undefined/null
  */
-function getString(row: Record<string, string>, key: string): string {
+function getString(row: Record<string, string>, key: string | undefined): string {
+  if (!key) {
+    return '';
+  }
   const value = row[key];
   return typeof value === 'string' ? value.trim() : '';
 }
 
 /**
- * Check if required columns exist in the CSV
+ * Check whether a header satisfies a column matcher
+ * Strings must match the trimmed header exactly, patterns are tested against it
  */
-function validateColumns(headers: string[]): { valid: boolean; missing: string[] } {
-  const headerSet = new Set(headers.map(h => h.trim()));
-  const missing: string[] = [];
-  
-  for (const col of REQUIRED_COLUMNS) {
-    if (!headerSet.has(col)) {
-      missing.push(col);
+function matchesHeader(matcher: ColumnMatcher, header: string): boolean {
+  if (typeof matcher === 'string') {
+    return header === matcher;
+  }
+  return matcher.test(header);
+}
+
+/**
+ * Get the header text a column is expected to have
+ * Pattern matchers fall back to the default form's question text
+ */
+function getExpectedHeader(profile: ColumnProfile, key: CSVColumnKey): string {
+  const matcher = profile.columns[key];
+  return typeof matcher === 'string' ? matcher : CSV_COLUMNS[key];
+}
+
+/**
+ * Resolve each column in a profile to the CSV header it matches
+ */
+function resolveColumns(profile: ColumnProfile, headers: string[]): ResolvedColumns {
+  const trimmedHeaders = headers.map(h => h.trim());
+  const resolved: ResolvedColumns = {};
+
+  for (const key of Object.keys(profile.columns) as CSVColumnKey[]) {
+    const matcher = profile.columns[key];
+    const header = trimmedHeaders.find(h => matchesHeader(matcher, h));
+    if (header !== undefined) {
+      resolved[key] = header;
     }
   }
-  
+
+  return resolved;
+}
+
+/**
+ * Pick the profile that best matches the CSV headers
+ * Profiles are ranked by required columns matched, then by total columns matched.
+ * Ties go to the profile listed first.
+ */
+function selectColumnProfile(
+  headers: string[],
+  profiles: ColumnProfile[]
+): { profile: ColumnProfile; columns: ResolvedColumns } {
+  let best: { profile: ColumnProfile; columns: ResolvedColumns } | null = null;
+  let bestRequired = -1;
+  let bestTotal = -1;
+
+  for (const profile of profiles) {
+    const columns = resolveColumns(profile, headers);
+    const requiredCount = REQUIRED_COLUMNS.filter(key => columns[key]).length;
+    const totalCount = Object.keys(columns).length;
+
+    if (requiredCount > bestRequired || (requiredCount === bestRequired && totalCount > bestTotal)) {
+      best = { profile, columns };
+      bestRequired = requiredCount;
+      bestTotal = totalCount;
+    }
+  }
+
+  if (!best) {
+    return { profile: SPRING_2026_PROFILE, columns: resolveColumns(SPRING_2026_PROFILE, headers) };
+  }
+
+  return best;
+}
+
+/**
+ * Find the closest unmatched header for each missing column
+ */
+function findHeaderSuggestions(
+  profile: ColumnProfile,
+  headers: string[],
+  columns: ResolvedColumns
+): Partial<Record<CSVColumnKey, HeaderSuggestion>> {
+  const claimed = new Set(Object.values(columns));
+  const suggestions: Partial<Record<CSVColumnKey, HeaderSuggestion>> = {};
+
+  for (const key of Object.keys(profile.columns) as CSVColumnKey[]) {
+    if (columns[key]) {
+      continue;
+    }
+
+    const candidates = headers.map(h => h.trim()).filter(h => !claimed.has(h));
+    const closest = findClosestMatch(getExpectedHeader(profile, key), candidates);
+
+    if (closest && closest.score >= SUGGESTION_THRESHOLD) {
+      suggestions[key] = { header: closest.value, score: closest.score };
+      claimed.add(closest.value);
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Check if required columns exist in the CSV
+ */
+function validateColumns(columns: ResolvedColumns): { valid: boolean; missing: CSVColumnKey[] } {
+  const missing = REQUIRED_COLUMNS.filter(key => !columns[key]);
+
   return {
     valid: missing.length === 0,
     missing,
   };
 }
 
+/**
+ * Resolve a submitted organization name to its canonical name
+ * Fuzzy and acronym matches are reported so they can be checked; unmatched names
+ * are kept as submitted and flagged for review.
+ */
+function resolveOrganization(
+  name: string,
+  registry: OrgRegistry,
+  submissionId: string,
+  rowIndex: number,
+  issues: ValidationIssue[]
+): string {
+  const resolution = resolveOrgName(name, registry);
+  const location = { submissionId, row: rowIndex + 1, field: 'organizationName' };
+
+  switch (resolution.matchType) {
+    case 'canonical':
+    case 'alias':
+      return resolution.canonicalName!;
+    case 'acronym':
+    case 'fuzzy':
+      issues.push(createIssue(
+        'org-name-resolved',
+        'info',
+        `Row ${rowIndex + 1}: "${name}" matched to ${resolution.canonicalName} ` +
+        `(${resolution.matchType === 'acronym' ? 'acronym' : `${formatSimilarity(resolution.score)} similar`})`,
+        { ...location, suggestedFix: 'Save the name as an alias if the match is right.' }
+      ));
+      return resolution.canonicalName!;
+    case 'unmatched': {
+      const suggestion = resolution.suggestions[0];
+      issues.push(createIssue(
+        'org-unmatched',
+        'warning',
+        `Row ${rowIndex + 1}: "${name}" is not in the organization registry` +
+        (suggestion ? ` - closest is ${suggestion.canonicalName} (${formatSimilarity(suggestion.score)})` : ''),
+        { ...location, suggestedFix: 'Review organization names and save it as an alias or a new organization.' }
+      ));
+      return name;
+    }
+  }
+}
+
 /**
  * Parse a single CSV row into a BudgetRequest
  */
-function parseRow(row: Record<string, string>, rowIndex: number, warnings: string[]): BudgetRequest | null {
-  const submissionId = getString(row, CSV_COLUMNS.submissionId);
+function parseRow(
+  row: Record<string, string>,
+  columns: ResolvedColumns,
+  rowIndex: number,
+  issues: ValidationIssue[],
+  orgRegistry?: OrgRegistry
+): BudgetRequest | null {
+  const submissionId = getString(row, columns.submissionId);
   
   // Skip rows without a submission ID
   if (!submissionId) {
     return null;
   }
   
-  const organizationName = getString(row, CSV_COLUMNS.organizationName);
-  if (!organizationName) {
-    warnings.push(`Row ${rowIndex + 1}: Missing organization name, skipping`);
+  const submittedOrganizationName = getString(row, columns.organizationName);
+  if (!submittedOrganizationName) {
+    issues.push(createIssue(
+      'missing-organization',
+      'warning',
+      `Row ${rowIndex + 1}: Missing organization name, skipping`,
+      { submissionId, row: rowIndex + 1, field: 'organizationName' }
+    ));
+    return null;
+  }
+  const organizationName = orgRegistry
+    ? resolveOrganization(submittedOrganizationName, orgRegistry, submissionId, rowIndex, issues)
+    : submittedOrganizationName;
+  // Join the organization's reporting details (registered organizations only)
+  const orgEntry = orgRegistry ? findOrganization(orgRegistry, organizationName) : undefined;
+  
+  // Submission dates drive meeting weeks - never guess one; the row is dropped and
+  // the rest of the file is still parsed
+  const submittedOnText = getString(row, columns.submittedOn);
+  const submittedOn = parseTimestamp(submittedOnText);
+  if (!submittedOn) {
+    issues.push(createIssue(
+      'invalid-date',
+      'warning',
+      submittedOnText
+        ? `Row ${rowIndex + 1} (${organizationName}): Submitted On "${submittedOnText}" is not a valid date, skipping`
+        : `Row ${rowIndex + 1} (${organizationName}): Missing Submitted On date, skipping`,
+      {
+        submissionId,
+        row: rowIndex + 1,
+        field: 'submittedOn',
+        suggestedFix: 'Re-export the report from CampusGroups so the Submitted On column is filled in.',
+      }
+    ));
     return null;
   }
   
-  const requestType = normalizeRequestType(getString(row, CSV_COLUMNS.requestType));
+  const requestType = normalizeRequestType(getString(row, columns.requestType));
   
   // Get amount based on request type
-  let amount: number;
+  let parsedAmount: ParsedAmount;
   if (requestType === 'AFR') {
-    amount = parseCurrency(getString(row, CSV_COLUMNS.afrAmount));
+    parsedAmount = parseCurrency(getString(row, columns.afrAmount));
   } else {
-    amount = parseCurrency(getString(row, CSV_COLUMNS.reallocationAmount));
+    parsedAmount = parseCurrency(getString(row, columns.reallocationAmount));
   }
+  const { value: amount, ...amountInfo } = parsedAmount;
   
   // Get description based on request type
   let description: string;
   if (requestType === 'AFR') {
-    description = getString(row, CSV_COLUMNS.afrDescription);
+    description = getString(row, columns.afrDescription);
   } else {
-    description = getString(row, CSV_COLUMNS.reallocationDescription);
+    description = getString(row, columns.reallocationDescription);
+  }
+  
+  // Get supporting document link/upload based on request type
+  let supportingLink: string;
+  let supportingUpload: string;
+  if (requestType === 'AFR') {
+    supportingLink = getString(row, columns.afrSpreadsheetLink);
+    supportingUpload = getString(row, columns.afrSpreadsheetUpload);
+  } else {
+    supportingLink = getString(row, columns.reallocationSpreadsheetLink);
+    supportingUpload = getString(row, columns.reallocationSpreadsheetUpload);
   }
   
   // Get finance route based on request type
-  let financeRoute: BudgetRequest['financeRoute'];
+  let rawFinanceRoute: string;
   if (requestType === 'AFR') {
-    financeRoute = normalizeFinanceRoute(getString(row, CSV_COLUMNS.financeReviewAFR));
+    rawFinanceRoute = getString(row, columns.financeReviewAFR);
   } else {
     // Try the reallocation column first, fall back to AFR column
-    const reallocationRoute = getString(row, CSV_COLUMNS.financeReviewReallocation);
-    financeRoute = normalizeFinanceRoute(reallocationRoute || getString(row, CSV_COLUMNS.financeReviewAFR));
+    rawFinanceRoute = getString(row, columns.financeReviewReallocation) || getString(row, columns.financeReviewAFR);
   }
+  const financeRoute = normalizeFinanceRoute(rawFinanceRoute);
   
-  const approvalStatus = normalizeApprovalStatus(getString(row, CSV_COLUMNS.approvalStatus));
-  const accountNumber = getString(row, CSV_COLUMNS.accountNumber);
-  const submittedOn = parseDate(getString(row, CSV_COLUMNS.submittedOn));
+  const approvalStatus = normalizeApprovalStatus(getString(row, columns.approvalStatus));
+  const accountNumber = getString(row, columns.accountNumber);
+  const startedOn = parseOptionalDate(getString(row, columns.startedOn));
+  const lastUpdatedOn = parseOptionalDate(getString(row, columns.lastUpdatedOn));
+  const approvalStatusUpdatedOn = parseOptionalDate(getString(row, columns.approvalStatusUpdatedOn));
+  const approvalMessage = getString(row, columns.approvalMessage);
   
-  const firstName = getString(row, CSV_COLUMNS.firstName);
-  const lastName = getString(row, CSV_COLUMNS.lastName);
+  const firstName = getString(row, columns.firstName);
+  const lastName = getString(row, columns.lastName);
   const submitterName = `${firstName} ${lastName}`.trim();
-  const submitterEmail = getString(row, CSV_COLUMNS.email);
+  const submitterEmail = getString(row, columns.email);
   
   return {
     submissionId,
     organizationName,
+    submittedOrganizationName: organizationName !== submittedOrganizationName ? submittedOrganizationName : undefined,
+    category: orgEntry?.category,
+    fundingTier: orgEntry?.fundingTier,
     requestType,
     amount,
+    amountInfo,
     description,
     approvalStatus,
     financeRoute,
+    rawFinanceRoute: rawFinanceRoute || undefined,
     accountNumber,
+    supportingLink,
+    supportingUpload,
     submittedOn,
+    startedOn,
+    lastUpdatedOn,
+    approvalStatusUpdatedOn,
+    approvalMessage,
+    editedAfterSubmission: wasEditedAfterSubmission(submittedOn, lastUpdatedOn),
+    turnaroundHours: getTurnaroundHours(approvalStatus, submittedOn, approvalStatusUpdatedOn),
     submitterName,
     submitterEmail,
+    sourceRow: rowIndex + 1,
   };
 }
 
 /**
  * Parse a CSV string into BudgetRequest objects
  * 
+ * The column profile that best matches the CSV headers is selected automatically
+ * and reported on the result.
+ * 
  * @param csvString - The raw CSV string content
+ * @param options - Parse options (e.g., the column profiles to choose from)
  * @returns CSVParseResult with parsed requests, type detection, and any warnings/errors
  */
-export function parseCSV(csvString: string): CSVParseResult {
-  const warnings: string[] = [];
-  const errors: string[] = [];
-  const requests: BudgetRequest[] = [];
+export function parseCSV(csvString: string, options: ParseCSVOptions = {}): CSVParseResult {
+  const issues: ValidationIssue[] = [];
   
   // Handle empty input
   if (!csvString || typeof csvString !== 'string' || !csvString.trim()) {
+    const message = 'CSV content is empty';
     return {
       type: 'unknown',
       requests: [],
       warnings: [],
-      errors: ['CSV content is empty'],
+      errors: [message],
+      issues: [createIssue('empty-file', 'error', message)],
     };
   }
   
@@ -281,37 +514,138 @@ export function parseCSV(csvString: string): CSVParseResult {
   if (parseResult.errors.length > 0) {
     for (const error of parseResult.errors) {
       if (error.type === 'FieldMismatch') {
-        warnings.push(`Row ${error.row}: Field count mismatch - ${error.message}`);
+        issues.push(createIssue(
+          'field-count-mismatch',
+          'warning',
+          `Row ${error.row}: Field count mismatch - ${error.message}`,
+          { row: error.row !== undefined ? error.row + 1 : undefined }
+        ));
       } else {
-        errors.push(`Parse error: ${error.message}`);
+        issues.push(createIssue('parse-error', 'error', `Parse error: ${error.message}`));
       }
     }
   }
   
-  // Validate required columns
   const headers = parseResult.meta.fields || [];
-  const columnValidation = validateColumns(headers);
+  return parseRecords(headers, parseResult.data, options, issues);
+}
+
+/**
+ * Parse CampusGroups export rows that are already keyed by header
+ * 
+ * Used by non-CSV ingestion paths (e.g., .xlsx exports) so every export format
+ * goes through the same profile selection, validation, and row parsing.
+ * 
+ * @param headers - Trimmed column headers, with duplicates renamed the way Papa Parse does ("Finance Review_1")
+ * @param rows - Row records keyed by header
+ * @param options - Parse options (e.g., the column profiles to choose from)
+ * @returns CSVParseResult with parsed requests, type detection, and any warnings/errors
+ */
+export function parseExportRows(
+  headers: string[],
+  rows: Record<string, string>[],
+  options: ParseCSVOptions = {}
+): CSVParseResult {
+  return parseRecords(headers, rows, options, []);
+}
+
+/**
+ * Shared parsing pipeline for header-keyed rows
+ */
+function parseRecords(
+  headers: string[],
+  rows: Record<string, string>[],
+  options: ParseCSVOptions,
+  issues: ValidationIssue[]
+): CSVParseResult {
+  const profiles = options.profiles && options.profiles.length > 0 ? options.profiles : COLUMN_PROFILES;
+  const requests: BudgetRequest[] = [];
+  
+  // Select the column profile that best matches the headers
+  const { profile, columns } = selectColumnProfile(headers, profiles);
+  const suggestions = findHeaderSuggestions(profile, headers, columns);
+  
+  // In fuzzy mode, accept close matches for missing columns
+  if (options.fuzzyHeaders) {
+    const threshold = options.fuzzyThreshold ?? DEFAULT_FUZZY_THRESHOLD;
+    
+    for (const key of Object.keys(suggestions) as CSVColumnKey[]) {
+      const suggestion = suggestions[key];
+      if (suggestion && suggestion.score >= threshold) {
+        columns[key] = suggestion.header;
+        delete suggestions[key];
+        issues.push(createIssue(
+          'fuzzy-column-match',
+          'warning',
+          `Column '${getExpectedHeader(profile, key)}' not found - using closest match ` +
+          `'${suggestion.header}' (${formatSimilarity(suggestion.score)}). ` +
+          `Consider adding a column profile for the updated form.`,
+          { field: key, suggestedFix: 'Add a column profile for the updated form.' }
+        ));
+      }
+    }
+  }
+  
+  const profileMatch: ColumnProfileMatch = {
+    id: profile.id,
+    name: profile.name,
+    matchedColumns: Object.keys(columns).length,
+    totalColumns: Object.keys(profile.columns).length,
+  };
+  
+  // Validate required columns
+  const columnValidation = validateColumns(columns);
   
   if (!columnValidation.valid) {
     for (const missing of columnValidation.missing) {
-      errors.push(`Missing required column: '${missing}'. Please ensure you're exporting the correct report from CampusGroups.`);
+      const suggestion = suggestions[missing];
+      const closestMatch = suggestion
+        ? ` - closest match '${suggestion.header}' (${formatSimilarity(suggestion.score)})`
+        : '';
+      issues.push(createIssue(
+        'missing-column',
+        'error',
+        `Missing required column: '${getExpectedHeader(profile, missing)}' (${profile.name})${closestMatch}. ` +
+        `Please ensure you're exporting the correct report from CampusGroups.`,
+        {
+          field: missing,
+          suggestedFix: suggestion
+            ? 'Enable fuzzy header matching or add a column profile for the updated form.'
+            : 'Export the budget request report from CampusGroups.',
+        }
+      ));
     }
     
     // If critical columns are missing, return early
-    if (errors.length > 0) {
-      return {
-        type: 'unknown',
-        requests: [],
-        warnings,
-        errors,
-      };
+    return {
+      type: 'unknown',
+      requests: [],
+      warnings: getWarningMessages(issues),
+      errors: getErrorMessages(issues),
+      issues,
+      profile: profileMatch,
+    };
+  }
+  
+  // Optional columns are not fatal, but flag likely renames
+  for (const key of Object.keys(suggestions) as CSVColumnKey[]) {
+    const suggestion = suggestions[key];
+    if (suggestion && !REQUIRED_COLUMNS.includes(key)) {
+      issues.push(createIssue(
+        'optional-column-missing',
+        'warning',
+        `Column '${getExpectedHeader(profile, key)}' not found - closest match ` +
+        `'${suggestion.header}' (${formatSimilarity(suggestion.score)}). ` +
+        `Values from this column will be left blank.`,
+        { field: key }
+      ));
     }
   }
   
   // Parse each row
-  for (let i = 0; i < parseResult.data.length; i++) {
-    const row = parseResult.data[i];
-    const request = parseRow(row, i, warnings);
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const request = parseRow(row, columns, i, issues, options.orgRegistry);
     
     if (request) {
       requests.push(request);
@@ -320,22 +654,30 @@ export function parseCSV(csvString: string): CSVParseResult {
   
   // Check if we got any valid requests
   if (requests.length === 0) {
+    issues.push(createIssue('no-requests', 'error', 'No valid budget requests found in CSV'));
     return {
       type: 'unknown',
       requests: [],
-      warnings,
-      errors: [...errors, 'No valid budget requests found in CSV'],
+      warnings: getWarningMessages(issues),
+      errors: getErrorMessages(issues),
+      issues,
+      profile: profileMatch,
     };
   }
   
   // Validate and determine CSV type
-  const validation = validateCSV(requests);
+  const validation = options.validate === false
+    ? { type: detectCSVType(requests), issues: [] }
+    : validateCSV(requests);
+  const allIssues = [...issues, ...validation.issues];
   
   return {
     type: validation.type,
     requests,
-    warnings: [...warnings, ...validation.warnings],
-    errors: [...errors, ...validation.errors],
+    warnings: getWarningMessages(allIssues),
+    errors: getErrorMessages(allIssues),
+    issues: allIssues,
+    profile: profileMatch,
   };
 }
 
@@ -5,24 +5,177 @@
  * based on approval status values.
  */
 
-import type { BudgetRequest, CSVType, ValidationResult } from '@/types/budget-request';
+import type { BudgetRequest, CSVType, RouteLimits, SubmissionDeadline, ValidationResult } from '@/types/budget-request';
+import { DEFAULT_ROUTE_LIMITS } from '@/constants/route-limits';
+import { DEFAULT_SUBMISSION_DEADLINE } from '@/constants/submission-deadline';
+import { formatTimestamp } from '@/lib/date-utils';
+import { AMOUNT_ISSUE_LABELS, formatCurrency } from '@/lib/currency-parser';
+import { classifySubmissions, formatSubmissionDeadline } from '@/lib/submission-deadline';
+import { getFinancePolicy, getFinancePolicyForRequests } from '@/lib/finance-policy';
+import { runPolicyRules } from '@/lib/validation-rules';
+import { getRouteLimitExcess } from '@/lib/route-limits';
+import { isMissingAccountNumber, isValidAccountNumber } from '@/lib/account-numbers';
+import { checkSubmitterAuthorization } from '@/lib/officer-roster';
+import { createIssue, createRequestIssue, getErrorMessages, getWarningMessages } from '@/lib/validation-issues';
+import type { ValidationIssue } from '@/types/validation-issue';
+import type { FinancePolicy } from '@/types/validation-rule';
+import type { RosterOfficer } from '@/types/officer-roster';
+
+/**
+ * Options for request validation
+ */
+export interface ValidationOptions {
+  /**
+   * Finance policy whose rules are checked (defaults to the policy in effect when
+   * the requests were submitted; null skips policy rules)
+   */
+  policy?: FinancePolicy | null;
+  /** Officer roster to check submitters against (skipped when not provided) */
+  roster?: RosterOfficer[];
+}
+
+/**
+ * Options for spreadsheet validation
+ */
+export interface SpreadsheetValidationOptions extends ValidationOptions {
+  /** Meeting the requests are being added to - enables the submission deadline check */
+  meetingDate?: Date;
+  /** Submission deadline (defaults to Thursday 11:59 PM before the meeting) */
+  deadline?: SubmissionDeadline;
+  /** Dollar limits per finance route (defaults to the policy's limits, then DEFAULT_ROUTE_LIMITS) */
+  routeLimits?: RouteLimits;
+}
+
+/**
+ * Check whether CampusGroups routed a request to "Finance Review" (late submission)
+ */
+function isFinanceReviewRoute(request: BudgetRequest): boolean {
+  return request.rawFinanceRoute?.trim().toLowerCase() === 'finance review';
+}
+
+/**
+ * Check whether a Finance Review request still has to wait a week
+ * The export keeps showing the Finance Review route after the request was deferred,
+ * so one already deferred from an earlier meeting is taken up at this one.
+ */
+function isAwaitingFinanceReview(request: BudgetRequest): boolean {
+  return isFinanceReviewRoute(request) && !request.deferredFrom;
+}
+
+/**
+ * Build the issue for a request whose amount is missing or needed interpretation
+ * Returns null when the amount was read exactly
+ */
+function amountIssue(request: BudgetRequest, index: number): ValidationIssue | null {
+  const prefix = `Request ${index + 1} (${request.organizationName}):`;
+  const info = request.amountInfo;
+
+  if (info?.confidence === 'missing' && info.issue !== 'empty') {
+    return createRequestIssue(
+      'amount-unparseable',
+      'warning',
+      `${prefix} Amount "${info.raw}" could not be read - using $0.`,
+      request,
+      { field: 'amount', suggestedFix: 'Enter the amount manually in the spreadsheet.' }
+    );
+  }
+
+  if (info?.issue && info.issue !== 'empty') {
+    return createRequestIssue(
+      'amount-interpreted',
+      'warning',
+      `${prefix} Amount "${info.raw}" interpreted as ${formatCurrency(request.amount)} ` +
+      `(${AMOUNT_ISSUE_LABELS[info.issue]}). Confirm with the organization.`,
+      request,
+      { field: 'amount', suggestedFix: 'Confirm the amount with the organization.' }
+    );
+  }
+
+  if (request.amount === 0) {
+    return createRequestIssue(
+      'amount-missing',
+      'warning',
+      `${prefix} Amount is $0 or missing.`,
+      request,
+      { field: 'amount', suggestedFix: 'Ask the organization for the requested amount.' }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Build the issue for a request that was edited after it was submitted
+ */
+function editedAfterSubmissionIssue(request: BudgetRequest, index: number): ValidationIssue {
+  const lastUpdated = request.lastUpdatedOn ? ` (last updated ${formatTimestamp(request.lastUpdatedOn)})` : '';
+  return createRequestIssue(
+    'edited-after-submission',
+    'warning',
+    `Request ${index + 1} (${request.organizationName}): Edited after submission${lastUpdated}. ` +
+    `Confirm the agenda reflects the latest version.`,
+    request,
+    { field: 'lastUpdatedOn', suggestedFix: 'Re-export from CampusGroups and check the agenda.' }
+  );
+}
+
+/**
+ * Build the issue for a batch no semester finance policy covers
+ * Policy rules are skipped and route limits fall back to the defaults.
+ */
+function policyMissingIssue(): ValidationIssue {
+  return createIssue(
+    'policy-missing',
+    'warning',
+    'No finance policy covers this meeting date - policy rules were not checked and default route limits were used.',
+    { suggestedFix: 'Add the semester\'s policy file under src/constants/finance-policies/.' }
+  );
+}
+
+/**
+ * Build the issue for a request with a missing, placeholder, or malformed account number
+ * Returns null if the account number looks valid.
+ */
+function accountIssue(request: BudgetRequest, index: number): ValidationIssue | null {
+  if (isMissingAccountNumber(request.accountNumber)) {
+    return createRequestIssue(
+      'account-missing',
+      'warning',
+      `Request ${index + 1} (${request.organizationName}): Account number is missing or invalid.`,
+      request,
+      { field: 'accountNumber', suggestedFix: 'Look up the organization\'s account number before entering in KFS.' }
+    );
+  }
+  if (!isValidAccountNumber(request.accountNumber)) {
+    return createRequestIssue(
+      'account-invalid-format',
+      'warning',
+      `Request ${index + 1} (${request.organizationName}): Account number "${request.accountNumber}" is not a 7-digit university account.`,
+      request,
+      { field: 'accountNumber', suggestedFix: 'Correct the account number (e.g., 1200927) before entering in KFS.' }
+    );
+  }
+  return null;
+}
 
 /**
  * Validate parsed budget requests and determine CSV type
  * 
  * @param requests - Array of parsed BudgetRequest objects
+ * @param options - Finance policy and officer roster to check requests against
  * @returns ValidationResult with type, warnings, and errors
  */
-export function validateCSV(requests: BudgetRequest[]): ValidationResult {
-  const warnings: string[] = [];
-  const errors: string[] = [];
+export function validateCSV(requests: BudgetRequest[], options: ValidationOptions = {}): ValidationResult {
+  const issues: ValidationIssue[] = [];
   
   // Handle empty requests
   if (!requests || requests.length === 0) {
+    const message = 'No budget requests to validate';
     return {
       type: 'unknown',
       warnings: [],
-      errors: ['No budget requests to validate'],
+      errors: [message],
+      issues: [createIssue('no-requests', 'error', message)],
     };
   }
   
@@ -56,10 +209,13 @@ export function validateCSV(requests: BudgetRequest[]): ValidationResult {
   if (unknownStatusCount > 0) {
     // If there are unknown status values, mark as unknown
     type = 'unknown';
-    errors.push(
+    issues.push(createIssue(
+      'unknown-status',
+      'error',
       `Found ${unknownStatusCount} request(s) with unknown approval status: ${Array.from(unknownStatuses).join(', ')}. ` +
-      `Expected values are: "Approved", "Pending Approval", or "Denied".`
-    );
+      `Expected values are: "Approved", "Pending Approval", or "Denied".`,
+      { field: 'approvalStatus' }
+    ));
   } else if (approvedCount > 0 && pendingCount === 0 && deniedCount === 0) {
     // All approved
     type = 'approved';
@@ -71,26 +227,30 @@ export function validateCSV(requests: BudgetRequest[]): ValidationResult {
     type = 'all';
     // No longer an error - this is expected for spreadsheet generation
     if (deniedCount > 0) {
-      warnings.push(
+      issues.push(createIssue(
+        'denied-excluded',
+        'info',
         `CSV contains ${deniedCount} denied request(s). These will be excluded from generation.`
-      );
+      ));
     }
   } else if (deniedCount > 0) {
     // Has denied requests
     if (approvedCount > 0 || pendingCount > 0) {
       type = approvedCount > 0 ? 'approved' : 'pending';
-      warnings.push(
+      issues.push(createIssue(
+        'denied-excluded',
+        'info',
         `CSV contains ${deniedCount} denied request(s). ` +
         `These will be excluded from generation.`
-      );
+      ));
     } else {
       // Only denied requests
       type = 'unknown';
-      errors.push('CSV contains only denied requests. Nothing to generate.');
+      issues.push(createIssue('only-denied', 'error', 'CSV contains only denied requests. Nothing to generate.'));
     }
   } else {
     type = 'unknown';
-    errors.push('Unable to determine CSV type from approval statuses.');
+    issues.push(createIssue('undetermined-type', 'error', 'Unable to determine CSV type from approval statuses.'));
   }
   
   // For pending requests, check if any are not "Sunday Meeting" finance route
@@ -108,10 +268,13 @@ export function validateCSV(requests: BudgetRequest[]): ValidationResult {
         .map(([route, count]) => `${count} "${route}"`)
         .join(', ');
       
-      warnings.push(
+      issues.push(createIssue(
+        'not-sunday-meeting',
+        'warning',
         `${nonSundayMeeting.length} pending request(s) are not routed to "Sunday Meeting" (${routeDetails}). ` +
-        `These may not require Senate approval. Consider reviewing before including in the Sunday meeting spreadsheet.`
-      );
+        `These may not require Senate approval. Consider reviewing before including in the Sunday meeting spreadsheet.`,
+        { field: 'financeRoute', suggestedFix: 'Review these requests before adding them to the Sunday meeting spreadsheet.' }
+      ));
     }
   }
   
@@ -119,100 +282,208 @@ export function validateCSV(requests: BudgetRequest[]): ValidationResult {
   for (let i = 0; i < requests.length; i++) {
     const request = requests[i];
     
-    // Warn about missing amounts
-    if (request.amount === 0) {
-      warnings.push(
-        `Request ${i + 1} (${request.organizationName}): Amount is $0 or missing.`
-      );
+    // Warn about missing or ambiguous amounts
+    const amountProblem = amountIssue(request, i);
+    if (amountProblem) {
+      issues.push(amountProblem);
     }
     
     // Warn about missing descriptions
     if (!request.description || request.description.trim() === '') {
-      warnings.push(
-        `Request ${i + 1} (${request.organizationName}): Description is empty.`
-      );
+      issues.push(createRequestIssue(
+        'description-empty',
+        'warning',
+        `Request ${i + 1} (${request.organizationName}): Description is empty.`,
+        request,
+        { field: 'description' }
+      ));
     }
     
-    // Warn about missing account numbers
-    if (!request.accountNumber || request.accountNumber.trim() === '' || request.accountNumber === '#') {
-      warnings.push(
-        `Request ${i + 1} (${request.organizationName}): Account number is missing or invalid.`
-      );
+    // Warn about missing or malformed account numbers
+    const accountProblem = accountIssue(request, i);
+    if (accountProblem) {
+      issues.push(accountProblem);
+    }
+    
+    // Warn about requests changed after the agenda may have been set
+    if (request.editedAfterSubmission) {
+      issues.push(editedAfterSubmissionIssue(request, i));
     }
   }
   
+  // Check the semester's finance-policy rules
+  const policy = options.policy === undefined ? getFinancePolicyForRequests(requests) : options.policy;
+  if (policy) {
+    issues.push(...runPolicyRules(requests, policy));
+  } else if (options.policy === undefined) {
+    issues.push(policyMissingIssue());
+  }
+  
+  // Check submitters against the officer roster
+  if (options.roster) {
+    issues.push(...checkSubmitterAuthorization(requests, options.roster));
+  }
+  
   return {
     type,
-    warnings,
-    errors,
+    warnings: getWarningMessages(issues),
+    errors: getErrorMessages(issues),
+    issues,
   };
 }
 
 /**
  * Validate CSV for spreadsheet generation (accepts all request types)
- * Filters out denied requests and "Finance Review" late submissions
+ * Filters out denied requests and defers late submissions to next week:
+ * - "Finance Review" route requests (CampusGroups' late-submission route), unless
+ *   already deferred from an earlier meeting (deferredFrom set) - those are added
+ * - Pending requests submitted after the deadline, when a meeting date is given
+ * Approved Auto-Approve/Budget Review requests are marked pre-approved unless their
+ * amount is above the route's dollar limit.
  * 
  * @param requests - Array of parsed BudgetRequest objects
+ * @param options - Meeting date and submission deadline for the late check, the finance policy
+ *   (defaults to the policy in effect on the meeting date), and the officer roster
  * @returns ValidationResult with type 'all', warnings, and errors
  */
-export function validateCSVForSpreadsheet(requests: BudgetRequest[]): ValidationResult & { 
+export function validateCSVForSpreadsheet(
+  requests: BudgetRequest[],
+  options: SpreadsheetValidationOptions = {}
+): ValidationResult & { 
   filteredRequests: BudgetRequest[];
-  excludedCount: { denied: number; financeReview: number };
+  /** Late requests to carry forward to next week's meeting */
+  deferredRequests: BudgetRequest[];
+  excludedCount: { denied: number; financeReview: number; late: number };
 } {
-  const warnings: string[] = [];
-  const errors: string[] = [];
+  const issues: ValidationIssue[] = [];
   
   // Handle empty requests
   if (!requests || requests.length === 0) {
+    const message = 'No budget requests to validate';
     return {
       type: 'unknown',
       warnings: [],
-      errors: ['No budget requests to validate'],
+      errors: [message],
+      issues: [createIssue('no-requests', 'error', message)],
       filteredRequests: [],
-      excludedCount: { denied: 0, financeReview: 0 },
+      deferredRequests: [],
+      excludedCount: { denied: 0, financeReview: 0, late: 0 },
     };
   }
   
   // Filter out denied requests and "Finance Review" route (late submissions)
   const deniedRequests = requests.filter(r => r.approvalStatus === 'Denied');
   const financeReviewRequests = requests.filter(r => 
-    r.rawFinanceRoute === 'Finance Review' || r.financeRoute === 'Finance Review' as any
+    r.approvalStatus !== 'Denied' && isAwaitingFinanceReview(r)
+  );
+  const carriedInFinanceReviewRequests = requests.filter(r =>
+    r.approvalStatus !== 'Denied' && isFinanceReviewRoute(r) && !isAwaitingFinanceReview(r)
   );
   
-  const filteredRequests = requests.filter(r => 
-    r.approvalStatus !== 'Denied' && 
-    r.rawFinanceRoute !== 'Finance Review' &&
-    r.financeRoute !== 'Finance Review' as any
+  let filteredRequests = requests.filter(r => 
+    r.approvalStatus !== 'Denied' && !isAwaitingFinanceReview(r)
   );
   
+  // Pending requests submitted after the deadline wait for next week's meeting
+  let lateRequests: BudgetRequest[] = [];
+  if (options.meetingDate) {
+    const deadline = options.deadline || DEFAULT_SUBMISSION_DEADLINE;
+    const pendingRequests = filteredRequests.filter(r => r.approvalStatus === 'Pending Approval');
+    const { late, cutoff } = classifySubmissions(pendingRequests, options.meetingDate, deadline);
+    
+    lateRequests = late;
+    filteredRequests = filteredRequests.filter(r => r.submissionTiming !== 'late');
+    
+    if (late.length > 0) {
+      issues.push(createIssue(
+        'late-deferred',
+        'info',
+        `${late.length} pending request(s) submitted after the ${formatSubmissionDeadline(deadline)} deadline ` +
+        `(${formatTimestamp(cutoff)}) were deferred to next week.`,
+        { field: 'submittedOn' }
+      ));
+    }
+  }
+  
+  const deferredRequests = [...financeReviewRequests, ...lateRequests];
+  const excludedCount = {
+    denied: deniedRequests.length,
+    financeReview: financeReviewRequests.length,
+    late: lateRequests.length,
+  };
+  
   // Add warnings about excluded requests
   if (deniedRequests.length > 0) {
-    warnings.push(
+    issues.push(createIssue(
+      'denied-excluded',
+      'info',
       `${deniedRequests.length} denied request(s) were excluded from the spreadsheet.`
-    );
+    ));
   }
   
   if (financeReviewRequests.length > 0) {
-    warnings.push(
-      `${financeReviewRequests.length} late submission(s) (Finance Review route) were excluded from the spreadsheet.`
-    );
+    issues.push(createIssue(
+      'finance-review-deferred',
+      'info',
+      `${financeReviewRequests.length} late submission(s) (Finance Review route) were deferred to next week.`,
+      { field: 'financeRoute' }
+    ));
+  }
+  
+  if (carriedInFinanceReviewRequests.length > 0) {
+    issues.push(createIssue(
+      'finance-review-carried-in',
+      'info',
+      `${carriedInFinanceReviewRequests.length} Finance Review request(s) deferred from an earlier meeting were added this week ` +
+      `(${carriedInFinanceReviewRequests.map((r) => r.submissionId).join(', ')}).`,
+      { field: 'financeRoute' }
+    ));
   }
   
   if (filteredRequests.length === 0) {
-    errors.push('No valid requests remaining after filtering out denied and late submissions.');
+    // Nothing to add this week, but deferred requests still need to be recorded
+    if (deferredRequests.length > 0) {
+      issues.push(createIssue('all-deferred', 'warning', 'No requests to add this week - all remaining requests were deferred.'));
+    } else {
+      issues.push(createIssue('no-requests', 'error', 'No valid requests remaining after filtering out denied and late submissions.'));
+    }
     return {
       type: 'unknown',
-      warnings,
-      errors,
+      warnings: getWarningMessages(issues),
+      errors: getErrorMessages(issues),
+      issues,
       filteredRequests: [],
-      excludedCount: { denied: deniedRequests.length, financeReview: financeReviewRequests.length },
+      deferredRequests,
+      excludedCount,
     };
   }
   
-  // Mark pre-approved requests
-  for (const request of filteredRequests) {
-    if (request.approvalStatus === 'Approved' && 
-        (request.financeRoute === 'Auto-Approve' || request.financeRoute === 'Budget Review')) {
+  // The semester's finance policy supplies route limits and rules
+  const policy = options.policy !== undefined
+    ? options.policy
+    : options.meetingDate ? getFinancePolicy(options.meetingDate) : getFinancePolicyForRequests(filteredRequests);
+  const routeLimits = options.routeLimits ?? policy?.routeLimits ?? DEFAULT_ROUTE_LIMITS;
+  
+  // Mark pre-approved requests - unless the amount is above the route's limit
+  for (let i = 0; i < filteredRequests.length; i++) {
+    const request = filteredRequests[i];
+    if (request.financeRoute !== 'Auto-Approve' && request.financeRoute !== 'Budget Review') {
+      continue;
+    }
+    
+    const excess = getRouteLimitExcess(request, routeLimits);
+    if (excess) {
+      request.routeLimitExceeded = excess;
+      request.isPreApproved = false;
+      issues.push(createRequestIssue(
+        'route-exceeds-limit',
+        'warning',
+        `Request ${i + 1} (${request.organizationName}): ${formatCurrency(request.amount)} is above the ` +
+        `${formatCurrency(excess.limit)} ${excess.route} limit - not pre-approved.`,
+        request,
+        { field: 'amount', suggestedFix: 'Review at the Sunday meeting or confirm the route with the finance chair.' }
+      ));
+    } else if (request.approvalStatus === 'Approved') {
       request.isPreApproved = true;
     }
   }
@@ -224,34 +495,52 @@ export function validateCSVForSpreadsheet(requests: BudgetRequest[]): Validation
   
   // Add summary info
   if (preApprovedCount > 0) {
-    warnings.push(
+    issues.push(createIssue(
+      'pre-approved',
+      'info',
       `${preApprovedCount} pre-approved request(s) (Auto-Approve/Budget Review) will be added with "Approved" status pre-filled.`
-    );
+    ));
   }
   
   // Validate individual requests
   for (let i = 0; i < filteredRequests.length; i++) {
     const request = filteredRequests[i];
     
-    if (request.amount === 0) {
-      warnings.push(
-        `Request ${i + 1} (${request.organizationName}): Amount is $0 or missing.`
-      );
+    const amountProblem = amountIssue(request, i);
+    if (amountProblem) {
+      issues.push(amountProblem);
+    }
+    
+    const accountProblem = accountIssue(request, i);
+    if (accountProblem) {
+      issues.push(accountProblem);
     }
     
-    if (!request.accountNumber || request.accountNumber.trim() === '' || request.accountNumber === '#') {
-      warnings.push(
-        `Request ${i + 1} (${request.organizationName}): Account number is missing or invalid.`
-      );
+    if (request.editedAfterSubmission) {
+      issues.push(editedAfterSubmissionIssue(request, i));
     }
   }
   
+  // Check the semester's finance-policy rules
+  if (policy) {
+    issues.push(...runPolicyRules(filteredRequests, policy));
+  } else if (options.policy === undefined) {
+    issues.push(policyMissingIssue());
+  }
+  
+  // Check submitters against the officer roster
+  if (options.roster) {
+    issues.push(...checkSubmitterAuthorization(filteredRequests, options.roster));
+  }
+  
   return {
     type: approvedCount > 0 && pendingCount > 0 ? 'all' : (approvedCount > 0 ? 'approved' : 'pending'),
-    warnings,
-    errors,
+    warnings: getWarningMessages(issues),
+    errors: getErrorMessages(issues),
+    issues,
     filteredRequests,
-    excludedCount: { denied: deniedRequests.length, financeReview: financeReviewRequests.length },
+    deferredRequests,
+    excludedCount,
   };
 }
 
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { parseCurrency } from './currency-parser';
+
+describe('parseCurrency', () => {
+  it('reads plain amounts exactly', () => {
+    expect(parseCurrency('$1,234.56')).toEqual({ value: 1234.56, raw: '$1,234.56', confidence: 'exact' });
+  });
+
+  it('uses the upper bound of a range', () => {
+    expect(parseCurrency('1,200-1,500')).toMatchObject({ value: 1500, confidence: 'ambiguous', issue: 'range' });
+  });
+
+  it('uses the one amount marked with $ when the text has other numbers', () => {
+    expect(parseCurrency('Requesting $750 for 2026 conference')).toMatchObject({ value: 750, issue: 'multiple-amounts' });
+    expect(parseCurrency('$300 per person x 10')).toMatchObject({ value: 300, issue: 'multiple-amounts' });
+    expect(parseCurrency('2 x $50')).toMatchObject({ value: 50, issue: 'multiple-amounts' });
+  });
+
+  it('leaves several unmarked numbers for manual entry', () => {
+    expect(parseCurrency('1.000,50')).toMatchObject({ value: 0, confidence: 'missing', issue: 'multiple-amounts' });
+    expect(parseCurrency('$200 and $300 for food')).toMatchObject({ value: 0, confidence: 'missing', issue: 'multiple-amounts' });
+  });
+
+  it('reports text without a number as unparseable', () => {
+    expect(parseCurrency('tbd')).toMatchObject({ value: 0, confidence: 'missing', issue: 'unparseable' });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Currency parsing and formatting
+ *
+ * CampusGroups amount questions are plain text boxes, so students write things
+ * like "about $500", "1,200-1,500", "500 USD" or "€300". This reads the amount
+ * and reports how confident the reading is instead of silently returning 0.
+ */
+
+import type { AmountConfidence, AmountIssueCode, ParsedAmount } from '@/types/budget-request';
+
+/**
+ * Issue codes in order of severity - when several apply, the first is reported
+ */
+const ISSUE_PRIORITY: AmountIssueCode[] = [
+  'foreign-currency',
+  'range',
+  'multiple-amounts',
+  'words',
+  'shorthand',
+  'approximate',
+  'negative',
+  'currency-code',
+];
+
+/**
+ * Confidence implied by each issue code
+ */
+const ISSUE_CONFIDENCE: Record<AmountIssueCode, AmountConfidence> = {
+  'empty': 'missing',
+  'unparseable': 'missing',
+  'foreign-currency': 'ambiguous',
+  'range': 'ambiguous',
+  'multiple-amounts': 'ambiguous',
+  'words': 'inferred',
+  'shorthand': 'inferred',
+  'approximate': 'inferred',
+  'negative': 'inferred',
+  'currency-code': 'inferred',
+};
+
+/**
+ * Human-readable labels for issue codes (used in warnings and the preview)
+ */
+export const AMOUNT_ISSUE_LABELS: Record<AmountIssueCode, string> = {
+  'empty': 'missing',
+  'unparseable': 'not a number',
+  'foreign-currency': 'foreign currency',
+  'range': 'range - using upper bound',
+  'multiple-amounts': 'several amounts - using the one marked $',
+  'words': 'written in words',
+  'shorthand': 'shorthand (k)',
+  'approximate': 'approximate',
+  'negative': 'negative',
+  'currency-code': 'currency code',
+};
+
+const FOREIGN_CURRENCY_PATTERN = /[€£¥₹]|\b(eur|euros?|gbp|pounds?|cad|aud|jpy|yen|cny|rmb|inr|mxn|pesos?)\b/i;
+const USD_PATTERN = /\b(usd|us\$|dollars?|bucks)\b/i;
+const APPROXIMATE_PATTERN = /~|\b(about|around|approx(imately)?|roughly|estimated?|est|up to|at most|or so)\b/i;
+const PARENTHESISED_PATTERN = /^\(.*\)$/;
+const LEADING_MINUS_PATTERN = /^[-−]\s*(us)?\$?\s*\d/i;
+
+// Numbers with optional thousands separators, decimals, and a "k" suffix (e.g., "1.5k")
+const NUMBER_PATTERN = /(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?(?:\s?(k)\b)?/gi;
+
+// A number written with a dollar sign (e.g., "$750", "US$ 1,200.50")
+const DOLLAR_AMOUNT_PATTERN = new RegExp(`\\$\\s*(?:${NUMBER_PATTERN.source})`, 'gi');
+
+// Two numbers joined by a dash or "to" (e.g., "1,200-1,500", "$200 to $300")
+const RANGE_PATTERN = /\d[\d,.]*\s?k?\s*(?:-|–|—|to)\s*(us)?\$?\s*\d/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+
+/**
+ * Round to cents
+ */
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Extract the numeric values from a string
+ * "1,200" → 1200, "1.5k" → 1500 (flagged as shorthand)
+ */
+function extractNumbers(text: string): { numbers: number[]; shorthand: boolean } {
+  const numbers: number[] = [];
+  let shorthand = false;
+
+  for (const match of text.matchAll(NUMBER_PATTERN)) {
+    const whole = match[1].replace(/,/g, '');
+    let value = parseFloat(whole + (match[2] || ''));
+    if (match[3]) {
+      value *= 1000;
+      shorthand = true;
+    }
+    if (!isNaN(value)) {
+      numbers.push(value);
+    }
+  }
+
+  return { numbers, shorthand };
+}
+
+/**
+ * Read a number written in words (e.g., "five hundred", "two thousand fifty")
+ * Returns null if the text contains no number words
+ */
+function parseNumberWords(text: string): number | null {
+  const tokens = text.toLowerCase().replace(/[^a-z\s-]/g, ' ').split(/[\s-]+/);
+
+  let total = 0;
+  let current = 0;
+  let found = false;
+
+  for (const token of tokens) {
+    if (token in NUMBER_WORDS) {
+      current += NUMBER_WORDS[token];
+      found = true;
+    } else if (token === 'hundred') {
+      current = (current || 1) * 100;
+      found = true;
+    } else if (token === 'thousand') {
+      total += (current || 1) * 1000;
+      current = 0;
+      found = true;
+    }
+  }
+
+  return found ? total + current : null;
+}
+
+/**
+ * Pick the most severe issue from a set of detected issues
+ */
+function pickIssue(issues: Set<AmountIssueCode>): AmountIssueCode | undefined {
+  return ISSUE_PRIORITY.find((issue) => issues.has(issue));
+}
+
+/**
+ * Parse a free-text currency amount
+ *
+ * Handles "$1,234.56", "about $500" (approximate), "1,200-1,500" (range, upper bound),
+ * "500 USD" (currency code), "€300" (foreign currency - amount kept as written),
+ * "($250)" / "-250" (negative), "five hundred dollars" (words) and "1.5k".
+ * Text with several numbers ("$750 for the 2026 conference") uses the one amount
+ * marked with "$"; if none or several are marked, the amount is left for manual entry.
+ *
+ * @param value - Raw amount text from the CSV
+ * @returns The interpreted amount with a confidence level and issue code
+ */
+export function parseCurrency(value: string | undefined | null): ParsedAmount {
+  const raw = typeof value === 'string' ? value.trim() : '';
+
+  if (!raw) {
+    return { value: 0, raw, confidence: 'missing', issue: 'empty' };
+  }
+
+  const issues = new Set<AmountIssueCode>();
+
+  let text = raw;
+  let negative = false;
+  if (PARENTHESISED_PATTERN.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  } else if (LEADING_MINUS_PATTERN.test(text)) {
+    negative = true;
+    text = text.replace(/^[-−]\s*/, '');
+  }
+  if (negative) {
+    issues.add('negative');
+  }
+
+  if (FOREIGN_CURRENCY_PATTERN.test(text)) {
+    issues.add('foreign-currency');
+  } else if (USD_PATTERN.test(text)) {
+    issues.add('currency-code');
+  }
+
+  if (APPROXIMATE_PATTERN.test(text)) {
+    issues.add('approximate');
+  }
+
+  const { numbers, shorthand } = extractNumbers(text);
+  if (shorthand) {
+    issues.add('shorthand');
+  }
+
+  let amount: number;
+
+  if (numbers.length === 0) {
+    const wordValue = parseNumberWords(text);
+    if (wordValue === null) {
+      return { value: 0, raw, confidence: 'missing', issue: 'unparseable' };
+    }
+    amount = wordValue;
+    issues.add('words');
+  } else if (numbers.length === 1) {
+    amount = numbers[0];
+  } else if (numbers.length === 2 && RANGE_PATTERN.test(text)) {
+    amount = Math.max(numbers[0], numbers[1]);
+    issues.add('range');
+  } else {
+    const dollarAmounts = text.match(DOLLAR_AMOUNT_PATTERN) ?? [];
+    if (dollarAmounts.length !== 1) {
+      return { value: 0, raw, confidence: 'missing', issue: 'multiple-amounts' };
+    }
+    amount = extractNumbers(dollarAmounts[0]).numbers[0];
+    issues.add('multiple-amounts');
+  }
+
+  const issue = pickIssue(issues);
+
+  return {
+    value: roundCents(negative ? -amount : amount),
+    raw,
+    confidence: issue ? ISSUE_CONFIDENCE[issue] : 'exact',
+    ...(issue && { issue }),
+  };
+}
+
+/**
+ * Format a number as USD currency (e.g., "$1,234.50")
+ */
+export function formatCurrency(amount: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(amount);
+}
@@ -0,0 +1,50 @@
+/**
+ * JSON data files kept between runs
+ *
+ * Registries learned from past masters are stored as JSON files in the data
+ * directory (`data/` in the project, or SGA_DATA_DIR if set). Server-side only.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Directory the data files are stored in
+ */
+export function getDataDirectory(): string {
+  return process.env.SGA_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+/**
+ * Read a JSON data file
+ *
+ * @param fileName - File name within the data directory (e.g., "account-registry.json")
+ * @returns The parsed contents, or null if the file doesn't exist yet
+ * @throws Error if the file exists but isn't valid JSON
+ */
+export async function readDataFile(fileName: string): Promise<unknown> {
+  let text: string;
+  try {
+    text = await readFile(path.join(getDataDirectory(), fileName), 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+}
+
+/**
+ * Write a JSON data file, creating the data directory if needed
+ */
+export async function writeDataFile(fileName: string, data: unknown): Promise<void> {
+  const directory = getDataDirectory();
+  await mkdir(directory, { recursive: true });
+  await writeFile(path.join(directory, fileName), JSON.stringify(data, null, 2) + '\n', 'utf-8');
+}
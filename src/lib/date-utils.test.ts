@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { calendarDate, getNextSundayISO, parseTimestamp, toISODate, weekDateToISO } from './date-utils';
+
+// 2026 DST changes in Eastern time:
+// - Spring forward: Sunday 3/8, 2:00 AM EST -> 3:00 AM EDT (07:00 UTC)
+// - Fall back: Sunday 11/1, 2:00 AM EDT -> 1:00 AM EST (06:00 UTC)
+
+describe('getNextSundayISO', () => {
+  it('returns the coming Sunday from a weekday', () => {
+    expect(getNextSundayISO(new Date('2026-01-19T15:00:00Z'))).toBe('2026-01-25');
+  });
+
+  it('returns the same day on a Sunday', () => {
+    expect(getNextSundayISO(new Date('2026-01-25T17:00:00Z'))).toBe('2026-01-25');
+  });
+
+  it('uses the Eastern day when UTC is already Sunday', () => {
+    // Saturday 11 PM EST
+    expect(getNextSundayISO(new Date('2026-01-25T04:00:00Z'))).toBe('2026-01-25');
+  });
+
+  it('uses the Eastern day late on Sunday night', () => {
+    // Sunday 11:30 PM EST (Monday in UTC)
+    expect(getNextSundayISO(new Date('2026-01-26T04:30:00Z'))).toBe('2026-01-25');
+  });
+
+  it('lands on the Sunday clocks spring forward', () => {
+    expect(getNextSundayISO(new Date('2026-03-02T15:00:00Z'))).toBe('2026-03-08');
+  });
+
+  it('lands on the Sunday clocks fall back', () => {
+    // Saturday 10:30 PM EDT
+    expect(getNextSundayISO(new Date('2026-11-01T02:30:00Z'))).toBe('2026-11-01');
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('reads CampusGroups timestamps as Eastern standard time in winter', () => {
+    expect(parseTimestamp('1/20/2026 1:37:28 PM')?.toISOString()).toBe('2026-01-20T18:37:28.000Z');
+    expect(parseTimestamp('1/20/26 13:37')?.toISOString()).toBe('2026-01-20T18:37:00.000Z');
+  });
+
+  it('reads CampusGroups timestamps as Eastern daylight time in summer', () => {
+    expect(parseTimestamp('6/15/2026 9:00 AM')?.toISOString()).toBe('2026-06-15T13:00:00.000Z');
+  });
+
+  it('uses the right offset on either side of spring forward', () => {
+    expect(parseTimestamp('3/8/2026 1:30 AM')?.toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(parseTimestamp('3/8/2026 3:30 AM')?.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(parseTimestamp('3/7/2026 11:59 PM')?.toISOString()).toBe('2026-03-08T04:59:00.000Z');
+    expect(parseTimestamp('3/9/2026 12:00 AM')?.toISOString()).toBe('2026-03-09T04:00:00.000Z');
+  });
+
+  it('uses the right offset on either side of fall back', () => {
+    expect(parseTimestamp('11/1/2026 12:30 AM')?.toISOString()).toBe('2026-11-01T04:30:00.000Z');
+    expect(parseTimestamp('11/1/2026 3:00 AM')?.toISOString()).toBe('2026-11-01T08:00:00.000Z');
+    expect(parseTimestamp('10/31/2026 11:59 PM')?.toISOString()).toBe('2026-11-01T03:59:00.000Z');
+    expect(parseTimestamp('11/2/2026 12:00 AM')?.toISOString()).toBe('2026-11-02T05:00:00.000Z');
+  });
+
+  it('reads ISO timestamps without an offset as Eastern time', () => {
+    expect(parseTimestamp('2026-07-04 10:00:00')?.toISOString()).toBe('2026-07-04T14:00:00.000Z');
+    expect(parseTimestamp('2026-01-20T13:37:28')?.toISOString()).toBe('2026-01-20T18:37:28.000Z');
+  });
+
+  it('keeps an explicit ISO offset', () => {
+    expect(parseTimestamp('2026-01-20T13:37:28Z')?.toISOString()).toBe('2026-01-20T13:37:28.000Z');
+    expect(parseTimestamp('2026-01-20T13:37:28-08:00')?.toISOString()).toBe('2026-01-20T21:37:28.000Z');
+  });
+
+  it('rejects blank and invalid timestamps', () => {
+    expect(parseTimestamp('')).toBeNull();
+    expect(parseTimestamp(undefined)).toBeNull();
+    expect(parseTimestamp('2/30/2026 9:00 AM')).toBeNull();
+    expect(parseTimestamp('1/20/2026 13:00 PM')).toBeNull();
+    expect(parseTimestamp('1/20/2026 9:60')).toBeNull();
+    expect(parseTimestamp('next Tuesday')).toBeNull();
+  });
+});
+
+describe('weekDateToISO', () => {
+  it('converts week header dates with a year', () => {
+    expect(weekDateToISO('1/25/26')).toBe('2026-01-25');
+    expect(weekDateToISO('11/1/2026')).toBe('2026-11-01');
+  });
+
+  it('uses the current Eastern year when the year is missing', () => {
+    expect(weekDateToISO('1/25', new Date('2026-06-01T12:00:00Z'))).toBe('2026-01-25');
+    // New Year's Eve at 11:30 PM EST is already 2027 in UTC
+    expect(weekDateToISO('1/25', new Date('2027-01-01T04:30:00Z'))).toBe('2026-01-25');
+  });
+
+  it('rejects dates that are not real or not M/D', () => {
+    expect(weekDateToISO('2/30/26')).toBeNull();
+    expect(weekDateToISO('13/1/26')).toBeNull();
+    expect(weekDateToISO('Week of 1/25/26')).toBeNull();
+  });
+});
+
+describe('calendarDate', () => {
+  it('is noon Eastern in winter and summer', () => {
+    expect(calendarDate(2026, 1, 25).toISOString()).toBe('2026-01-25T17:00:00.000Z');
+    expect(calendarDate(2026, 7, 4).toISOString()).toBe('2026-07-04T16:00:00.000Z');
+  });
+
+  it('is noon Eastern on DST change days', () => {
+    expect(calendarDate(2026, 3, 8).toISOString()).toBe('2026-03-08T16:00:00.000Z');
+    expect(calendarDate(2026, 11, 1).toISOString()).toBe('2026-11-01T17:00:00.000Z');
+  });
+
+  it('stays on the same calendar day', () => {
+    expect(toISODate(calendarDate(2026, 3, 8))).toBe('2026-03-08');
+    expect(toISODate(calendarDate(2026, 12, 31))).toBe('2026-12-31');
+  });
+});
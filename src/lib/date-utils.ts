@@ -1,40 +1,223 @@
 /**
  * Date utilities for SGA Finance Platform
- * Handles meeting date calculations
+ * Handles meeting date calculations and CampusGroups timestamps
+ *
+ * All dates are interpreted in Eastern time (America/New_York) regardless of
+ * where the code runs - CampusGroups exports wall-clock times without an offset,
+ * and meeting dates are calendar days on campus. Calendar dates (no time of day)
+ * are represented as noon Eastern so they never shift across a day boundary.
  */
 
+import type { SubmissionDeadline } from '@/types/budget-request';
+
+/**
+ * Time zone for CampusGroups timestamps and meeting dates
+ */
+export const SGA_TIME_ZONE = 'America/New_York';
+
+/**
+ * Calendar and clock components of a date in Eastern time
+ */
+export interface ZonedDateParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0-23 */
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday, 6 = Saturday */
+  weekday: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const zonedFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: SGA_TIME_ZONE,
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+  weekday: 'short',
+  hourCycle: 'h23',
+});
+
+// "1/20/2026 1:37:28 PM", "1/20/26 13:37", "1/20/2026"
+const US_TIMESTAMP_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?)?$/i;
+
+// "2026-01-20", "2026-01-20T13:37:28", "2026-01-20 13:37:28.000Z", "2026-01-20T13:37:28-05:00"
+const ISO_TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/i;
+
+// "M/D" or "M/D/YY" from "Week of X" headers
+const WEEK_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/;
+
+/**
+ * Get the Eastern-time components of a date
+ */
+export function getZonedParts(date: Date): ZonedDateParts {
+  const parts: Record<string, string> = {};
+  for (const part of zonedFormatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Offset of Eastern time from UTC at a given instant, in milliseconds
+ * (e.g., -5 hours in winter, -4 hours in summer)
+ */
+function getZoneOffsetMs(date: Date): number {
+  const parts = getZonedParts(date);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Check that year/month/day form a real calendar date (rejects 2/30, 13/1, etc.)
+ */
+function isValidCalendarDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+/**
+ * Expand a 2-digit year (26 → 2026)
+ */
+function expandYear(year: number): number {
+  return year < 100 ? year + 2000 : year;
+}
+
+/**
+ * Build a Date from an Eastern wall-clock time
+ *
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of month
+ * @returns Date for that moment in Eastern time
+ */
+export function zonedDateTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  const guess = wallClock - getZoneOffsetMs(new Date(wallClock));
+  // Recompute with the offset at the guessed instant in case it crosses a DST change
+  return new Date(wallClock - getZoneOffsetMs(new Date(guess)));
+}
+
+/**
+ * Build a Date for an Eastern calendar day (noon, so it never shifts a day)
+ *
+ * @param year - Full year
+ * @param month - Month (1-12)
+ * @param day - Day of month
+ * @returns Date at noon Eastern on that day
+ */
+export function calendarDate(year: number, month: number, day: number): Date {
+  return zonedDateTime(year, month, day, 12);
+}
+
+/**
+ * Build a calendar date, or null if the components aren't a real date
+ */
+function toCalendarDate(year: number, month: number, day: number): Date | null {
+  return isValidCalendarDate(year, month, day) ? calendarDate(year, month, day) : null;
+}
+
+/**
+ * Format a date as an ISO calendar date (YYYY-MM-DD) in Eastern time
+ *
+ * @param date - Date to format
+ * @returns ISO date string
+ */
+export function toISODate(date: Date): string {
+  const { year, month, day } = getZonedParts(date);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Get today's date in Eastern time as an ISO string (YYYY-MM-DD)
+ *
+ * @param now - Current time (defaults to the system clock)
+ * @returns ISO date string for today
+ */
+export function getTodayISO(now: Date = new Date()): string {
+  return toISODate(now);
+}
+
 /**
  * Get the next Sunday from a given date
- * If the given date is already Sunday, returns that same date
- * 
+ * If the given date is already Sunday (in Eastern time), returns that same date
+ *
  * @param fromDate - Starting date (defaults to today)
  * @returns Date object representing the next Sunday
  */
 export function getNextSunday(fromDate: Date = new Date()): Date {
-  const date = new Date(fromDate);
-  const dayOfWeek = date.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
-  
-  if (dayOfWeek === 0) {
-    // Already Sunday, return same date
-    return date;
-  }
-  
-  // Calculate days until next Sunday
-  const daysUntilSunday = 7 - dayOfWeek;
-  date.setDate(date.getDate() + daysUntilSunday);
-  
-  return date;
+  const { year, month, day, weekday } = getZonedParts(fromDate);
+
+  // Calculate days until next Sunday (0 if already Sunday)
+  const daysUntilSunday = (7 - weekday) % 7;
+  const sunday = new Date(Date.UTC(year, month - 1, day + daysUntilSunday));
+
+  return calendarDate(sunday.getUTCFullYear(), sunday.getUTCMonth() + 1, sunday.getUTCDate());
+}
+
+/**
+ * Get the submission deadline for a meeting
+ * The deadline falls on the last matching weekday strictly before the meeting day
+ * and includes the whole deadline minute (11:59 PM runs through 11:59:59 PM).
+ *
+ * @param meetingDate - Meeting date
+ * @param deadline - Deadline weekday and time (Eastern)
+ * @returns The last moment a submission counts as on time
+ */
+export function getSubmissionDeadline(meetingDate: Date, deadline: SubmissionDeadline): Date {
+  const { year, month, day, weekday } = getZonedParts(meetingDate);
+
+  // Days back from the meeting to the deadline weekday (a full week if they match)
+  const daysBefore = (weekday - deadline.weekday + 7) % 7 || 7;
+  const deadlineDay = new Date(Date.UTC(year, month - 1, day - daysBefore));
+
+  return zonedDateTime(
+    deadlineDay.getUTCFullYear(),
+    deadlineDay.getUTCMonth() + 1,
+    deadlineDay.getUTCDate(),
+    deadline.hour,
+    deadline.minute,
+    59
+  );
 }
 
 /**
  * Format a date as a readable meeting date string
  * Example: "Sunday, January 11, 2026"
- * 
+ *
  * @param date - Date to format
  * @returns Formatted date string
  */
 export function formatMeetingDate(date: Date): string {
   return date.toLocaleDateString('en-US', {
+    timeZone: SGA_TIME_ZONE,
     weekday: 'long',
     year: 'numeric',
     month: 'long',
@@ -45,60 +228,165 @@ export function formatMeetingDate(date: Date): string {
 /**
  * Format a date as a short meeting date string
  * Example: "1/11/26"
- * 
+ *
  * @param date - Date to format
  * @returns Short formatted date string
  */
 export function formatMeetingDateShort(date: Date): string {
   return date.toLocaleDateString('en-US', {
+    timeZone: SGA_TIME_ZONE,
     month: 'numeric',
     day: 'numeric',
     year: '2-digit',
   });
 }
 
+/**
+ * Format a submission timestamp for spreadsheet display
+ * Example: "1/20/26, 1:39 PM"
+ *
+ * @param date - Date (or serialized date string from a JSON request body)
+ * @returns Formatted timestamp, or an empty string if the date is invalid
+ */
+export function formatTimestamp(date: Date | string): string {
+  const value = new Date(date);
+  if (isNaN(value.getTime())) {
+    return '';
+  }
+
+  return value.toLocaleString('en-US', {
+    timeZone: SGA_TIME_ZONE,
+    month: 'numeric',
+    day: 'numeric',
+    year: '2-digit',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Parse a CampusGroups timestamp as Eastern time
+ * Supports "1/20/2026 1:37:28 PM", "1/20/26 13:37", "1/20/2026" and ISO strings.
+ * ISO strings with an explicit offset ("Z", "-05:00") keep that offset.
+ *
+ * @param value - Timestamp string to parse
+ * @returns Date object or null if the value is blank or not a valid timestamp
+ */
+export function parseTimestamp(value: string | undefined | null): Date | null {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  if (!trimmed) {
+    return null;
+  }
+
+  const usMatch = trimmed.match(US_TIMESTAMP_PATTERN);
+  if (usMatch) {
+    const [, monthStr, dayStr, yearStr, hourStr, minuteStr, secondStr, period] = usMatch;
+    const year = expandYear(parseInt(yearStr, 10));
+    const month = parseInt(monthStr, 10);
+    const day = parseInt(dayStr, 10);
+    let hour = hourStr ? parseInt(hourStr, 10) : 0;
+    const minute = minuteStr ? parseInt(minuteStr, 10) : 0;
+    const second = secondStr ? parseInt(secondStr, 10) : 0;
+
+    if (period) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (period.toUpperCase() === 'PM' ? 12 : 0);
+    }
+
+    if (!isValidCalendarDate(year, month, day) || hour > 23 || minute > 59 || second > 59) {
+      return null;
+    }
+
+    return zonedDateTime(year, month, day, hour, minute, second);
+  }
+
+  const isoMatch = trimmed.match(ISO_TIMESTAMP_PATTERN);
+  if (isoMatch) {
+    const [, yearStr, monthStr, dayStr, hourStr, minuteStr, secondStr, offset] = isoMatch;
+    const year = parseInt(yearStr, 10);
+    const month = parseInt(monthStr, 10);
+    const day = parseInt(dayStr, 10);
+
+    if (!isValidCalendarDate(year, month, day)) {
+      return null;
+    }
+
+    if (offset) {
+      const parsed = new Date(trimmed.replace(' ', 'T'));
+      return isNaN(parsed.getTime()) ? null : parsed;
+    }
+
+    const hour = hourStr ? parseInt(hourStr, 10) : 0;
+    const minute = minuteStr ? parseInt(minuteStr, 10) : 0;
+    const second = secondStr ? parseInt(secondStr, 10) : 0;
+    if (hour > 23 || minute > 59 || second > 59) {
+      return null;
+    }
+
+    return zonedDateTime(year, month, day, hour, minute, second);
+  }
+
+  return null;
+}
+
 /**
  * Parse a date string in various formats
- * Supports ISO format and common US formats
- * 
+ * Supports ISO format and common US formats. Plain calendar dates
+ * ("2026-01-11", "1/11/2026") become noon Eastern on that day.
+ *
  * @param dateString - Date string to parse
  * @returns Date object or null if parsing fails
  */
 export function parseDateString(dateString: string): Date | null {
-  // Try ISO format first
-  const isoDate = new Date(dateString);
-  if (!isNaN(isoDate.getTime())) {
-    return isoDate;
+  const trimmed = dateString.trim();
+
+  // Calendar dates without a time of day
+  const isoDate = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoDate) {
+    return toCalendarDate(parseInt(isoDate[1], 10), parseInt(isoDate[2], 10), parseInt(isoDate[3], 10));
   }
-  
-  // Try MM/DD/YYYY format
-  const parts = dateString.split('/');
-  if (parts.length === 3) {
-    const month = parseInt(parts[0], 10) - 1; // Months are 0-indexed
-    const day = parseInt(parts[1], 10);
-    let year = parseInt(parts[2], 10);
-    
-    // Handle 2-digit years
-    if (year < 100) {
-      year += 2000;
-    }
-    
-    const date = new Date(year, month, day);
-    if (!isNaN(date.getTime())) {
-      return date;
-    }
+
+  const usDate = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (usDate) {
+    return toCalendarDate(expandYear(parseInt(usDate[3], 10)), parseInt(usDate[1], 10), parseInt(usDate[2], 10));
   }
-  
-  return null;
+
+  // Full timestamps
+  return parseTimestamp(trimmed);
+}
+
+/**
+ * Convert a "Week of X" date ("M/D" or "M/D/YY") to an ISO string (YYYY-MM-DD)
+ * Assumes the current Eastern year if not specified
+ *
+ * @param dateStr - Date from the week header
+ * @param now - Current time, used for the default year (defaults to the system clock)
+ * @returns ISO date string, or null if the date is not valid
+ */
+export function weekDateToISO(dateStr: string, now: Date = new Date()): string | null {
+  const match = dateStr.trim().match(WEEK_DATE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const month = parseInt(match[1], 10);
+  const day = parseInt(match[2], 10);
+  const year = match[3] ? expandYear(parseInt(match[3], 10)) : getZonedParts(now).year;
+
+  if (!isValidCalendarDate(year, month, day)) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 }
 
 /**
  * Get the suggested next meeting date as an ISO string (YYYY-MM-DD)
  * Useful for date input default values
- * 
+ *
+ * @param now - Current time (defaults to the system clock)
  * @returns ISO date string for next Sunday
  */
-export function getNextSundayISO(): string {
-  const nextSunday = getNextSunday();
-  return nextSunday.toISOString().split('T')[0];
+export function getNextSundayISO(now: Date = new Date()): string {
+  return toISODate(getNextSunday(now));
 }
@@ -0,0 +1,192 @@
+/**
+ * Near-duplicate request detection
+ *
+ * Organizations sometimes submit the same AFR twice, or resubmit a denied one
+ * under a slightly different name. Each uploaded request is compared with the
+ * other requests in the upload and with every row already in the master
+ * spreadsheet, scoring organization, amount, and description similarity.
+ */
+
+import type { BudgetRequest, DuplicateCandidate, DuplicateMatch } from '@/types/budget-request';
+import type { ParsedWeek, SpreadsheetRow } from '@/types/presentation-request';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { SUBMITTER_NOT_ON_ROSTER_NOTE } from '@/constants/officer-roster';
+import { formatCurrency } from './currency-parser';
+import { normalizeOrgName } from './org-numbering';
+import { formatSimilarity, similarity } from './string-similarity';
+import { createIssue } from './validation-issues';
+
+/**
+ * Minimum weighted score reported as a likely duplicate
+ */
+export const DUPLICATE_THRESHOLD = 0.8;
+
+/**
+ * Organizations must be at least this similar before amounts and descriptions are compared
+ */
+const ORG_MATCH_THRESHOLD = 0.75;
+
+const WEIGHTS = {
+  organization: 0.4,
+  amount: 0.3,
+  description: 0.3,
+};
+
+/**
+ * Prefixes the merger adds to the Notes column ahead of the description
+ */
+const NOTES_PREFIX_PATTERN =
+  /^(Auto-Approve|Budget Review|Sunday Meeting|Pre-Approved|Deferred from [^:]+|Route exceeds limit \([^)]*\)):\s*/i;
+
+/**
+ * Score how close two amounts are (1 when equal, 0 when one is zero and the other isn't)
+ */
+function amountSimilarity(a: number, b: number): number {
+  const larger = Math.max(Math.abs(a), Math.abs(b));
+  if (larger === 0) return 1;
+  return Math.max(0, 1 - Math.abs(a - b) / larger);
+}
+
+/**
+ * Score description similarity - a blank description (e.g., an empty Notes cell) counts as neutral
+ */
+function descriptionSimilarity(a: string, b: string): number {
+  if (!a.trim() || !b.trim()) return 0.5;
+  return similarity(a, b);
+}
+
+/**
+ * Compare a request with an earlier request or master row
+ * Returns null when the organizations are too different to be the same request
+ */
+function scoreCandidate(request: BudgetRequest, candidate: DuplicateCandidate): DuplicateMatch | null {
+  const candidateOrg = candidate.unnumberedOrganizationName ?? candidate.organizationName;
+  const organization = similarity(normalizeOrgName(request.organizationName), normalizeOrgName(candidateOrg));
+  if (organization < ORG_MATCH_THRESHOLD) {
+    return null;
+  }
+
+  const scores = {
+    organization,
+    amount: amountSimilarity(request.amount, candidate.amount),
+    description: descriptionSimilarity(request.description, candidate.description),
+  };
+  const score =
+    scores.organization * WEIGHTS.organization +
+    scores.amount * WEIGHTS.amount +
+    scores.description * WEIGHTS.description;
+
+  return {
+    submissionId: request.submissionId,
+    organizationName: request.organizationName,
+    amount: request.amount,
+    candidate,
+    score,
+    scores,
+  };
+}
+
+/**
+ * Convert a master spreadsheet row into a duplicate candidate
+ */
+function masterCandidate(row: SpreadsheetRow, weekDate: string): DuplicateCandidate {
+  return {
+    source: 'master',
+    organizationName: row.organization,
+    unnumberedOrganizationName: row.organizationName,
+    amount: row.requestedAmount,
+    description: row.notes.replace(`[${SUBMITTER_NOT_ON_ROSTER_NOTE}]`, '').trim().replace(NOTES_PREFIX_PATTERN, ''),
+    weekDate,
+    status: row.status,
+  };
+}
+
+/**
+ * Find likely duplicates of uploaded requests
+ *
+ * Requests are compared with earlier submissions in the same upload and with
+ * master rows of the same request type.
+ *
+ * @param requests - Uploaded requests about to be merged
+ * @param masterWeeks - Weeks already in the master spreadsheet (from parseWeeklySpreadsheet)
+ * @param threshold - Minimum weighted score to report
+ * @returns Likely duplicates, most similar first
+ */
+export function findDuplicates(
+  requests: BudgetRequest[],
+  masterWeeks: ParsedWeek[] = [],
+  threshold: number = DUPLICATE_THRESHOLD
+): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  const bySubmission = [...requests].sort((a, b) => a.submittedOn.getTime() - b.submittedOn.getTime());
+
+  bySubmission.forEach((request, index) => {
+    // Earlier submissions in this upload
+    for (const earlier of bySubmission.slice(0, index)) {
+      if (earlier.requestType !== request.requestType) continue;
+
+      const match = scoreCandidate(request, {
+        source: 'upload',
+        organizationName: earlier.organizationName,
+        amount: earlier.amount,
+        description: earlier.description,
+        submissionId: earlier.submissionId,
+      });
+      if (match && match.score >= threshold) {
+        matches.push(match);
+      }
+    }
+
+    // Rows already in the master
+    for (const week of masterWeeks) {
+      const rows = request.requestType === 'AFR' ? week.afrRequests : week.reallocationRequests;
+      for (const row of rows) {
+        const match = scoreCandidate(request, masterCandidate(row, week.date));
+        if (match && match.score >= threshold) {
+          matches.push(match);
+        }
+      }
+    }
+  });
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Format a duplicate match for display
+ * Example: "#82327 (SGA, $551.00) looks like a duplicate of SGA (#1) ($551.00, week of 1/25/26, Denied) - 92% similar"
+ */
+export function formatDuplicateMatch(match: DuplicateMatch): string {
+  const { candidate } = match;
+  let target: string;
+  let details: string[];
+
+  if (candidate.source === 'master') {
+    target = candidate.organizationName;
+    details = [formatCurrency(candidate.amount), `week of ${candidate.weekDate}`];
+    if (candidate.status) {
+      details.push(candidate.status);
+    }
+  } else {
+    target = `#${candidate.submissionId} in this upload`;
+    details = [candidate.organizationName, formatCurrency(candidate.amount)];
+  }
+
+  return (
+    `#${match.submissionId} (${match.organizationName}, ${formatCurrency(match.amount)}) looks like a duplicate of ` +
+    `${target} (${details.join(', ')}) - ${formatSimilarity(match.score)} similar`
+  );
+}
+
+/**
+ * Build the validation issue for a duplicate match
+ */
+export function createDuplicateIssue(match: DuplicateMatch): ValidationIssue {
+  return createIssue('possible-duplicate', 'warning', formatDuplicateMatch(match), {
+    submissionId: match.submissionId,
+    field: 'organizationName',
+    suggestedFix: match.candidate.source === 'master'
+      ? 'Check whether this request was already heard before adding it again.'
+      : 'Ask the organization which submission to keep.',
+  });
+}
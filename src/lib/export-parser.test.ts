@@ -0,0 +1,18 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseExportFiles } from './export-parser';
+
+describe('parseExportFiles', () => {
+  it('names the source file on issues raised after the exports are combined', async () => {
+    const files = [
+      new File([readFileSync('pending.csv')], 'pending.csv'),
+      new File([readFileSync('test-data/Survey Answers SGA (1).csv')], 'survey.csv'),
+    ];
+    const { requests, issues } = await parseExportFiles(files);
+
+    expect(new Set(requests.map((request) => request.sourceFile))).toEqual(new Set(['pending.csv', 'survey.csv']));
+    const rowIssues = issues.filter((issue) => issue.row !== undefined);
+    expect(rowIssues.length).toBeGreaterThan(0);
+    expect(rowIssues.every((issue) => issue.file === 'pending.csv' || issue.file === 'survey.csv')).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * CampusGroups export file parser
+ *
+ * Single entry point for uploaded exports - dispatches to the CSV or .xlsx
+ * parser based on the file name so API routes accept either format, and
+ * combines several exports into one result.
+ */
+
+import type { ColumnProfileMatch } from '@/types/column-profile';
+import type { CSVParseResult } from '@/types/budget-request';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { parseCSV, type ParseCSVOptions } from './csv-parser';
+import { detectCSVType, validateCSV } from './csv-validator';
+import { parseCampusGroupsXLSX } from './export-xlsx-parser';
+import { formatSubmissionConflict, unionBySubmissionId, type ExportSource } from './submission-union';
+import { createIssue, getErrorMessages, getWarningMessages } from './validation-issues';
+
+/**
+ * Check if a file name is an Excel export
+ */
+export function isExcelExport(fileName: string): boolean {
+  return fileName.toLowerCase().endsWith('.xlsx');
+}
+
+/**
+ * Check if a file is a supported CampusGroups export (.csv or .xlsx)
+ */
+export function isSupportedExport(file: File): boolean {
+  return isExcelExport(file.name) || file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+}
+
+/**
+ * Parse an uploaded CampusGroups export (.csv or .xlsx)
+ *
+ * @param file - The uploaded export file
+ * @param options - Parse options passed through to the CSV parser
+ * @returns CSVParseResult with parsed requests, type detection, and any warnings/errors
+ */
+export async function parseExportFile(
+  file: File,
+  options: ParseCSVOptions = {}
+): Promise<CSVParseResult> {
+  if (isExcelExport(file.name)) {
+    const buffer = await file.arrayBuffer();
+    return parseCampusGroupsXLSX(buffer, options);
+  }
+
+  const text = await file.text();
+  return parseCSV(text, options);
+}
+
+/**
+ * Parse several uploaded exports and combine them by submission ID
+ * Warnings and errors are prefixed with the file they came from, and each request
+ * records its file in `sourceFile` so later issues about it can name the file too.
+ * When the same submission appears in more than one file, the most recently updated
+ * copy is kept and differing fields are reported in `conflicts`.
+ *
+ * @param files - The uploaded export files
+ * @param options - Parse options passed through to the CSV parser
+ * @returns CSVParseResult for the combined requests
+ */
+export async function parseExportFiles(
+  files: File[],
+  options: ParseCSVOptions = {}
+): Promise<CSVParseResult> {
+  if (files.length === 1) {
+    return parseExportFile(files[0], options);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const sources: ExportSource[] = [];
+  let profile: ColumnProfileMatch | undefined;
+
+  // Parse each file without validation - the union is validated once below
+  for (const file of files) {
+    const result = await parseExportFile(file, { ...options, validate: false });
+    issues.push(...result.issues.map((issue) => ({
+      ...issue,
+      message: `${file.name}: ${issue.message}`,
+      file: file.name,
+    })));
+    sources.push({
+      fileName: file.name,
+      requests: result.requests.map((request) => ({ ...request, sourceFile: file.name })),
+    });
+    profile = profile ?? result.profile;
+  }
+
+  if (issues.some((issue) => issue.severity === 'error')) {
+    return {
+      type: 'unknown',
+      requests: [],
+      warnings: getWarningMessages(issues),
+      errors: getErrorMessages(issues),
+      issues,
+      profile,
+    };
+  }
+
+  const { requests, conflicts, duplicateCount } = unionBySubmissionId(sources);
+
+  if (duplicateCount > 0) {
+    issues.push(createIssue(
+      'duplicate-submission',
+      'info',
+      `${duplicateCount} submission(s) appeared in more than one file - the most recently updated copy was kept.`
+    ));
+  }
+  for (const conflict of conflicts) {
+    issues.push(createIssue('submission-conflict', 'warning', formatSubmissionConflict(conflict), {
+      submissionId: conflict.submissionId,
+      field: conflict.field,
+      file: conflict.keptFile,
+      suggestedFix: 'Confirm which version the organization intended.',
+    }));
+  }
+
+  const validation = options.validate === false
+    ? { type: detectCSVType(requests), issues: [] }
+    : validateCSV(requests);
+  const allIssues = [...issues, ...validation.issues];
+
+  return {
+    type: validation.type,
+    requests,
+    warnings: getWarningMessages(allIssues),
+    errors: getErrorMessages(allIssues),
+    issues: allIssues,
+    profile,
+    conflicts,
+  };
+}
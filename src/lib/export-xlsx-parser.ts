@@ -0,0 +1,156 @@
+/**
+ * Excel Parser for CampusGroups budget request exports
+ *
+ * CampusGroups can export reports as .xlsx as well as .csv. This reads the first
+ * worksheet into the same header-keyed row records Papa Parse produces, then hands
+ * them to the CSV parser so both formats yield identical CSVParseResults.
+ */
+
+import * as ExcelJS from 'exceljs';
+import type { CSVParseResult } from '@/types/budget-request';
+import { parseExportRows, type ParseCSVOptions } from './csv-parser';
+import { createIssue } from './validation-issues';
+import { getCellText } from './master-worksheets';
+
+/**
+ * Pattern identifying the header row (CampusGroups always includes "Submission Id")
+ */
+const HEADER_ROW_PATTERN = /^submission\s*id$/i;
+
+/**
+ * Format an Excel date the way CampusGroups writes timestamps in CSV exports
+ * Example: "1/20/2026 1:37:28 PM"
+ *
+ * ExcelJS returns date cells as UTC dates holding the wall-clock time,
+ * so UTC components are used to reproduce the original text.
+ */
+function formatExportDate(date: Date): string {
+  const hours = date.getUTCHours();
+  const hour12 = hours % 12 === 0 ? 12 : hours % 12;
+  const minutes = String(date.getUTCMinutes()).padStart(2, '0');
+  const seconds = String(date.getUTCSeconds()).padStart(2, '0');
+  const period = hours < 12 ? 'AM' : 'PM';
+
+  return `${date.getUTCMonth() + 1}/${date.getUTCDate()}/${date.getUTCFullYear()} ${hour12}:${minutes}:${seconds} ${period}`;
+}
+
+/**
+ * Convert a cell value to the string a CSV export would contain
+ * Dates are written the way CampusGroups writes them; everything else reads as text.
+ */
+function getExportCellText(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  if (value instanceof Date) return formatExportDate(value);
+  if (value && typeof value === 'object' && 'result' in value && value.result instanceof Date) {
+    return formatExportDate(value.result);
+  }
+  return getCellText(cell);
+}
+
+/**
+ * Build header names, renaming duplicates the way Papa Parse does
+ * The second "Finance Review" column becomes "Finance Review_1"
+ */
+function buildHeaders(row: ExcelJS.Row, columnCount: number): string[] {
+  const headers: string[] = [];
+  const counts = new Map<string, number>();
+
+  for (let col = 1; col <= columnCount; col++) {
+    const header = getExportCellText(row.getCell(col)).trim();
+    const count = counts.get(header);
+
+    if (count === undefined) {
+      counts.set(header, 1);
+      headers.push(header);
+    } else {
+      counts.set(header, count + 1);
+      headers.push(`${header}_${count}`);
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * Find the header row - the first row with a "Submission Id" cell, else row 1
+ */
+function findHeaderRow(worksheet: ExcelJS.Worksheet): number {
+  let headerRow: number | null = null;
+
+  worksheet.eachRow((row, rowNumber) => {
+    if (headerRow !== null) return;
+    row.eachCell((cell) => {
+      if (headerRow === null && HEADER_ROW_PATTERN.test(getExportCellText(cell).trim())) {
+        headerRow = rowNumber;
+      }
+    });
+  });
+
+  return headerRow ?? 1;
+}
+
+/**
+ * Parse a CampusGroups .xlsx export into BudgetRequest objects
+ *
+ * @param buffer - ArrayBuffer containing the .xlsx export
+ * @param options - Parse options passed through to the CSV parser
+ * @returns CSVParseResult with parsed requests, type detection, and any warnings/errors
+ */
+export async function parseCampusGroupsXLSX(
+  buffer: ArrayBuffer,
+  options: ParseCSVOptions = {}
+): Promise<CSVParseResult> {
+  try {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer);
+
+    const worksheet = workbook.getWorksheet(1);
+    if (!worksheet || worksheet.rowCount === 0) {
+      const message = 'Excel export is empty';
+      return {
+        type: 'unknown',
+        requests: [],
+        warnings: [],
+        errors: [message],
+        issues: [createIssue('empty-file', 'error', message)],
+      };
+    }
+
+    const headerRowNumber = findHeaderRow(worksheet);
+    const columnCount = worksheet.getRow(headerRowNumber).cellCount;
+    const headers = buildHeaders(worksheet.getRow(headerRowNumber), columnCount);
+
+    // Build row records keyed by header, skipping empty rows (like skipEmptyLines)
+    const rows: Record<string, string>[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber <= headerRowNumber) return;
+
+      const record: Record<string, string> = {};
+      let hasContent = false;
+
+      headers.forEach((header, index) => {
+        const text = getExportCellText(row.getCell(index + 1));
+        record[header] = text;
+        if (text.trim()) {
+          hasContent = true;
+        }
+      });
+
+      if (hasContent) {
+        rows.push(record);
+      }
+    });
+
+    return parseExportRows(headers, rows, options);
+
+  } catch (error) {
+    const message = `Failed to read Excel export: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    return {
+      type: 'unknown',
+      requests: [],
+      warnings: [],
+      errors: [message],
+      issues: [createIssue('file-read-error', 'error', message)],
+    };
+  }
+}
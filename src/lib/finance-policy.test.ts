@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { BudgetRequest } from '@/types/budget-request';
+import { validateCSV } from './csv-validator';
+import { getFinancePolicy } from './finance-policy';
+
+function makeRequest(submittedOn: Date): BudgetRequest {
+  return {
+    submissionId: '1',
+    organizationName: 'SGA',
+    requestType: 'AFR',
+    amount: 100,
+    description: 'Speaker fee',
+    approvalStatus: 'Pending Approval',
+    financeRoute: 'Sunday Meeting',
+    accountNumber: '1234567',
+    submittedOn,
+    submitterName: 'Test Submitter',
+    submitterEmail: 'test@example.edu',
+  };
+}
+
+describe('getFinancePolicy', () => {
+  it('covers the fall 2026 semester', () => {
+    expect(getFinancePolicy(new Date('2026-10-18T15:00:00Z'))?.id).toBe('fall-2026');
+  });
+
+  it('returns null outside every shipped semester', () => {
+    expect(getFinancePolicy(new Date('2030-03-01T15:00:00Z'))).toBeNull();
+  });
+});
+
+describe('validateCSV policy lookup', () => {
+  it('warns when no policy covers the submission date', () => {
+    const { issues } = validateCSV([makeRequest(new Date('2030-03-01T15:00:00Z'))]);
+    expect(issues.map((issue) => issue.code)).toContain('policy-missing');
+  });
+
+  it('does not warn when the caller turns policy rules off', () => {
+    const { issues } = validateCSV([makeRequest(new Date('2030-03-01T15:00:00Z'))], { policy: null });
+    expect(issues.map((issue) => issue.code)).not.toContain('policy-missing');
+  });
+});
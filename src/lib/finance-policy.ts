@@ -0,0 +1,162 @@
+/**
+ * Semester finance policies
+ *
+ * Each semester's policy file (src/constants/finance-policies/*.json) turns
+ * validation rules on or off and sets their limits. The policy in effect is
+ * chosen by meeting date, so switching semesters only needs a new JSON file
+ * listed below.
+ */
+
+import type { BudgetRequest, RouteLimits } from '@/types/budget-request';
+import type { FinancePolicy, RuleSetting, ValidationRule } from '@/types/validation-rule';
+import type { IssueSeverity } from '@/types/validation-issue';
+import fall2025 from '@/constants/finance-policies/fall-2025.json';
+import spring2026 from '@/constants/finance-policies/spring-2026.json';
+import fall2026 from '@/constants/finance-policies/fall-2026.json';
+import { toISODate } from './date-utils';
+import { isFinanceRoute } from './route-limits';
+import { isRecord } from './json-values';
+import { getRule } from './validation-rules';
+
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info'];
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Check that a policy parameter has the same type as the rule's default
+ */
+function matchesParamType(value: unknown, defaultValue: unknown): boolean {
+  if (Array.isArray(defaultValue)) {
+    return Array.isArray(value) && value.every((item) => typeof item === 'string');
+  }
+  return typeof value === typeof defaultValue;
+}
+
+/**
+ * Validate one rule's settings from a policy file
+ */
+function parseRuleSetting(rule: ValidationRule, value: unknown, source: string): RuleSetting {
+  const ruleId = rule.id;
+  if (!isRecord(value) || typeof value.enabled !== 'boolean') {
+    throw new Error(`${source}: Rule "${ruleId}" must have an "enabled" true/false setting`);
+  }
+
+  const setting: RuleSetting = { enabled: value.enabled };
+
+  if (value.severity !== undefined) {
+    if (!SEVERITIES.includes(value.severity as IssueSeverity)) {
+      throw new Error(`${source}: Rule "${ruleId}" severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    setting.severity = value.severity as IssueSeverity;
+  }
+
+  if (value.params !== undefined) {
+    if (!isRecord(value.params)) {
+      throw new Error(`${source}: Rule "${ruleId}" params must be an object`);
+    }
+    for (const [name, param] of Object.entries(value.params)) {
+      if (!(name in rule.defaultParams)) {
+        throw new Error(`${source}: Rule "${ruleId}" has no parameter "${name}"`);
+      }
+      if (!matchesParamType(param, rule.defaultParams[name])) {
+        throw new Error(`${source}: Rule "${ruleId}" parameter "${name}" has the wrong type`);
+      }
+    }
+    setting.params = value.params as RuleSetting['params'];
+  }
+
+  return setting;
+}
+
+/**
+ * Validate the route limits from a policy file
+ */
+function parseRouteLimits(value: unknown, source: string): RouteLimits {
+  if (!isRecord(value)) {
+    throw new Error(`${source}: "routeLimits" must be an object`);
+  }
+
+  const limits: RouteLimits = {};
+  for (const [route, limit] of Object.entries(value)) {
+    if (!isFinanceRoute(route)) {
+      throw new Error(`${source}: Unknown finance route "${route}" in "routeLimits"`);
+    }
+    if (typeof limit !== 'number' || limit < 0) {
+      throw new Error(`${source}: Limit for "${route}" must be a non-negative number`);
+    }
+    limits[route] = limit;
+  }
+
+  return limits;
+}
+
+/**
+ * Validate a policy file's contents
+ *
+ * @param data - Parsed JSON from a policy file
+ * @param source - Name used in error messages (e.g., the file name)
+ * @returns The validated policy
+ * @throws Error describing the first problem found
+ */
+export function parseFinancePolicy(data: unknown, source: string = 'Finance policy'): FinancePolicy {
+  if (!isRecord(data)) {
+    throw new Error(`${source}: Policy must be a JSON object`);
+  }
+
+  const { id, semester, startDate, endDate, rules, routeLimits } = data;
+  if (typeof id !== 'string' || typeof semester !== 'string') {
+    throw new Error(`${source}: Policy needs an "id" and "semester"`);
+  }
+  if (typeof startDate !== 'string' || !ISO_DATE_PATTERN.test(startDate) ||
+      typeof endDate !== 'string' || !ISO_DATE_PATTERN.test(endDate)) {
+    throw new Error(`${source}: "startDate" and "endDate" must be dates like "2026-01-01"`);
+  }
+  if (!isRecord(rules)) {
+    throw new Error(`${source}: Policy needs a "rules" object`);
+  }
+
+  const policy: FinancePolicy = { id, semester, startDate, endDate, rules: {} };
+  for (const [ruleId, setting] of Object.entries(rules)) {
+    const rule = getRule(ruleId);
+    if (!rule) {
+      throw new Error(`${source}: Unknown rule "${ruleId}"`);
+    }
+    policy.rules[rule.id] = parseRuleSetting(rule, setting, source);
+  }
+
+  if (routeLimits !== undefined) {
+    policy.routeLimits = parseRouteLimits(routeLimits, source);
+  }
+
+  return policy;
+}
+
+/**
+ * All semester policies shipped with the app
+ */
+export const FINANCE_POLICIES: FinancePolicy[] = [
+  parseFinancePolicy(fall2025, 'fall-2025.json'),
+  parseFinancePolicy(spring2026, 'spring-2026.json'),
+  parseFinancePolicy(fall2026, 'fall-2026.json'),
+];
+
+/**
+ * Get the policy in effect on a date (Eastern time)
+ * Returns null if no semester covers the date - policy rules are then skipped
+ * and the validators report a 'policy-missing' warning.
+ */
+export function getFinancePolicy(date: Date = new Date()): FinancePolicy | null {
+  const isoDate = toISODate(date);
+  return FINANCE_POLICIES.find((policy) => policy.startDate <= isoDate && isoDate <= policy.endDate) ?? null;
+}
+
+/**
+ * Get the policy in effect when a batch of requests was submitted
+ * Uses the most recent submission date, falling back to today.
+ */
+export function getFinancePolicyForRequests(requests: BudgetRequest[]): FinancePolicy | null {
+  const latest = requests.reduce<Date | null>(
+    (max, request) => (!max || request.submittedOn > max ? request.submittedOn : max),
+    null
+  );
+  return getFinancePolicy(latest ?? new Date());
+}
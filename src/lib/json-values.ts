@@ -0,0 +1,12 @@
+/**
+ * Type guards for parsed JSON
+ *
+ * Shared by the validators for form fields, policy files, and saved registries.
+ */
+
+/**
+ * Check whether a value is a plain JSON object (not null or an array)
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
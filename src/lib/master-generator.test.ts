@@ -0,0 +1,28 @@
+import * as ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { AFR_COLUMN_INDICES, COLUMN_HEADER_ROW, generateMasterSpreadsheet, REALLOCATION_COLUMN_INDICES } from './master-generator';
+
+async function readMaster(): Promise<ExcelJS.Workbook> {
+  const buffer = await generateMasterSpreadsheet({ semesterName: 'Spring 2026', startingBudget: 10000 });
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(new Uint8Array(buffer).slice().buffer as ArrayBuffer);
+  return workbook;
+}
+
+describe('generateMasterSpreadsheet', () => {
+  it('puts the lifecycle, Category and Submission Id headers at the shared column indices', async () => {
+    const workbook = await readMaster();
+    const sheets: [string, typeof AFR_COLUMN_INDICES | typeof REALLOCATION_COLUMN_INDICES][] = [
+      ['AFR Requests', AFR_COLUMN_INDICES],
+      ['Reallocation Requests', REALLOCATION_COLUMN_INDICES],
+    ];
+
+    for (const [name, indices] of sheets) {
+      const headers = workbook.getWorksheet(name)!.getRow(COLUMN_HEADER_ROW);
+      expect(headers.getCell(indices.submittedOn).value).toBe('Submitted On');
+      expect(headers.getCell(indices.approvalMessage).value).toBe('Approval Message');
+      expect(headers.getCell(indices.category).value).toBe('Category');
+      expect(headers.getCell(indices.submissionId).value).toBe('Submission Id');
+    }
+  });
+});
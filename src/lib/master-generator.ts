@@ -5,6 +5,19 @@
  */
 
 import * as ExcelJS from 'exceljs';
+import { stampMasterSchema } from '@/lib/master-schema';
+import {
+  AFR_CATEGORY_COLUMN,
+  AFR_DESCRIPTION_COLUMN,
+  AFR_LIFECYCLE_COLUMN,
+  AFR_SUBMISSION_ID_COLUMN,
+  getLifecycleColumn,
+  LIFECYCLE_COLUMNS,
+  REALLOCATION_CATEGORY_COLUMN,
+  REALLOCATION_DESCRIPTION_COLUMN,
+  REALLOCATION_LIFECYCLE_COLUMN,
+  REALLOCATION_SUBMISSION_ID_COLUMN,
+} from '@/constants/master-columns';
 
 /**
  * Options for generating a master spreadsheet
@@ -39,6 +52,11 @@ const AFR_COLUMNS = [
   { header: 'Name of Org', key: 'nameOfOrg', width: 30 },
   { header: 'Entered in KFS?', key: 'enteredInKFS', width: 15 },
   { header: 'Account Number', key: 'accountNumber', width: 18 },
+  { header: 'Supporting Docs', key: 'supportingDocs', width: 18 },
+  ...LIFECYCLE_COLUMNS,
+  { header: 'Category', key: 'category', width: 16 },
+  { header: 'Submission Id', key: 'submissionId', width: 14 }, // Hidden
+  { header: 'Export Description', key: 'exportDescription', width: 30 }, // Hidden
 ];
 
 /**
@@ -52,6 +70,11 @@ const REALLOCATION_COLUMNS = [
   { header: 'Approved Amount', key: 'approvedAmount', width: 18 },
   { header: 'Status', key: 'status', width: 12 },
   { header: 'Account Number', key: 'accountNumber', width: 18 },
+  { header: 'Supporting Docs', key: 'supportingDocs', width: 18 },
+  ...LIFECYCLE_COLUMNS,
+  { header: 'Category', key: 'category', width: 16 },
+  { header: 'Submission Id', key: 'submissionId', width: 14 }, // Hidden
+  { header: 'Export Description', key: 'exportDescription', width: 30 }, // Hidden
 ];
 
 /**
@@ -154,6 +177,8 @@ function createAFRSheet(
     width: col.width,
     key: col.key,
   }));
+  worksheet.getColumn(AFR_COLUMN_INDICES.submissionId).hidden = true;
+  worksheet.getColumn(AFR_COLUMN_INDICES.exportDescription).hidden = true;
 
   // Row 1: Title header with semester name and starting budget
   const titleRow = worksheet.addRow([]);
@@ -220,6 +245,8 @@ function createReallocationSheet(
     width: col.width,
     key: col.key,
   }));
+  worksheet.getColumn(REALLOCATION_COLUMN_INDICES.submissionId).hidden = true;
+  worksheet.getColumn(REALLOCATION_COLUMN_INDICES.exportDescription).hidden = true;
 
   // Row 1: Title header with semester name
   const titleRow = worksheet.addRow([]);
@@ -262,6 +289,8 @@ function createReallocationSheet(
  * - AFR Requests: Tracks Additional Funding Requests with budget pool
  * - Reallocation Requests: Tracks reallocation requests (no budget pool)
  *
+ * The workbook is stamped with the current schema version (see master-schema.ts).
+ *
  * @param options - Configuration options for the master spreadsheet
  * @returns Promise resolving to a Buffer containing the .xlsx file
  */
@@ -272,6 +301,7 @@ export async function generateMasterSpreadsheet(
   workbook.creator = 'SGA Finance Platform';
   workbook.created = new Date();
   workbook.modified = new Date();
+  stampMasterSchema(workbook);
 
   // Create both sheets
   createAFRSheet(workbook, options);
@@ -298,6 +328,15 @@ export const AFR_COLUMN_INDICES = {
   nameOfOrg: 10,
   enteredInKFS: 11,
   accountNumber: 12,
+  supportingDocs: 13,
+  submittedOn: getLifecycleColumn(AFR_LIFECYCLE_COLUMN, 'submittedOn'),
+  lastUpdatedOn: getLifecycleColumn(AFR_LIFECYCLE_COLUMN, 'lastUpdatedOn'),
+  editedAfterSubmission: getLifecycleColumn(AFR_LIFECYCLE_COLUMN, 'editedAfterSubmission'),
+  turnaroundHours: getLifecycleColumn(AFR_LIFECYCLE_COLUMN, 'turnaroundHours'),
+  approvalMessage: getLifecycleColumn(AFR_LIFECYCLE_COLUMN, 'approvalMessage'),
+  category: AFR_CATEGORY_COLUMN,
+  submissionId: AFR_SUBMISSION_ID_COLUMN,
+  exportDescription: AFR_DESCRIPTION_COLUMN,
 } as const;
 
 export const REALLOCATION_COLUMN_INDICES = {
@@ -308,6 +347,15 @@ export const REALLOCATION_COLUMN_INDICES = {
   approvedAmount: 5,
   status: 6,
   accountNumber: 7,
+  supportingDocs: 8,
+  submittedOn: getLifecycleColumn(REALLOCATION_LIFECYCLE_COLUMN, 'submittedOn'),
+  lastUpdatedOn: getLifecycleColumn(REALLOCATION_LIFECYCLE_COLUMN, 'lastUpdatedOn'),
+  editedAfterSubmission: getLifecycleColumn(REALLOCATION_LIFECYCLE_COLUMN, 'editedAfterSubmission'),
+  turnaroundHours: getLifecycleColumn(REALLOCATION_LIFECYCLE_COLUMN, 'turnaroundHours'),
+  approvalMessage: getLifecycleColumn(REALLOCATION_LIFECYCLE_COLUMN, 'approvalMessage'),
+  category: REALLOCATION_CATEGORY_COLUMN,
+  submissionId: REALLOCATION_SUBMISSION_ID_COLUMN,
+  exportDescription: REALLOCATION_DESCRIPTION_COLUMN,
 } as const;
 
 /**
@@ -0,0 +1,18 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { migrateMaster } from './master-migration';
+import { parseWeeklySpreadsheet } from './xlsx-parser';
+
+describe('migrateMaster', () => {
+  it('rewrites legacy "SGA 1" numbering as "SGA (#1)"', async () => {
+    const file = readFileSync('test-data/SGA Budget Review Jan 25 2026.xlsx');
+    const { buffer, summary } = await migrateMaster(new Uint8Array(file).slice().buffer as ArrayBuffer, {
+      semesterName: 'Spring 2026',
+    });
+    expect(summary.renumberedRows).toBe(1);
+
+    const { weeks } = await parseWeeklySpreadsheet(new Uint8Array(buffer).slice().buffer as ArrayBuffer);
+    const [row] = weeks.flatMap((week) => week.afrRequests);
+    expect(row).toMatchObject({ organization: 'SGA (#1)', organizationName: 'SGA', requestNumber: 1 });
+  });
+});
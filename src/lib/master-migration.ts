@@ -0,0 +1,265 @@
+/**
+ * Master spreadsheet migration
+ *
+ * Rewrites a master in a legacy layout into the layout generateMasterSpreadsheet
+ * creates: semester title and starting budget on row 1, column headers on row 2,
+ * then the week sections. Week sections keep their rows, styles, and formulas;
+ * only the per-week column header rows are removed. Legacy "SGA 1" request
+ * numbers are rewritten as "SGA (#1)", and the migrated master is stamped with
+ * the current schema version.
+ */
+
+import * as ExcelJS from 'exceljs';
+import type { MasterMigrationSummary } from '@/types/master-schema';
+import { generateMasterSpreadsheet } from '@/lib/master-generator';
+import { detectMasterLayout, MASTER_SCHEMA_VERSION, stampMasterSchema } from '@/lib/master-schema';
+import { deleteRows, insertRows } from '@/lib/worksheet-rows';
+import { findAFRWorksheet, findReallocationWorksheet, getCellText } from '@/lib/master-worksheets';
+import { isBudgetAdjustmentRow } from '@/lib/budget-adjustments';
+import { formatOrgNumbering, hasOrgNumbering, parseOrgNumbering } from '@/lib/org-numbering';
+
+/**
+ * Options for migrating a master spreadsheet
+ */
+export interface MigrationOptions {
+  /** Semester name for the title row (legacy masters have none) */
+  semesterName: string;
+  /** Starting budget for I1 - defaults to the legacy Initial Budget row (I2) */
+  startingBudget?: number;
+}
+
+interface MigrationResult {
+  buffer: Buffer;
+  summary: MasterMigrationSummary;
+}
+
+/**
+ * Read a number from a cell (formulas give their cached result)
+ */
+function getCellNumber(cell: ExcelJS.Cell): number | null {
+  const value = cell.value;
+  if (typeof value === 'number') return value;
+  if (value && typeof value === 'object' && 'result' in value && typeof value.result === 'number') {
+    return value.result;
+  }
+  return null;
+}
+
+/**
+ * Check whether a row is a column header row ("Date of Meeting" in column A)
+ */
+function isColumnHeaderRow(row: ExcelJS.Row): boolean {
+  return getCellText(row.getCell(1)).toLowerCase() === 'date of meeting';
+}
+
+/**
+ * Delete every column header row at or below a row
+ *
+ * @returns Number of rows deleted
+ */
+function removeColumnHeaderRows(worksheet: ExcelJS.Worksheet, fromRow: number): number {
+  const headerRows: number[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber >= fromRow && isColumnHeaderRow(row)) headerRows.push(rowNumber);
+  });
+
+  // Bottom up, so the rows still to delete keep their numbers
+  for (const rowNumber of [...headerRows].reverse()) {
+    deleteRows(worksheet, rowNumber, 1);
+  }
+  return headerRows.length;
+}
+
+/**
+ * Rewrite legacy request numbers ("SGA 1") in column C as "SGA (#1)"
+ * Only for masters without a schema stamp - stamped masters are read with "(#N)" numbering only.
+ *
+ * @returns Number of rows rewritten
+ */
+export function renumberLegacyOrgNames(workbook: ExcelJS.Workbook): number {
+  let renumbered = 0;
+
+  for (const worksheet of [findAFRWorksheet(workbook), findReallocationWorksheet(workbook)]) {
+    worksheet?.eachRow((row) => {
+      const cell = row.getCell(3); // C: Organization
+      if (typeof cell.value !== 'string' || cell.master !== cell || isBudgetAdjustmentRow(row)) return;
+      if (hasOrgNumbering(cell.value)) return;
+
+      const { organizationName, number } = parseOrgNumbering(cell.value, { legacy: true });
+      if (number === null) return;
+
+      cell.value = formatOrgNumbering(organizationName, number);
+      renumbered++;
+    });
+  }
+
+  return renumbered;
+}
+
+/**
+ * Give a sheet the title and column header rows (rows 1-2) of a generated master
+ * sheet, along with its column widths, hidden columns, and frozen panes
+ * Whatever was on rows 1-2 is replaced.
+ */
+function applyTemplateRows(worksheet: ExcelJS.Worksheet, template: ExcelJS.Worksheet): void {
+  for (const rowNumber of [1, 2]) {
+    const source = template.getRow(rowNumber);
+    const target = worksheet.getRow(rowNumber);
+    target.model = { number: rowNumber, cells: [] } as unknown as ExcelJS.RowModel;
+    target.height = source.height;
+    source.eachCell((cell, column) => {
+      const targetCell = target.getCell(column);
+      targetCell.value = cell.value;
+      targetCell.style = { ...cell.style };
+    });
+  }
+
+  for (const range of template.model.merges) {
+    worksheet.mergeCells(range);
+  }
+
+  template.columns.forEach((column, index) => {
+    const target = worksheet.getColumn(index + 1);
+    target.width = column.width;
+    target.hidden = column.hidden === true;
+  });
+
+  worksheet.views = template.views;
+}
+
+/**
+ * Rename a legacy sheet to its current name, unless that name is taken
+ *
+ * @returns The rename (e.g., "AFR -> AFR Requests"), or null if not renamed
+ */
+function renameSheet(workbook: ExcelJS.Workbook, worksheet: ExcelJS.Worksheet, name: string): string | null {
+  if (worksheet.name === name || workbook.getWorksheet(name)) return null;
+  const rename = `${worksheet.name} -> ${name}`;
+  worksheet.name = name;
+  return rename;
+}
+
+/**
+ * Migrate a legacy-weekly AFR sheet
+ * Its column headers (row 1) and Initial Budget row (row 2) are replaced by the
+ * title and column header rows, which leaves the starting budget in I1 - the cell
+ * the first week's Remaining Budget formula already starts from.
+ *
+ * @returns Number of per-week column header rows removed
+ */
+function migrateAFRSheet(worksheet: ExcelJS.Worksheet, template: ExcelJS.Worksheet): number {
+  const removed = removeColumnHeaderRows(worksheet, 3);
+  applyTemplateRows(worksheet, template);
+  return removed;
+}
+
+/**
+ * Migrate a Reallocation sheet whose first row isn't the title
+ * Legacy sheets start with a week's section header or a column header row;
+ * the column header rows are removed and the title, column headers, and a blank
+ * separator row are added above the first week.
+ *
+ * @returns Number of column header rows removed
+ */
+function migrateReallocationSheet(worksheet: ExcelJS.Worksheet, template: ExcelJS.Worksheet): number {
+  const removed = removeColumnHeaderRows(worksheet, 1);
+
+  // Drop blank rows left at the top
+  let blankRows = 0;
+  while (blankRows < worksheet.rowCount && !worksheet.getRow(blankRows + 1).hasValues) {
+    blankRows++;
+  }
+  deleteRows(worksheet, 1, blankRows);
+
+  insertRows(worksheet, 1, 3);
+  applyTemplateRows(worksheet, template);
+  return removed;
+}
+
+/**
+ * Check whether a Reallocation sheet already has the title and column header rows
+ */
+function hasCurrentReallocationLayout(worksheet: ExcelJS.Worksheet): boolean {
+  return isColumnHeaderRow(worksheet.getRow(2)) && !/^Week\s+of\s+/i.test(getCellText(worksheet.getCell('A1')));
+}
+
+/**
+ * Migrate a master spreadsheet to the current layout (see generateMasterSpreadsheet)
+ *
+ * - legacy-weekly masters get a title row, the starting budget in I1, and one
+ *   column header row (row 2); per-week column header rows are removed, and the
+ *   "AFR" sheet is renamed "AFR Requests"
+ * - Masters already in the current layout are only stamped with the schema version
+ * - Unstamped masters have their "SGA 1" request numbers rewritten as "SGA (#1)"
+ * - Review spreadsheets and unrecognized workbooks can't be migrated
+ *
+ * @param masterBuffer - Buffer containing the master spreadsheet
+ * @param options - Semester name for the title, and the starting budget if the master has none
+ * @returns Promise resolving to the migrated .xlsx file and a summary of what changed
+ */
+export async function migrateMaster(
+  masterBuffer: ArrayBuffer,
+  options: MigrationOptions
+): Promise<MigrationResult> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(masterBuffer);
+
+  const { layout, version } = detectMasterLayout(workbook);
+  const summary: MasterMigrationSummary = {
+    fromLayout: layout,
+    version: MASTER_SCHEMA_VERSION,
+    headerRowsRemoved: 0,
+    renamedSheets: [],
+    renumberedRows: 0,
+  };
+
+  if (layout === 'review-sheet') {
+    throw new Error('This is a Sunday meeting review spreadsheet, not a master - upload the semester master instead');
+  }
+  if (layout === 'unknown') {
+    throw new Error('The master spreadsheet layout was not recognized');
+  }
+
+  if (layout === 'legacy-weekly') {
+    const afrWorksheet = workbook.getWorksheet('AFR Requests') || workbook.getWorksheet('AFR');
+    if (!afrWorksheet) {
+      throw new Error('AFR sheet not found');
+    }
+
+    const startingBudget = options.startingBudget ?? getCellNumber(afrWorksheet.getCell('I2'));
+    if (startingBudget === null) {
+      throw new Error('The master has no initial budget in I2 - please enter the starting budget');
+    }
+
+    // Rows 1-2 of a freshly generated master are copied onto the old sheets
+    const template = new ExcelJS.Workbook();
+    const templateBuffer = await generateMasterSpreadsheet({ semesterName: options.semesterName, startingBudget });
+    await template.xlsx.load(new Uint8Array(templateBuffer).buffer as ArrayBuffer);
+    const afrTemplate = template.getWorksheet('AFR Requests');
+    const reallocationTemplate = template.getWorksheet('Reallocation Requests');
+    if (!afrTemplate || !reallocationTemplate) {
+      throw new Error('Failed to generate the master template');
+    }
+
+    summary.headerRowsRemoved += migrateAFRSheet(afrWorksheet, afrTemplate);
+    const afrRename = renameSheet(workbook, afrWorksheet, 'AFR Requests');
+    if (afrRename) summary.renamedSheets.push(afrRename);
+
+    const reallocationWorksheet = findReallocationWorksheet(workbook);
+    if (reallocationWorksheet && !hasCurrentReallocationLayout(reallocationWorksheet)) {
+      summary.headerRowsRemoved += migrateReallocationSheet(reallocationWorksheet, reallocationTemplate);
+    }
+    if (reallocationWorksheet) {
+      const reallocationRename = renameSheet(workbook, reallocationWorksheet, 'Reallocation Requests');
+      if (reallocationRename) summary.renamedSheets.push(reallocationRename);
+    }
+  }
+
+  if (version === null) {
+    summary.renumberedRows = renumberLegacyOrgNames(workbook);
+  }
+  stampMasterSchema(workbook);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return { buffer: Buffer.from(buffer), summary };
+}
@@ -0,0 +1,88 @@
+/**
+ * Master spreadsheet schema version and layout detection
+ *
+ * Masters have been written in more than one layout over time. New masters are
+ * stamped with a schema version in the workbook properties (keywords), so the
+ * layout no longer has to be guessed from sheet names and header cells. Masters
+ * made before stamping are recognized by their known layouts.
+ */
+
+import * as ExcelJS from 'exceljs';
+import type { MasterLayout, MasterSchemaInfo } from '@/types/master-schema';
+import { getCellText } from '@/lib/master-worksheets';
+
+/**
+ * Schema version of the current layout (master-generator.ts)
+ * Bump when the layout changes, and teach migrateMaster to upgrade the previous one.
+ */
+export const MASTER_SCHEMA_VERSION = 1;
+
+/**
+ * Prefix of the schema stamp kept in the workbook keywords (e.g., "SGA Master Schema v1")
+ */
+const SCHEMA_STAMP_PREFIX = 'SGA Master Schema v';
+
+/**
+ * Pattern to match the schema stamp among other keywords
+ */
+const SCHEMA_STAMP_PATTERN = /SGA Master Schema v(\d+)/;
+
+/**
+ * Read the schema version stamped in a workbook
+ *
+ * @returns The version, or null if the workbook isn't stamped
+ */
+export function readMasterSchemaVersion(workbook: ExcelJS.Workbook): number | null {
+  const match = (workbook.keywords || '').match(SCHEMA_STAMP_PATTERN);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Stamp the current schema version in a workbook's keywords
+ * Replaces an older stamp and keeps any other keywords.
+ */
+export function stampMasterSchema(workbook: ExcelJS.Workbook): void {
+  const stamp = `${SCHEMA_STAMP_PREFIX}${MASTER_SCHEMA_VERSION}`;
+  const keywords = workbook.keywords || '';
+  workbook.keywords = SCHEMA_STAMP_PATTERN.test(keywords)
+    ? keywords.replace(SCHEMA_STAMP_PATTERN, stamp)
+    : [keywords, stamp].filter(Boolean).join(', ');
+}
+
+/**
+ * Work out which known layout a workbook's AFR sheet is in
+ * - current: "Date of Meeting" header in A2 (the title is on row 1)
+ * - legacy-weekly: "Date of Meeting" header in A1 and "Initial Budget" in C2
+ * - review-sheet: A "Sunday Meeting" sheet, or an "AFR Requests" / "Reallocation Requests"
+ *   section header in A1 (xlsx-generator.ts)
+ */
+function detectLayout(workbook: ExcelJS.Workbook): MasterLayout {
+  if (workbook.getWorksheet('Sunday Meeting')) return 'review-sheet';
+
+  const afrSheet = workbook.getWorksheet('AFR Requests') || workbook.getWorksheet('AFR');
+  const worksheet = afrSheet || workbook.getWorksheet('Reallocation Requests') || workbook.getWorksheet(1);
+  if (!worksheet) return 'unknown';
+
+  const a1 = getCellText(worksheet.getCell('A1')).toLowerCase();
+  const a2 = getCellText(worksheet.getCell('A2')).toLowerCase();
+  const c2 = getCellText(worksheet.getCell('C2')).toLowerCase();
+
+  if (a1 === 'afr requests' || a1 === 'reallocation requests') return 'review-sheet';
+  if (a2 === 'date of meeting') return 'current';
+  if (afrSheet && a1 === 'date of meeting' && c2 === 'initial budget') return 'legacy-weekly';
+  return 'unknown';
+}
+
+/**
+ * Read a master's schema version and layout
+ * Stamped masters are in the current layout; unstamped ones are recognized by
+ * their sheet names and header cells.
+ *
+ * @param workbook - Loaded master spreadsheet
+ * @returns The layout and the stamped schema version (null if not stamped)
+ */
+export function detectMasterLayout(workbook: ExcelJS.Workbook): MasterSchemaInfo {
+  const version = readMasterSchemaVersion(workbook);
+  if (version !== null) return { layout: 'current', version };
+  return { layout: detectLayout(workbook), version: null };
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared readers for master and review workbooks
+ *
+ * Finds the AFR and Reallocation sheets under their current and legacy names,
+ * and reads cell text the same way for every module that reads those sheets.
+ */
+
+import * as ExcelJS from 'exceljs';
+
+/**
+ * Find the AFR sheet, supporting both legacy and new master-generator sheet names
+ */
+export function findAFRWorksheet(workbook: ExcelJS.Workbook): ExcelJS.Worksheet | undefined {
+  return (
+    workbook.getWorksheet('AFR Requests') ||
+    workbook.getWorksheet('AFR') ||
+    workbook.getWorksheet('Sunday Meeting') ||
+    workbook.getWorksheet(1)
+  );
+}
+
+/**
+ * Find the Reallocation sheet, supporting both legacy and new master-generator sheet names
+ */
+export function findReallocationWorksheet(workbook: ExcelJS.Workbook): ExcelJS.Worksheet | undefined {
+  return workbook.getWorksheet('Reallocation Requests') || workbook.getWorksheet('Reallocation');
+}
+
+/**
+ * Get a cell's text, trimmed
+ * - Hyperlinks give their target (e.g., supporting spreadsheet links)
+ * - Rich text gives its text runs joined together
+ * - Formulas give their cached result (blank for errors or no result)
+ */
+export function getCellText(cell: ExcelJS.Cell): string {
+  const value = cell.value;
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object' && !(value instanceof Date)) {
+    if ('hyperlink' in value && value.hyperlink) return String(value.hyperlink);
+    if ('richText' in value) return value.richText.map((part) => part.text).join('').trim();
+    if ('text' in value) return String(value.text).trim();
+    if ('result' in value) {
+      const result = value.result;
+      if (result === null || result === undefined || (typeof result === 'object' && !(result instanceof Date))) return '';
+      return String(result).trim();
+    }
+  }
+  return String(value).trim();
+}
@@ -0,0 +1,168 @@
+/**
+ * Officer roster checks
+ *
+ * CampusGroups lets anyone submit a funding request for any organization. An
+ * uploaded officer roster (CSV of organization, name, email, role) is used to
+ * flag requests whose submitter isn't the organization's president or treasurer.
+ */
+
+import Papa from 'papaparse';
+import type { BudgetRequest } from '@/types/budget-request';
+import type { OfficerRosterParseResult, RosterOfficer } from '@/types/officer-roster';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { AUTHORIZED_SUBMITTER_ROLES, ROSTER_COLUMNS } from '@/constants/officer-roster';
+import { normalizeOrgName } from './org-numbering';
+import { createIssue, createRequestIssue, getErrorMessages, getWarningMessages } from './validation-issues';
+
+type RosterColumnKey = keyof typeof ROSTER_COLUMNS;
+
+function normalizeEmail(email: string): string {
+  return (email || '').trim().toLowerCase();
+}
+
+/**
+ * Find the roster header used for a column
+ */
+function findRosterHeader(headers: string[], key: RosterColumnKey): string | undefined {
+  const accepted = ROSTER_COLUMNS[key].map((name) => name.toLowerCase());
+  return headers.find((header) => accepted.includes(header.trim().toLowerCase()));
+}
+
+/**
+ * Parse an officer roster CSV
+ *
+ * @param csvContent - Roster CSV with organization, name, email, and role columns
+ * @returns Officers with warnings for incomplete rows and errors for missing columns
+ */
+export function parseOfficerRoster(csvContent: string): OfficerRosterParseResult {
+  const issues: ValidationIssue[] = [];
+  const officers: RosterOfficer[] = [];
+  const result = (): OfficerRosterParseResult => ({
+    officers,
+    warnings: getWarningMessages(issues),
+    errors: getErrorMessages(issues),
+    issues,
+  });
+
+  if (!csvContent || csvContent.trim() === '') {
+    issues.push(createIssue('empty-file', 'error', 'Officer roster is empty'));
+    return result();
+  }
+
+  // Remove BOM if present
+  const parseResult = Papa.parse<Record<string, string>>(csvContent.replace(/^\uFEFF/, ''), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim(),
+  });
+  const headers = parseResult.meta.fields || [];
+
+  const columns = {} as Record<RosterColumnKey, string>;
+  for (const key of Object.keys(ROSTER_COLUMNS) as RosterColumnKey[]) {
+    const header = findRosterHeader(headers, key);
+    if (!header) {
+      issues.push(createIssue(
+        'missing-column',
+        'error',
+        `Officer roster is missing a "${ROSTER_COLUMNS[key][0]}" column`,
+        { field: key, suggestedFix: `Add a column named one of: ${ROSTER_COLUMNS[key].join(', ')}.` }
+      ));
+    } else {
+      columns[key] = header;
+    }
+  }
+  if (issues.length > 0) {
+    return result();
+  }
+
+  parseResult.data.forEach((row, index) => {
+    const officer: RosterOfficer = {
+      organizationName: (row[columns.organizationName] || '').trim(),
+      name: (row[columns.name] || '').trim(),
+      email: (row[columns.email] || '').trim(),
+      role: (row[columns.role] || '').trim(),
+      sourceRow: index + 1,
+    };
+
+    if (!officer.organizationName || !officer.email) {
+      issues.push(createIssue(
+        'roster-incomplete-row',
+        'warning',
+        `Officer roster row ${index + 1}: Missing organization or email - row skipped.`,
+        { row: index + 1 }
+      ));
+      return;
+    }
+    officers.push(officer);
+  });
+
+  if (officers.length === 0) {
+    issues.push(createIssue('empty-file', 'error', 'Officer roster has no officers'));
+  }
+
+  return result();
+}
+
+/**
+ * Get the roster officers allowed to submit requests for an organization
+ */
+export function getAuthorizedOfficers(officers: RosterOfficer[], organizationName: string): RosterOfficer[] {
+  const orgKey = normalizeOrgName(organizationName);
+  const roles = AUTHORIZED_SUBMITTER_ROLES.map((role) => role.toLowerCase());
+  return officers.filter(
+    (officer) =>
+      normalizeOrgName(officer.organizationName) === orgKey &&
+      roles.includes(officer.role.trim().toLowerCase())
+  );
+}
+
+/**
+ * Check whether a request was submitted by one of its organization's authorized officers
+ */
+export function isAuthorizedSubmitter(request: BudgetRequest, officers: RosterOfficer[]): boolean {
+  const email = normalizeEmail(request.submitterEmail);
+  return Boolean(email) && getAuthorizedOfficers(officers, request.organizationName)
+    .some((officer) => normalizeEmail(officer.email) === email);
+}
+
+/**
+ * Flag requests whose submitter isn't a president or treasurer of the organization
+ * Flagged requests are marked with submitterNotOnRoster.
+ *
+ * @param requests - Requests to check
+ * @param officers - Officers from parseOfficerRoster
+ * @returns One warning per flagged request
+ */
+export function checkSubmitterAuthorization(
+  requests: BudgetRequest[],
+  officers: RosterOfficer[]
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const rosterOrgs = new Set(officers.map((officer) => normalizeOrgName(officer.organizationName)));
+  const roleList = AUTHORIZED_SUBMITTER_ROLES.join(' or ').toLowerCase();
+
+  requests.forEach((request, i) => {
+    if (isAuthorizedSubmitter(request, officers)) {
+      request.submitterNotOnRoster = false;
+      return;
+    }
+    request.submitterNotOnRoster = true;
+
+    const submitter = [request.submitterName, request.submitterEmail && `<${request.submitterEmail}>`]
+      .filter(Boolean)
+      .join(' ') || 'Unknown submitter';
+    const reason = rosterOrgs.has(normalizeOrgName(request.organizationName))
+      ? `is not a ${roleList} of ${request.organizationName} on the officer roster`
+      : `submitted for ${request.organizationName}, which is not on the officer roster`;
+
+    issues.push(createRequestIssue(
+      'submitter-not-on-roster',
+      'warning',
+      `Request ${i + 1} (${request.organizationName}): ${submitter} ${reason}.`,
+      request,
+      { field: 'submitterEmail', suggestedFix: 'Confirm the request with the organization\'s president or treasurer.' }
+    ));
+  });
+
+  return issues;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { groupByOrgDetail } from './org-categories';
+
+const rows = [
+  { name: 'A', category: 'Media', fundingTier: 'Tier 10' },
+  { name: 'B', category: '', fundingTier: '' },
+  { name: 'C', category: 'Club Sports', fundingTier: 'Tier 2' },
+  { name: 'D', category: 'Media', fundingTier: 'Tier 2' },
+];
+
+describe('groupByOrgDetail', () => {
+  it('groups by category in report order with uncategorized last', () => {
+    expect(groupByOrgDetail(rows, 'category').map(({ name, items }) => [name, items.map((r) => r.name)])).toEqual([
+      ['Club Sports', ['C']],
+      ['Media', ['A', 'D']],
+      ['Uncategorized', ['B']],
+    ]);
+  });
+
+  it('groups by funding tier in numeric order with untiered last', () => {
+    expect(groupByOrgDetail(rows, 'fundingTier').map(({ name, items }) => [name, items.map((r) => r.name)])).toEqual([
+      ['Tier 2', ['C', 'D']],
+      ['Tier 10', ['A']],
+      ['No Tier', ['B']],
+    ]);
+  });
+});
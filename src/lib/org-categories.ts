@@ -0,0 +1,80 @@
+/**
+ * Organization category and funding tier helpers for reports and presentations
+ */
+
+import type { OrgCategory, OrgGrouping } from '@/types/org-registry';
+import { NO_FUNDING_TIER, ORG_CATEGORIES, UNCATEGORIZED } from '@/constants/org-categories';
+
+/**
+ * Position of a category in report order
+ * Unknown categories and "Uncategorized" sort after the known categories.
+ */
+export function getCategoryOrder(category: string): number {
+  const index = ORG_CATEGORIES.indexOf(category as OrgCategory);
+  return index === -1 ? ORG_CATEGORIES.length : index;
+}
+
+/**
+ * Sort items by category in report order, keeping the original order within a category
+ *
+ * @param items - Items to sort (not modified)
+ * @param getCategory - Reads an item's category (blank for none)
+ * @returns A new, sorted array
+ */
+export function sortByCategory<T>(items: T[], getCategory: (item: T) => string): T[] {
+  return items
+    .map((item, index) => ({ item, index, category: getCategory(item) }))
+    .sort((a, b) =>
+      getCategoryOrder(a.category) - getCategoryOrder(b.category) ||
+      // Blank categories go last among the unknown ones
+      Number(a.category === '') - Number(b.category === '') ||
+      a.category.localeCompare(b.category) ||
+      a.index - b.index
+    )
+    .map(({ item }) => item);
+}
+
+/**
+ * Sort items by funding tier ("Tier 1" before "Tier 2"), keeping the original order within a tier
+ * Items without a tier go last.
+ *
+ * @param items - Items to sort (not modified)
+ * @param getTier - Reads an item's funding tier (blank for none)
+ * @returns A new, sorted array
+ */
+export function sortByFundingTier<T>(items: T[], getTier: (item: T) => string): T[] {
+  return items
+    .map((item, index) => ({ item, index, tier: getTier(item) }))
+    .sort((a, b) =>
+      Number(a.tier === '') - Number(b.tier === '') ||
+      a.tier.localeCompare(b.tier, undefined, { numeric: true }) ||
+      a.index - b.index
+    )
+    .map(({ item }) => item);
+}
+
+/**
+ * Split items into report groups by category or funding tier
+ * Groups follow report order; items without a value are grouped as "Uncategorized" / "No Tier".
+ *
+ * @param items - Items to group (not modified)
+ * @param grouping - Organization detail to group by
+ * @returns Groups in report order, each with its items in their original order
+ */
+export function groupByOrgDetail<T extends { category: string; fundingTier: string }>(
+  items: T[],
+  grouping: OrgGrouping
+): { name: string; items: T[] }[] {
+  const sorted = grouping === 'category'
+    ? sortByCategory(items, (item) => item.category)
+    : sortByFundingTier(items, (item) => item.fundingTier);
+  const blankLabel = grouping === 'category' ? UNCATEGORIZED : NO_FUNDING_TIER;
+  const groups = new Map<string, T[]>();
+
+  for (const item of sorted) {
+    const name = item[grouping] || blankLabel;
+    groups.set(name, [...(groups.get(name) ?? []), item]);
+  }
+
+  return Array.from(groups, ([name, groupItems]) => ({ name, items: groupItems }));
+}
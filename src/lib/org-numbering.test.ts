@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getExistingOrgNumbers, parseOrgNumbering } from './org-numbering';
+
+describe('parseOrgNumbering', () => {
+  it('reads "(#N)" suffixes and leaves digits in names alone', () => {
+    expect(parseOrgNumbering('Class of 2027 (#2)')).toEqual({ organizationName: 'Class of 2027', number: 2 });
+    expect(parseOrgNumbering('SGA 1')).toEqual({ organizationName: 'SGA 1', number: null });
+  });
+
+  it('reads legacy " N" suffixes when asked', () => {
+    expect(parseOrgNumbering('SGA 1', { legacy: true })).toEqual({ organizationName: 'SGA', number: 1 });
+    expect(parseOrgNumbering('SGA (#3)', { legacy: true })).toEqual({ organizationName: 'SGA', number: 3 });
+    expect(parseOrgNumbering('Class of 2027', { legacy: true })).toEqual({ organizationName: 'Class of 2027', number: null });
+  });
+});
+
+describe('getExistingOrgNumbers', () => {
+  it('keeps the highest number per organization', () => {
+    const numbers = getExistingOrgNumbers([
+      { organizationName: 'SGA', requestNumber: 1 },
+      { organizationName: 'sga', requestNumber: 3 },
+      { organizationName: 'Chess Club', requestNumber: null },
+    ]);
+    expect(numbers).toEqual(new Map([['sga', 3], ['chess club', 1]]));
+  });
+});
@@ -2,21 +2,54 @@
  * Organization Numbering Utility
  * 
  * Handles numbering of multiple requests from the same organization.
- * When an org has multiple requests, they get numbered: "SGA 1", "SGA 2", etc.
+ * When an org has multiple requests, they get numbered: "SGA (#1)", "SGA (#2)", etc.
  * Single requests don't get numbered.
+ * 
+ * The "(#N)" suffix keeps the request number apart from names that end in
+ * digits, so "Class of 2027 (#1)" always parses back to "Class of 2027" and 1.
+ * Masters written before schema stamping (see master-schema.ts) numbered
+ * requests "SGA 1", "SGA 2"; those are read with the legacy option.
  */
 
-import type { BudgetRequest } from '@/types/budget-request';
+import type { BudgetRequest, SubmissionNumber } from '@/types/budget-request';
+import { normalizeForComparison } from './string-similarity';
 
 /**
- * Group requests by organization name (case-insensitive)
+ * Pattern to match a request number suffix (e.g., " (#2)")
  */
-function groupByOrganization(requests: BudgetRequest[]): Map<string, BudgetRequest[]> {
+const ORG_NUMBER_PATTERN = /\s*\(#(\d+)\)$/;
+
+/**
+ * Pattern to match a legacy request number suffix (e.g., " 2")
+ * Limited to two digits so years in names ("Class of 2027") aren't read as numbers
+ */
+const LEGACY_ORG_NUMBER_PATTERN = /\s+(\d{1,2})$/;
+
+/**
+ * Options for reading request numbers
+ */
+export interface ParseOrgNumberingOptions {
+  /** Also read a legacy " N" suffix (masters without a schema stamp) */
+  legacy?: boolean;
+}
+
+/**
+ * Normalize an organization name for grouping and comparison
+ * Ignores case, punctuation, extra whitespace, and a leading "The"
+ * Example: "The A.S.M.E." → "asme"
+ */
+export function normalizeOrgName(orgName: string): string {
+  return normalizeForComparison(orgName.replace(/[.']/g, '')).replace(/^the\s+/, '');
+}
+
+/**
+ * Group requests by normalized organization name
+ */
+export function groupByOrganization(requests: BudgetRequest[]): Map<string, BudgetRequest[]> {
   const groups = new Map<string, BudgetRequest[]>();
   
   for (const request of requests) {
-    // Use lowercase key for case-insensitive grouping
-    const key = request.organizationName.toLowerCase().trim();
+    const key = normalizeOrgName(request.organizationName);
     
     const existing = groups.get(key);
     if (existing) {
@@ -29,53 +62,117 @@ function groupByOrganization(requests: BudgetRequest[]): Map<string, BudgetReque
   return groups;
 }
 
+/**
+ * Options for continuing numbering from earlier weeks
+ */
+export interface OrgNumberingOptions {
+  /**
+   * Highest number each organization (by normalized name) already has in the master -
+   * numbering continues after it (see getExistingOrgNumbers)
+   */
+  existingNumbers?: Map<string, number>;
+  /** Numbers already given to submissions - a submission keeps its number */
+  submissionNumbers?: Record<string, SubmissionNumber>;
+}
+
+/**
+ * Find the highest request number each organization already uses
+ * An organization listed without a number counts as number 1.
+ * 
+ * @param rows - Master rows, already split into name and number (see parseWeeklySpreadsheet)
+ * @returns Highest number per normalized organization name
+ */
+export function getExistingOrgNumbers(
+  rows: { organizationName: string; requestNumber: number | null }[]
+): Map<string, number> {
+  const numbers = new Map<string, number>();
+  
+  for (const row of rows) {
+    const key = normalizeOrgName(row.organizationName);
+    const number = row.requestNumber ?? 1;
+    numbers.set(key, Math.max(numbers.get(key) ?? 0, number));
+  }
+  
+  return numbers;
+}
+
 /**
  * Apply organization numbering to budget requests
  * 
  * For organizations with multiple requests:
- * - Appends " 1", " 2", etc. to the organization name
+ * - Appends " (#1)", " (#2)", etc. to the organization name (see formatOrgNumbering)
  * - Numbering is based on order in the input array
  * 
  * For organizations with single requests:
  * - Organization name remains unchanged
  * 
+ * With options, numbering is stable across the semester:
+ * - Organizations already in the master continue after their highest number
+ *   (a single new request is numbered too, so it can't be confused with earlier ones)
+ * - Submissions numbered in an earlier merge keep their number
+ * 
  * @param requests - Array of BudgetRequest objects
+ * @param options - Numbers already used in earlier weeks
  * @returns New array with updated organization names (original array is not modified)
  */
-export function applyOrgNumbering(requests: BudgetRequest[]): BudgetRequest[] {
+export function applyOrgNumbering(requests: BudgetRequest[], options: OrgNumberingOptions = {}): BudgetRequest[] {
   if (!requests || requests.length === 0) {
     return [];
   }
   
+  const existingNumbers = options.existingNumbers ?? new Map<string, number>();
+  const submissionNumbers = options.submissionNumbers ?? {};
+  
+  // Numbers kept from earlier merges, per organization
+  const keptNumbers = new Map<string, number>();
+  const usedNumbers = new Map<string, Set<number>>();
+  for (const request of requests) {
+    const kept = submissionNumbers[request.submissionId];
+    const key = normalizeOrgName(request.organizationName);
+    if (kept && normalizeOrgName(kept.organizationName) === key) {
+      keptNumbers.set(request.submissionId, kept.number);
+      usedNumbers.set(key, (usedNumbers.get(key) ?? new Set()).add(kept.number));
+    }
+  }
+  
   // Group requests by organization
   const groups = groupByOrganization(requests);
   
-  // Track which organizations need numbering (more than one request)
+  // Track which organizations need numbering (more than one request, or already in the master)
   const needsNumbering = new Set<string>();
   for (const [key, groupRequests] of groups) {
-    if (groupRequests.length > 1) {
+    if (groupRequests.length > 1 || existingNumbers.has(key)) {
       needsNumbering.add(key);
     }
   }
   
-  // Track current number for each organization
-  const orgCounters = new Map<string, number>();
+  // Track current number for each organization, starting after the master's numbers
+  const orgCounters = new Map<string, number>(existingNumbers);
   
   // Process requests in original order
   const result: BudgetRequest[] = [];
   
   for (const request of requests) {
-    const key = request.organizationName.toLowerCase().trim();
+    const key = normalizeOrgName(request.organizationName);
+    const keptNumber = keptNumbers.get(request.submissionId);
     
-    if (needsNumbering.has(key)) {
-      // Get and increment counter for this org
-      const currentNumber = (orgCounters.get(key) || 0) + 1;
+    if (keptNumber !== undefined) {
+      result.push({
+        ...request,
+        organizationName: formatOrgNumbering(request.organizationName, keptNumber),
+      });
+    } else if (needsNumbering.has(key)) {
+      // Get and increment counter for this org, skipping numbers kept by other submissions
+      let currentNumber = (orgCounters.get(key) || 0) + 1;
+      while (usedNumbers.get(key)?.has(currentNumber)) {
+        currentNumber++;
+      }
       orgCounters.set(key, currentNumber);
       
       // Create new request with numbered organization name
       result.push({
         ...request,
-        organizationName: `${request.organizationName} ${currentNumber}`,
+        organizationName: formatOrgNumbering(request.organizationName, currentNumber),
       });
     } else {
       // Single request, no numbering needed
@@ -87,47 +184,96 @@ export function applyOrgNumbering(requests: BudgetRequest[]): BudgetRequest[] {
 }
 
 /**
- * Remove organization numbering from a name
- * Useful for display or comparison purposes
+ * Record the numbers given to submissions so later merges can reuse them
  * 
- * @param orgName - Organization name potentially with numbering (e.g., "SGA 2")
- * @returns Organization name without numbering (e.g., "SGA")
+ * @param ledger - Numbers recorded so far (not modified)
+ * @param numberedRequests - Requests returned by applyOrgNumbering
+ * @returns The ledger with the numbered submissions added
  */
-export function removeOrgNumbering(orgName: string): string {
-  // Match pattern: name followed by space and number at end
-  const match = orgName.match(/^(.+)\s+(\d+)$/);
+export function recordSubmissionNumbers(
+  ledger: Record<string, SubmissionNumber>,
+  numberedRequests: BudgetRequest[]
+): Record<string, SubmissionNumber> {
+  const updated = { ...ledger };
+  
+  for (const request of numberedRequests) {
+    const number = getOrgNumber(request.organizationName);
+    if (number !== null) {
+      updated[request.submissionId] = {
+        organizationName: removeOrgNumbering(request.organizationName),
+        number,
+      };
+    }
+  }
+  
+  return updated;
+}
+
+/**
+ * Add a request number to an organization name
+ * 
+ * @param orgName - Organization name (e.g., "Class of 2027")
+ * @param number - Request number
+ * @returns Numbered name (e.g., "Class of 2027 (#1)")
+ */
+export function formatOrgNumbering(orgName: string, number: number): string {
+  return `${orgName} (#${number})`;
+}
+
+/**
+ * Split a numbered organization name into the name and request number
+ * Digits that are part of the name (e.g., "Formula SAE 2") are never read as a number,
+ * unless the legacy option is set - then a trailing " N" is the request number.
+ * 
+ * @param orgName - Organization name potentially with numbering (e.g., "Formula SAE 2 (#3)")
+ * @param options - Whether to read legacy " N" suffixes
+ * @returns The name without numbering and the request number (null if not numbered)
+ */
+export function parseOrgNumbering(
+  orgName: string,
+  options: ParseOrgNumberingOptions = {}
+): { organizationName: string; number: number | null } {
+  const match = orgName.match(ORG_NUMBER_PATTERN) ?? (options.legacy ? orgName.match(LEGACY_ORG_NUMBER_PATTERN) : null);
   
   if (match) {
-    return match[1].trim();
+    return {
+      organizationName: orgName.slice(0, match.index).trim(),
+      number: parseInt(match[1], 10),
+    };
   }
   
-  return orgName;
+  return { organizationName: orgName, number: null };
+}
+
+/**
+ * Remove organization numbering from a name
+ * Useful for display or comparison purposes
+ * 
+ * @param orgName - Organization name potentially with numbering (e.g., "SGA (#2)")
+ * @returns Organization name without numbering (e.g., "SGA")
+ */
+export function removeOrgNumbering(orgName: string): string {
+  return parseOrgNumbering(orgName).organizationName;
 }
 
 /**
  * Check if an organization name has numbering applied
  * 
  * @param orgName - Organization name to check
- * @returns True if the name ends with a number suffix
+ * @returns True if the name ends with a "(#N)" suffix
  */
 export function hasOrgNumbering(orgName: string): boolean {
-  return /\s+\d+$/.test(orgName);
+  return ORG_NUMBER_PATTERN.test(orgName);
 }
 
 /**
- * Get the number suffix from an organization name
+ * Get the request number from an organization name
  * 
  * @param orgName - Organization name with potential numbering
- * @returns The number suffix, or null if no numbering
+ * @returns The request number, or null if no numbering
  */
 export function getOrgNumber(orgName: string): number | null {
-  const match = orgName.match(/\s+(\d+)$/);
-  
-  if (match) {
-    return parseInt(match[1], 10);
-  }
-  
-  return null;
+  return parseOrgNumbering(orgName).number;
 }
 
 /**
@@ -0,0 +1,346 @@
+/**
+ * Canonical organization registry
+ *
+ * Organizations submit under many spellings ("SGA", "S.G.A.", "Student
+ * Government Association"). Each submitted name is resolved to one canonical
+ * name through the registry's aliases, acronyms, and fuzzy matching, so
+ * numbering and per-organization totals treat them as one organization.
+ * Names that can't be resolved are listed for review, where they can be saved
+ * as new aliases. The registry also holds each organization's reporting
+ * details (category, funding tier, advisor, base budget), which are joined onto
+ * requests when they are parsed. The registry is stored in the data directory
+ * as org-registry.json, starting from src/constants/org-registry.json, which is
+ * seeded with the organizations in the Fall 2025 master so only new names are
+ * flagged as unmatched.
+ */
+
+import type {
+  OrgCategory,
+  OrgMatchType,
+  OrgMetadata,
+  OrgNameReview,
+  OrgRegistry,
+  OrgRegistryEntry,
+  OrgResolution,
+  OrgSuggestion,
+} from '@/types/org-registry';
+import type { ParsedWeek, SpreadsheetRow } from '@/types/presentation-request';
+import defaultRegistry from '@/constants/org-registry.json';
+import { ORG_CATEGORIES } from '@/constants/org-categories';
+import { readDataFile, writeDataFile } from './data-store';
+import { isRecord } from './json-values';
+import { normalizeOrgName, removeOrgNumbering } from './org-numbering';
+import { similarity } from './string-similarity';
+
+const REGISTRY_FILE = 'org-registry.json';
+
+/**
+ * Minimum similarity for a fuzzy match to be applied automatically
+ */
+export const ORG_FUZZY_THRESHOLD = 0.85;
+
+/**
+ * Minimum similarity for a registered organization to be suggested for an unmatched name
+ */
+const SUGGESTION_THRESHOLD = 0.4;
+
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Words left out of acronyms ("Society of Women Engineers" → "swe")
+ */
+const ACRONYM_STOP_WORDS = new Set(['of', 'and', 'the', 'for', 'at', 'in']);
+
+/**
+ * Build the acronym of a multi-word name, or null for single words
+ */
+function getAcronym(name: string): string | null {
+  const words = normalizeOrgName(name).split(' ').filter((word) => word && !ACRONYM_STOP_WORDS.has(word));
+  return words.length >= 2 ? words.map((word) => word[0]).join('') : null;
+}
+
+/**
+ * Check whether one name is the acronym of the other
+ */
+function isAcronymOf(a: string, b: string): boolean {
+  const compactA = normalizeOrgName(a).replace(/ /g, '');
+  const compactB = normalizeOrgName(b).replace(/ /g, '');
+  return getAcronym(b) === compactA || getAcronym(a) === compactB;
+}
+
+/**
+ * Validate an organization's reporting details
+ *
+ * @param data - Object holding the details
+ * @param label - Names the organization in error messages
+ * @returns The details that are set
+ * @throws Error describing the first problem found
+ */
+export function parseOrgMetadata(data: Record<string, unknown>, label: string): OrgMetadata {
+  const metadata: OrgMetadata = {};
+
+  if (data.category !== undefined && data.category !== '') {
+    if (!ORG_CATEGORIES.includes(data.category as OrgCategory)) {
+      throw new Error(`${label}: Category must be one of ${ORG_CATEGORIES.join(', ')}`);
+    }
+    metadata.category = data.category as OrgCategory;
+  }
+
+  for (const field of ['fundingTier', 'advisor'] as const) {
+    if (data[field] !== undefined && data[field] !== '') {
+      if (typeof data[field] !== 'string') {
+        throw new Error(`${label}: "${field}" must be text`);
+      }
+      metadata[field] = data[field];
+    }
+  }
+
+  if (data.baseBudget !== undefined && data.baseBudget !== null) {
+    if (typeof data.baseBudget !== 'number' || !Number.isFinite(data.baseBudget) || data.baseBudget < 0) {
+      throw new Error(`${label}: "baseBudget" must be a dollar amount of 0 or more`);
+    }
+    metadata.baseBudget = data.baseBudget;
+  }
+
+  return metadata;
+}
+
+/**
+ * Validate a registry file's contents
+ *
+ * @param data - Parsed JSON from the registry file
+ * @param source - Name used in error messages
+ * @returns The validated registry
+ * @throws Error describing the first problem found
+ */
+export function parseOrgRegistry(data: unknown, source: string = REGISTRY_FILE): OrgRegistry {
+  if (!isRecord(data) || typeof data.updatedAt !== 'string' || !Array.isArray(data.organizations)) {
+    throw new Error(`${source}: Registry needs "updatedAt" and an "organizations" list`);
+  }
+
+  const organizations = data.organizations.map((entry, i): OrgRegistryEntry => {
+    if (
+      !isRecord(entry) ||
+      typeof entry.canonicalName !== 'string' ||
+      !entry.canonicalName.trim() ||
+      !Array.isArray(entry.aliases) ||
+      !entry.aliases.every((alias) => typeof alias === 'string')
+    ) {
+      throw new Error(`${source}: Organization ${i + 1} needs a "canonicalName" and an "aliases" list`);
+    }
+    return {
+      canonicalName: entry.canonicalName,
+      aliases: entry.aliases as string[],
+      ...parseOrgMetadata(entry, `${source}: ${entry.canonicalName}`),
+    };
+  });
+
+  return { updatedAt: data.updatedAt, organizations };
+}
+
+/**
+ * Load the saved registry (the default registry if none has been saved yet)
+ */
+export async function loadOrgRegistry(): Promise<OrgRegistry> {
+  const data = await readDataFile(REGISTRY_FILE);
+  return data === null
+    ? parseOrgRegistry(defaultRegistry, 'org-registry.json (default)')
+    : parseOrgRegistry(data);
+}
+
+/**
+ * Save the registry to the data directory
+ */
+export async function saveOrgRegistry(registry: OrgRegistry): Promise<void> {
+  await writeDataFile(REGISTRY_FILE, registry);
+}
+
+/**
+ * Find the registered organization with a canonical name
+ */
+export function findOrganization(registry: OrgRegistry, canonicalName: string): OrgRegistryEntry | undefined {
+  const key = normalizeOrgName(canonicalName);
+  return registry.organizations.find((org) => normalizeOrgName(org.canonicalName) === key);
+}
+
+/**
+ * Resolve a submitted organization name to its canonical name
+ *
+ * Exact canonical and alias matches win, then acronyms, then the closest name at
+ * or above ORG_FUZZY_THRESHOLD. Unmatched names come back with suggestions.
+ *
+ * @param name - Organization name as submitted
+ * @param registry - Registered organizations
+ * @returns How the name was matched
+ */
+export function resolveOrgName(name: string, registry: OrgRegistry): OrgResolution {
+  const key = normalizeOrgName(name);
+  const resolution = (canonicalName: string | null, matchType: OrgMatchType, score: number, suggestions: OrgSuggestion[] = []) =>
+    ({ name, canonicalName, matchType, score, suggestions });
+
+  for (const org of registry.organizations) {
+    if (normalizeOrgName(org.canonicalName) === key) {
+      return resolution(org.canonicalName, 'canonical', 1);
+    }
+  }
+  for (const org of registry.organizations) {
+    if (org.aliases.some((alias) => normalizeOrgName(alias) === key)) {
+      return resolution(org.canonicalName, 'alias', 1);
+    }
+  }
+  for (const org of registry.organizations) {
+    if ([org.canonicalName, ...org.aliases].some((known) => isAcronymOf(name, known))) {
+      return resolution(org.canonicalName, 'acronym', 1);
+    }
+  }
+
+  // Score every registered organization by its closest name
+  const scored = registry.organizations
+    .map((org) => ({
+      canonicalName: org.canonicalName,
+      score: Math.max(...[org.canonicalName, ...org.aliases].map((known) => similarity(key, normalizeOrgName(known)))),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best] = scored;
+  if (best && best.score >= ORG_FUZZY_THRESHOLD) {
+    return resolution(best.canonicalName, 'fuzzy', best.score);
+  }
+
+  return resolution(
+    null,
+    'unmatched',
+    best?.score ?? 0,
+    scored.filter((org) => org.score >= SUGGESTION_THRESHOLD).slice(0, MAX_SUGGESTIONS)
+  );
+}
+
+/**
+ * Save a name as an alias of an organization
+ * If no organization has the canonical name, it is added as a new organization.
+ * The name is removed from any other organization's aliases.
+ *
+ * @param registry - Registry to add to (not modified)
+ * @param name - Name as submitted
+ * @param canonicalName - Organization the name refers to
+ * @returns The updated registry
+ */
+export function addOrgAlias(registry: OrgRegistry, name: string, canonicalName: string): OrgRegistry {
+  const organizations = registry.organizations.map((org) => ({ ...org, aliases: [...org.aliases] }));
+  let org = findOrganization({ ...registry, organizations }, canonicalName);
+
+  if (!org) {
+    org = { canonicalName: canonicalName.trim(), aliases: [] };
+    organizations.push(org);
+  }
+
+  const key = normalizeOrgName(name);
+  for (const other of organizations) {
+    if (other !== org) {
+      other.aliases = other.aliases.filter((alias) => normalizeOrgName(alias) !== key);
+    }
+  }
+
+  const known = [org.canonicalName, ...org.aliases].some((existing) => normalizeOrgName(existing) === key);
+  if (!known) {
+    org.aliases.push(name.trim());
+  }
+
+  return { updatedAt: new Date().toISOString(), organizations };
+}
+
+/**
+ * Replace an organization's reporting details
+ * An organization not yet in the registry is added.
+ *
+ * @param registry - Registry to update (not modified)
+ * @param canonicalName - Organization to update
+ * @param metadata - New details (details left out are cleared)
+ * @returns The updated registry
+ */
+export function setOrgMetadata(registry: OrgRegistry, canonicalName: string, metadata: OrgMetadata): OrgRegistry {
+  const existing = findOrganization(registry, canonicalName);
+  const updated: OrgRegistryEntry = {
+    canonicalName: existing?.canonicalName ?? canonicalName.trim(),
+    aliases: existing ? [...existing.aliases] : [],
+    ...metadata,
+  };
+
+  const organizations = existing
+    ? registry.organizations.map((org) => (org === existing ? updated : org))
+    : [...registry.organizations, updated];
+
+  return { updatedAt: new Date().toISOString(), organizations };
+}
+
+/**
+ * Look up the reporting details for an organization name
+ * Numbered names ("SGA (#2)") and unresolved spellings are matched like submitted names.
+ *
+ * @param name - Organization name as written in a request or master row
+ * @param registry - Registered organizations
+ * @returns The organization's details (empty if not registered)
+ */
+export function getOrgMetadata(name: string, registry: OrgRegistry): OrgMetadata {
+  const { canonicalName } = resolveOrgName(removeOrgNumbering(name), registry);
+  const org = canonicalName ? findOrganization(registry, canonicalName) : undefined;
+  if (!org) return {};
+
+  const { category, fundingTier, advisor, baseBudget } = org;
+  return { category, fundingTier, advisor, baseBudget };
+}
+
+/**
+ * Fill in registry details the master doesn't carry
+ * Rows written before the Category column existed get their category from the
+ * registry, and every row gets its organization's funding tier.
+ *
+ * @param weeks - Weeks parsed from a master spreadsheet (not modified)
+ * @param registry - Registered organizations
+ * @returns Weeks with blank categories and funding tiers looked up in the registry
+ */
+export function fillOrgMetadata(weeks: ParsedWeek[], registry: OrgRegistry): ParsedWeek[] {
+  const fill = (rows: SpreadsheetRow[]): SpreadsheetRow[] =>
+    rows.map((row) => {
+      const metadata = getOrgMetadata(row.organizationName, registry);
+      return {
+        ...row,
+        category: row.category || (metadata.category ?? ''),
+        fundingTier: row.fundingTier || (metadata.fundingTier ?? ''),
+      };
+    });
+
+  return weeks.map((week) => ({
+    ...week,
+    afrRequests: fill(week.afrRequests),
+    reallocationRequests: fill(week.reallocationRequests),
+  }));
+}
+
+/**
+ * List the submitted organization names that need review
+ * Names matched exactly (canonical or alias) are left out; unmatched names come
+ * first, then acronym and fuzzy matches to confirm.
+ *
+ * @param names - Organization names as submitted (one per request)
+ * @param registry - Registered organizations
+ * @returns One entry per distinct name
+ */
+export function reviewOrgNames(names: string[], registry: OrgRegistry): OrgNameReview[] {
+  const reviews = new Map<string, OrgNameReview>();
+
+  for (const name of names) {
+    const key = normalizeOrgName(name);
+    const existing = reviews.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      reviews.set(key, { ...resolveOrgName(name, registry), count: 1 });
+    }
+  }
+
+  const order: Record<OrgMatchType, number> = { unmatched: 0, fuzzy: 1, acronym: 2, alias: 3, canonical: 3 };
+  return Array.from(reviews.values())
+    .filter((review) => review.matchType !== 'canonical' && review.matchType !== 'alias')
+    .sort((a, b) => order[a.matchType] - order[b.matchType] || a.name.localeCompare(b.name));
+}
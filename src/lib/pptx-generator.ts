@@ -8,7 +8,11 @@
 import PptxGenJS from 'pptxgenjs';
 import { BudgetRequest } from '@/types/budget-request';
 import type { PresentationRequest } from '@/types/presentation-request';
+import type { OrgGrouping } from '@/types/org-registry';
 import { BRANDING } from '@/constants/branding';
+import { formatMeetingDate } from '@/lib/date-utils';
+import { formatCurrency } from '@/lib/currency-parser';
+import { groupByOrgDetail } from '@/lib/org-categories';
 
 // ============================================================================
 // Constants
@@ -16,6 +20,14 @@ import { BRANDING } from '@/constants/branding';
 
 const MAX_DESCRIPTION_LENGTH = 200;
 
+/**
+ * Options for the XLSX-to-PPTX presentation
+ */
+export interface PresentationOptions {
+  /** Order slides by organization category or funding tier, with a divider slide before each group */
+  groupBy?: OrgGrouping;
+}
+
 /** Badge colors for different finance routes */
 const FINANCE_ROUTE_COLORS: Record<string, { bg: string; text: string }> = {
   'Auto-Approve': { bg: '#10B981', text: '#FFFFFF' },    // Green
@@ -39,18 +51,6 @@ const STATUS_COLORS: Record<string, { bg: string; text: string }> = {
 // Helper Functions
 // ============================================================================
 
-/**
- * Format a number as USD currency
- */
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(amount);
-}
-
 /**
  * Truncate text to max length with ellipsis
  */
@@ -65,12 +65,7 @@ function truncateText(text: string, maxLength: number): string {
  * Format current date for title slide
  */
 function formatCurrentDate(): string {
-  return new Date().toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  return formatMeetingDate(new Date());
 }
 
 /**
@@ -429,6 +424,51 @@ function createWeeklyTitleSlide(pptx: PptxGenJS, weekDate: string): void {
   });
 }
 
+/**
+ * Create a divider slide introducing a category's or funding tier's requests
+ */
+function createGroupSlide(pptx: PptxGenJS, groupName: string, requests: PresentationRequest[]): void {
+  const slide = pptx.addSlide();
+  const approvedTotal = requests.reduce((sum, r) => sum + (r.status === 'Approved' ? r.finalAmount : 0), 0);
+
+  // Stevens Red header bar
+  slide.addShape('rect', {
+    x: 0,
+    y: 0,
+    w: '100%',
+    h: 0.8,
+    fill: { color: BRANDING.colors.primary.replace('#', '') },
+  });
+
+  // Category or tier name
+  slide.addText(groupName, {
+    x: 0.5,
+    y: 2.0,
+    w: 9,
+    h: 0.9,
+    fontSize: 40,
+    fontFace: BRANDING.fonts.heading,
+    bold: true,
+    color: BRANDING.colors.secondary.replace('#', ''),
+    align: 'center',
+  });
+
+  // Request count and approved total
+  slide.addText(
+    `${requests.length} request${requests.length !== 1 ? 's' : ''}  •  ${formatCurrency(approvedTotal)} approved`,
+    {
+      x: 0.5,
+      y: 2.9,
+      w: 9,
+      h: 0.5,
+      fontSize: 20,
+      fontFace: BRANDING.fonts.body,
+      color: BRANDING.colors.textMuted.replace('#', ''),
+      align: 'center',
+    }
+  );
+}
+
 /**
  * Create a presentation request slide with status badge and amended amount display
  */
@@ -646,11 +686,13 @@ function createPresentationRequestSlide(
  *
  * @param requests - Array of PresentationRequest objects from the weekly spreadsheet
  * @param weekDate - The week date string (e.g., "2/1") for the title slide
+ * @param options - Slide grouping options
  * @returns Promise<Buffer> - The generated PPTX file as a Buffer
  */
 export async function generatePPTXFromSpreadsheet(
   requests: PresentationRequest[],
-  weekDate: string
+  weekDate: string,
+  options: PresentationOptions = {}
 ): Promise<Buffer> {
   // Create new presentation
   const pptx = new PptxGenJS();
@@ -671,10 +713,19 @@ export async function generatePPTXFromSpreadsheet(
   // Create title slide with week date
   createWeeklyTitleSlide(pptx, weekDate);
 
-  // Create a slide for each request
-  requests.forEach((request, index) => {
-    createPresentationRequestSlide(pptx, request, index, requests.length);
-  });
+  // Create a slide for each request, with a divider before each group when grouping
+  const groups = options.groupBy
+    ? groupByOrgDetail(requests, options.groupBy)
+    : [{ name: '', items: requests }];
+  let index = 0;
+  for (const group of groups) {
+    if (options.groupBy) {
+      createGroupSlide(pptx, group.name, group.items);
+    }
+    for (const request of group.items) {
+      createPresentationRequestSlide(pptx, request, index++, requests.length);
+    }
+  }
 
   // Generate the PPTX file
   const output = await pptx.write({ outputType: 'nodebuffer' });
@@ -0,0 +1,41 @@
+/**
+ * Finance route dollar limits
+ *
+ * Auto-Approve and Budget Review requests are pre-filled as approved in the
+ * master spreadsheet. A request tagged with one of those routes but asking for
+ * more than the route allows was mis-routed, so it is flagged and left for the
+ * Senate instead.
+ */
+
+import type { BudgetRequest, FinanceRoute, RouteLimitExcess, RouteLimits } from '@/types/budget-request';
+import { formatCurrency } from './currency-parser';
+
+/**
+ * Check whether a string is a finance route that can have a limit
+ */
+export function isFinanceRoute(value: string): value is FinanceRoute {
+  return value === 'Auto-Approve' || value === 'Budget Review' || value === 'Sunday Meeting';
+}
+
+/**
+ * Get the limit a request's amount exceeds, if any
+ *
+ * @param request - The request to check
+ * @param limits - Dollar limits per route
+ * @returns The route and limit exceeded, or null if the amount is within the route's limit
+ */
+export function getRouteLimitExcess(request: BudgetRequest, limits: RouteLimits): RouteLimitExcess | null {
+  const limit = limits[request.financeRoute];
+  if (limit === undefined || request.amount <= limit) {
+    return null;
+  }
+  return { route: request.financeRoute, limit };
+}
+
+/**
+ * Format the note shown on requests above their route's limit
+ * Example: "Route exceeds limit (Auto-Approve max $500.00)"
+ */
+export function formatRouteLimitNote(excess: RouteLimitExcess): string {
+  return `Route exceeds limit (${excess.route} max ${formatCurrency(excess.limit)})`;
+}
@@ -0,0 +1,74 @@
+import * as ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import type { BudgetRequest } from '@/types/budget-request';
+import { detectMasterLayout } from './master-schema';
+import { mergeSpreadsheet } from './spreadsheet-merger';
+import { parseWeeklySpreadsheet } from './xlsx-parser';
+
+const request: BudgetRequest = {
+  submissionId: '101',
+  organizationName: 'SGA (#1)',
+  requestType: 'AFR',
+  amount: 250,
+  description: 'Speaker fee',
+  approvalStatus: 'Pending Approval',
+  financeRoute: 'Sunday Meeting',
+  accountNumber: '1234567',
+  submittedOn: new Date('2026-10-14T15:00:00Z'),
+  submitterName: 'Test Submitter',
+  submitterEmail: 'test@example.edu',
+};
+
+async function loadWorkbook(buffer: Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(new Uint8Array(buffer).slice().buffer as ArrayBuffer);
+  return workbook;
+}
+
+/**
+ * Find the Notes cell of the first request row on the AFR sheet
+ */
+function findNotesCell(workbook: ExcelJS.Workbook): ExcelJS.Cell {
+  const worksheet = workbook.getWorksheet('AFR Requests')!;
+  for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    if (worksheet.getRow(rowNumber).getCell(3).value === 'SGA (#1)') {
+      return worksheet.getRow(rowNumber).getCell(2);
+    }
+  }
+  throw new Error('Request row not found');
+}
+
+describe('mergeSpreadsheet', () => {
+  it('starts a semester master when none is given', async () => {
+    const { buffer } = await mergeSpreadsheet(null, [request], {
+      meetingDate: '2026-10-18',
+      semesterName: 'Fall 2026',
+      startingBudget: 10000,
+    });
+    const workbook = await loadWorkbook(buffer);
+
+    expect(detectMasterLayout(workbook)).toMatchObject({ layout: 'current', version: expect.any(Number) });
+    const afrWorksheet = workbook.getWorksheet('AFR Requests')!;
+    expect(afrWorksheet.getCell('A1').value).toBe('Fall 2026');
+    expect(afrWorksheet.getCell('I1').value).toBe(10000);
+
+    const { weeks } = await parseWeeklySpreadsheet(new Uint8Array(buffer).slice().buffer as ArrayBuffer);
+    expect(weeks.map((week) => week.afrRequests.map((row) => row.organization))).toEqual([['SGA (#1)']]);
+  });
+
+  it('keeps Notes a reviewer edited unless the export description changes', async () => {
+    const options = { meetingDate: '2026-10-18', startingBudget: 10000 };
+    const first = await loadWorkbook((await mergeSpreadsheet(null, [request], options)).buffer);
+    findNotesCell(first).value = 'Speaker fee - confirm the date with the advisor';
+    const edited = Buffer.from(await first.xlsx.writeBuffer());
+    const editedBuffer = new Uint8Array(edited).slice().buffer as ArrayBuffer;
+
+    const unchanged = await mergeSpreadsheet(editedBuffer, [request], options);
+    expect(unchanged.summary.updated).toBe(0);
+    expect(findNotesCell(await loadWorkbook(unchanged.buffer)).value).toBe('Speaker fee - confirm the date with the advisor');
+
+    const changed = await mergeSpreadsheet(editedBuffer, [{ ...request, description: 'Speaker fee and travel' }], options);
+    expect(changed.summary.updated).toBe(1);
+    expect(findNotesCell(await loadWorkbook(changed.buffer)).value).toBe('Speaker fee and travel');
+  });
+});
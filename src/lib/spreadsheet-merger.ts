@@ -5,8 +5,35 @@
  */
 
 import * as ExcelJS from 'exceljs';
-import { BudgetRequest } from '@/types/budget-request';
-import { formatMeetingDateShort } from '@/lib/date-utils';
+import { BudgetAdjustment, BudgetRequest, MergeSummary, WeekRemovalSummary } from '@/types/budget-request';
+import { formatMeetingDateShort, formatTimestamp, parseDateString, parseTimestamp, weekDateToISO } from '@/lib/date-utils';
+import { formatRouteLimitNote } from '@/lib/route-limits';
+import { formatCurrency } from '@/lib/currency-parser';
+import { SUBMITTER_NOT_ON_ROSTER_NOTE } from '@/constants/officer-roster';
+import {
+  AFR_CATEGORY_COLUMN,
+  AFR_DESCRIPTION_COLUMN,
+  AFR_LIFECYCLE_COLUMN,
+  AFR_SUBMISSION_ID_COLUMN,
+  getLifecycleColumn,
+  LIFECYCLE_COLUMNS,
+  REALLOCATION_CATEGORY_COLUMN,
+  REALLOCATION_DESCRIPTION_COLUMN,
+  REALLOCATION_LIFECYCLE_COLUMN,
+  REALLOCATION_SUBMISSION_ID_COLUMN,
+} from '@/constants/master-columns';
+import { deleteRows, insertRows, repointFormulas } from '@/lib/worksheet-rows';
+import { detectMasterLayout, stampMasterSchema } from '@/lib/master-schema';
+import { renumberLegacyOrgNames } from '@/lib/master-migration';
+import { generateMasterSpreadsheet } from '@/lib/master-generator';
+import { isUrl } from '@/lib/supporting-docs';
+import {
+  BUDGET_ADJUSTMENT_LABEL,
+  isBudgetAdjustmentRow,
+  isSameAdjustment,
+  readBudgetAdjustmentRow,
+} from '@/lib/budget-adjustments';
+import { findAFRWorksheet, findReallocationWorksheet, getCellText } from '@/lib/master-worksheets';
 
 /**
  * Column definitions matching the master spreadsheet format
@@ -23,6 +50,11 @@ import { formatMeetingDateShort } from '@/lib/date-utils';
  * J: Name of Org
  * K: Entered in KFS?
  * L: Account Number
+ * M: Supporting Docs (hyperlink to the org's spreadsheet)
+ * N-R: Submission lifecycle (see LIFECYCLE_COLUMNS)
+ * S: Category (from the org registry)
+ * T: Submission Id (hidden - lets a re-run merge skip requests already added)
+ * U: Export Description (hidden - lets a re-run merge keep Notes reviewers edited)
  */
 const AFR_COLUMNS = [
   { header: 'Date of Meeting', key: 'dateOfMeeting', width: 15 },
@@ -37,6 +69,11 @@ const AFR_COLUMNS = [
   { header: 'Name of Org', key: 'nameOfOrg', width: 30 },
   { header: 'Entered in KFS?', key: 'enteredInKFS', width: 15 },
   { header: 'Account Number', key: 'accountNumber', width: 18 },
+  { header: 'Supporting Docs', key: 'supportingDocs', width: 18 },
+  ...LIFECYCLE_COLUMNS,
+  { header: 'Category', key: 'category', width: 16 },
+  { header: 'Submission Id', key: 'submissionId', width: 14 }, // Hidden
+  { header: 'Export Description', key: 'exportDescription', width: 30 }, // Hidden
 ];
 
 /**
@@ -48,6 +85,11 @@ const AFR_COLUMNS = [
  * E: Approved Amount
  * F: Status
  * G: Account Number
+ * H: Supporting Docs (hyperlink to the org's spreadsheet)
+ * I-M: Submission lifecycle (see LIFECYCLE_COLUMNS)
+ * N: Category (from the org registry)
+ * O: Submission Id (hidden - lets a re-run merge skip requests already added)
+ * P: Export Description (hidden - lets a re-run merge keep Notes reviewers edited)
  */
 const REALLOCATION_COLUMNS = [
   { header: 'Date of Meeting', key: 'dateOfMeeting', width: 15 },
@@ -57,8 +99,47 @@ const REALLOCATION_COLUMNS = [
   { header: 'Approved Amount', key: 'approvedAmount', width: 18 },
   { header: 'Status', key: 'status', width: 12 },
   { header: 'Account Number', key: 'accountNumber', width: 18 },
+  { header: 'Supporting Docs', key: 'supportingDocs', width: 18 },
+  ...LIFECYCLE_COLUMNS,
+  { header: 'Category', key: 'category', width: 16 },
+  { header: 'Submission Id', key: 'submissionId', width: 14 }, // Hidden
+  { header: 'Export Description', key: 'exportDescription', width: 30 }, // Hidden
 ];
 
+/**
+ * Title of the master created when a merge is run without one
+ */
+const DEFAULT_SEMESTER_NAME = 'SGA Budget Master';
+
+/**
+ * Worksheet listing late requests to carry forward to the next meeting
+ * Replaced on every merge - requests listed here are added to the next week's section.
+ */
+const DEFERRED_SHEET_NAME = 'Deferred to Next Week';
+
+/**
+ * Deferred sheet columns - enough to rebuild each request on the next merge
+ */
+const DEFERRED_COLUMNS = [
+  { header: 'Submission Id', key: 'submissionId', width: 14 },
+  { header: 'Organization', key: 'organizationName', width: 30 },
+  { header: 'Request Type', key: 'requestType', width: 14 },
+  { header: 'Amount', key: 'amount', width: 14 },
+  { header: 'Approval Status', key: 'approvalStatus', width: 18 },
+  { header: 'Finance Route', key: 'financeRoute', width: 16 },
+  { header: 'Submitted On', key: 'submittedOn', width: 18 },
+  { header: 'Deferred From', key: 'deferredFrom', width: 14 },
+  { header: 'Reason', key: 'reason', width: 26 },
+  { header: 'Account Number', key: 'accountNumber', width: 18 },
+  { header: 'Description', key: 'description', width: 50 },
+  { header: 'Submitter', key: 'submitterName', width: 22 },
+  { header: 'Email', key: 'submitterEmail', width: 28 },
+  { header: 'Supporting Link', key: 'supportingLink', width: 30 },
+  { header: 'Supporting Upload', key: 'supportingUpload', width: 30 },
+] as const;
+
+type DeferredColumnKey = typeof DEFERRED_COLUMNS[number]['key'];
+
 /**
  * Stevens branding colors
  */
@@ -157,6 +238,28 @@ function styleRemainingBudgetRow(row: ExcelJS.Row): void {
   });
 }
 
+/**
+ * Apply styling to Budget Adjustment rows
+ */
+function styleBudgetAdjustmentRow(row: ExcelJS.Row): void {
+  row.height = 22;
+  row.eachCell((cell) => {
+    cell.font = { size: 12, bold: true, color: { argb: '375623' } };
+    cell.alignment = { vertical: 'middle', horizontal: 'right' };
+    cell.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'E2EFDA' }, // Light green background
+    };
+    cell.border = {
+      top: { style: 'thin', color: { argb: '70AD47' } },
+      left: { style: 'thin', color: { argb: '70AD47' } },
+      bottom: { style: 'thin', color: { argb: '70AD47' } },
+      right: { style: 'thin', color: { argb: '70AD47' } },
+    };
+  });
+}
+
 /**
  * Apply currency formatting to AFR amount columns
  */
@@ -232,25 +335,150 @@ function addReallocationColumnHeaders(worksheet: ExcelJS.Worksheet): ExcelJS.Row
   return headerRow;
 }
 
+/**
+ * Add a header for a column appended since the master was created
+ * Masters from master-generator.ts keep their column headers on row 2; a blank
+ * header cell there is filled in, styled like the header next to it.
+ */
+function ensureMasterHeader(worksheet: ExcelJS.Worksheet, column: number, header: string): void {
+  const cell = worksheet.getRow(2).getCell(column);
+  if (cell.value) return;
+  
+  cell.value = header;
+  cell.style = { ...worksheet.getRow(2).getCell(column - 1).style };
+}
+
+/**
+ * Add the "Submitter not on roster" marker to a request's notes
+ * The marker goes at the end so the route prefix stays first.
+ */
+function addRosterMarker(notes: string, request: BudgetRequest): string {
+  if (!request.submitterNotOnRoster) return notes;
+  const marker = `[${SUBMITTER_NOT_ON_ROSTER_NOTE}]`;
+  return notes ? `${notes} ${marker}` : marker;
+}
+
 /**
  * Build the Notes column value for a request
  * - For pre-approved: "[Finance Route]: [Description]"
+ * - For requests above their route's limit: "Route exceeds limit (...): [Description]"
  * - For pending: Just the description
  */
 function buildNotesValue(request: BudgetRequest): string {
+  if (request.routeLimitExceeded) {
+    const desc = request.description?.trim() || '';
+    const prefix = formatRouteLimitNote(request.routeLimitExceeded);
+    return desc ? `${prefix}: ${desc}` : prefix;
+  }
   if (request.isPreApproved) {
     // Include finance route prefix for pre-approved requests
     const route = request.financeRoute || 'Pre-Approved';
     const desc = request.description?.trim() || '';
     return desc ? `${route}: ${desc}` : route;
   }
+  // Requests carried forward from a previous week say where they came from
+  if (request.deferredFrom) {
+    const desc = request.description?.trim() || '';
+    const prefix = `Deferred from ${request.deferredFrom}`;
+    return desc ? `${prefix}: ${desc}` : prefix;
+  }
   // For pending Sunday Meeting requests, just include the description
   return request.description?.trim() || '';
 }
 
 /**
- * Add AFR requests to the worksheet with proper formulas
- * Returns the row numbers of the first and last data rows
+ * Highlight the Notes cell of a request above its route's limit
+ */
+function highlightRouteLimitCell(cell: ExcelJS.Cell, request: BudgetRequest): void {
+  if (!request.routeLimitExceeded) return;
+  cell.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'FFC7CE' }, // Light red
+  };
+  cell.font = { ...cell.font, bold: true, color: { argb: '9C0006' } };
+}
+
+/**
+ * Mark the Account Number cell of a request whose account was filled in from the registry
+ */
+function markAutoFilledAccountCell(cell: ExcelJS.Cell, request: BudgetRequest): void {
+  if (!request.accountAutoFilled) return;
+  cell.fill = {
+    type: 'pattern',
+    pattern: 'solid',
+    fgColor: { argb: 'DDEBF7' }, // Light blue
+  };
+  cell.font = { ...cell.font, italic: true };
+  cell.note = 'Auto-filled from the account registry - confirm before entering in KFS';
+}
+
+/**
+ * Fill the Supporting Docs cell for a request
+ * - Hyperlinks the spreadsheet link if provided, otherwise the uploaded file
+ * - When both exist, the upload is kept in a cell note so neither is lost
+ */
+function setSupportingDocsCell(cell: ExcelJS.Cell, request: BudgetRequest): void {
+  const link = request.supportingLink?.trim() || '';
+  const upload = request.supportingUpload?.trim() || '';
+  
+  if (!link && !upload) {
+    return;
+  }
+  
+  const primary = link || upload;
+  if (isUrl(primary)) {
+    cell.value = { text: link ? 'Spreadsheet' : 'Upload', hyperlink: primary };
+    cell.font = { size: 11, color: { argb: '0563C1' }, underline: true };
+  } else {
+    cell.value = primary;
+  }
+  
+  if (link && upload) {
+    cell.note = `Upload: ${upload}`;
+  }
+}
+
+/**
+ * Fill the submission lifecycle cells for a request, starting at the given column
+ * Rows edited after submission are highlighted so they stand out during review
+ */
+function setLifecycleCells(row: ExcelJS.Row, startColumn: number, request: BudgetRequest): void {
+  const values: ExcelJS.CellValue[] = [
+    request.submittedOn ? formatTimestamp(request.submittedOn) : '',
+    request.lastUpdatedOn ? formatTimestamp(request.lastUpdatedOn) : '',
+    request.editedAfterSubmission ? 'Yes' : '',
+    request.turnaroundHours ?? null,
+    request.approvalMessage || '',
+  ];
+  
+  values.forEach((value, offset) => {
+    row.getCell(startColumn + offset).value = value;
+  });
+  
+  if (request.editedAfterSubmission) {
+    row.getCell(getLifecycleColumn(startColumn, 'editedAfterSubmission')).fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FCE4D6' }, // Light orange
+    };
+  }
+}
+
+/**
+ * Status dropdown (Approved/Denied) for the Status column
+ */
+const STATUS_VALIDATION: ExcelJS.DataValidation = {
+  type: 'list',
+  allowBlank: true,
+  formulae: ['"Approved,Denied"'],
+  showErrorMessage: true,
+  errorTitle: 'Invalid Status',
+  error: 'Please select either Approved or Denied',
+};
+
+/**
+ * Fill a blank AFR row with a request and its formulas
  * 
  * For pre-approved requests (Auto-Approve or Budget Review):
  * - Status is set to "Approved"
@@ -258,6 +486,55 @@ function buildNotesValue(request: BudgetRequest): string {
  * - Final Amount formula will calculate based on Status
  * - Notes column contains "[Finance Route]: [Description]"
  */
+function fillAFRRow(row: ExcelJS.Row, request: BudgetRequest, dateValue: string): void {
+  const displayName = request.displayName || request.organizationName;
+  const rowNumber = row.number;
+  
+  // Determine if this is a pre-approved request
+  const isPreApproved = request.isPreApproved === true;
+  
+  // For pre-approved: set Status to "Approved" and After Amendments to the amount
+  // For pending: leave Status blank and After Amendments blank
+  const statusValue = isPreApproved ? 'Approved' : '';
+  const afterAmendmentsValue = isPreApproved ? request.amount : null;
+  
+  // Build the Notes column value
+  const notesValue = addRosterMarker(buildNotesValue(request), request);
+  
+  const values: ExcelJS.CellValue[] = [
+    dateValue, // A: Date of Meeting
+    notesValue, // B: Notes column - description (with route prefix for pre-approved)
+    displayName, // C: Organization
+    request.amount, // D: AFR'd / Requested Amount
+    { formula: `D${rowNumber}-F${rowNumber}` }, // E: Amended = AFR'd - After Amendments
+    afterAmendmentsValue, // F: After Amendments - pre-filled for approved, blank for pending
+    statusValue, // G: Status - "Approved" for pre-approved, blank for pending
+    { formula: `IF(G${rowNumber}="Approved",F${rowNumber},0)` }, // H: Final Amount
+    null, // I: Remaining Budget - only on subtotal rows
+    displayName, // J: Name of Org (same as Organization)
+    '', // K: Entered in KFS? - left blank
+    request.accountNumber, // L: Account Number
+  ];
+  values.forEach((value, index) => {
+    row.getCell(index + 1).value = value;
+  });
+  setLifecycleCells(row, AFR_LIFECYCLE_COLUMN, request); // N-R: Submission lifecycle
+  row.getCell(AFR_CATEGORY_COLUMN).value = request.category ?? ''; // S: Category
+  row.getCell(AFR_SUBMISSION_ID_COLUMN).value = request.submissionId; // T: Submission Id (hidden)
+  row.getCell(AFR_DESCRIPTION_COLUMN).value = getExportDescription(request); // U: Export Description (hidden)
+  styleDataRow(row);
+  setSupportingDocsCell(row.getCell(13), request); // M: Supporting Docs
+  highlightRouteLimitCell(row.getCell(2), request); // B: Notes
+  markAutoFilledAccountCell(row.getCell(12), request); // L: Account Number
+  
+  // Add data validation for Status column (G) - dropdown with Approved/Denied
+  row.getCell(7).dataValidation = STATUS_VALIDATION;
+}
+
+/**
+ * Add AFR requests to the worksheet with proper formulas
+ * Returns the row numbers of the first and last data rows
+ */
 function addAFRRequests(
   worksheet: ExcelJS.Worksheet,
   requests: BudgetRequest[],
@@ -266,49 +543,14 @@ function addAFRRequests(
   const firstDataRow = worksheet.lastRow ? worksheet.lastRow.number + 1 : 1;
   
   requests.forEach((request, index) => {
-    const displayName = request.displayName || request.organizationName;
     const rowNumber = worksheet.lastRow ? worksheet.lastRow.number + 1 : 1;
     
     // Only show date on first row of this week's data
     const dateValue = index === 0 ? (meetingDate || '') : '';
     
-    // Determine if this is a pre-approved request
-    const isPreApproved = request.isPreApproved === true;
-    
-    // For pre-approved: set Status to "Approved" and After Amendments to the amount
-    // For pending: leave Status blank and After Amendments blank
-    const statusValue = isPreApproved ? 'Approved' : '';
-    const afterAmendmentsValue = isPreApproved ? request.amount : null;
-    
-    // Build the Notes column value
-    const notesValue = buildNotesValue(request);
-    
-    const row = worksheet.addRow([
-      dateValue, // A: Date of Meeting
-      notesValue, // B: Notes column - description (with route prefix for pre-approved)
-      displayName, // C: Organization
-      request.amount, // D: AFR'd / Requested Amount
-      { formula: `D${rowNumber}-F${rowNumber}` }, // E: Amended = AFR'd - After Amendments
-      afterAmendmentsValue, // F: After Amendments - pre-filled for approved, blank for pending
-      statusValue, // G: Status - "Approved" for pre-approved, blank for pending
-      { formula: `IF(G${rowNumber}="Approved",F${rowNumber},0)` }, // H: Final Amount
-      null, // I: Remaining Budget - only on subtotal rows
-      displayName, // J: Name of Org (same as Organization)
-      '', // K: Entered in KFS? - left blank
-      request.accountNumber, // L: Account Number
-    ]);
-    styleDataRow(row);
-    
-    // Add data validation for Status column (G) - dropdown with Approved/Denied
-    row.getCell(7).dataValidation = {
-      type: 'list',
-      allowBlank: true,
-      formulae: ['"Approved,Denied"'],
-      showErrorMessage: true,
-      errorTitle: 'Invalid Status',
-      error: 'Please select either Approved or Denied',
-    };
+    fillAFRRow(worksheet.getRow(rowNumber), request, dateValue);
   });
+  hideTrackingColumns(worksheet, AFR_LAYOUT);
   
   const lastDataRow = worksheet.lastRow ? worksheet.lastRow.number : firstDataRow;
   
@@ -357,62 +599,75 @@ function addWeeklySubtotalRows(
 }
 
 /**
- * Add Reallocation requests to the worksheet with proper column structure
- * Adds Status dropdown for Approved/Denied selection
+ * Fill a blank Reallocation row with a request
  * 
  * For pre-approved requests (Auto-Approve or Budget Review):
  * - Status is set to "Approved"
  * - Approved Amount is set to the request amount
  * - Notes column contains "[Finance Route]: [Description]"
  */
+function fillReallocationRow(row: ExcelJS.Row, request: BudgetRequest, dateValue: string): void {
+  const displayName = request.displayName || request.organizationName;
+  
+  // Determine if this is a pre-approved request
+  const isPreApproved = request.isPreApproved === true;
+  
+  // For pre-approved: set Status to "Approved" and Approved Amount to the request amount
+  // For pending: leave Status blank and Approved Amount blank
+  const statusValue = isPreApproved ? 'Approved' : '';
+  const approvedAmountValue = isPreApproved ? request.amount : null;
+  
+  // Build the Notes column value
+  const notesValue = addRosterMarker(buildNotesValue(request), request);
+
+  const values: ExcelJS.CellValue[] = [
+    dateValue, // A: Date of Meeting
+    notesValue, // B: Notes column - description (with route prefix for pre-approved)
+    displayName, // C: Organization
+    request.amount, // D: Requested Amount
+    approvedAmountValue, // E: Approved Amount - pre-filled for approved, blank for pending
+    statusValue, // F: Status - "Approved" for pre-approved, blank for pending
+    request.accountNumber, // G: Account Number
+  ];
+  values.forEach((value, index) => {
+    row.getCell(index + 1).value = value;
+  });
+  setLifecycleCells(row, REALLOCATION_LIFECYCLE_COLUMN, request); // I-M: Submission lifecycle
+  row.getCell(REALLOCATION_CATEGORY_COLUMN).value = request.category ?? ''; // N: Category
+  row.getCell(REALLOCATION_SUBMISSION_ID_COLUMN).value = request.submissionId; // O: Submission Id (hidden)
+  row.getCell(REALLOCATION_DESCRIPTION_COLUMN).value = getExportDescription(request); // P: Export Description (hidden)
+  styleDataRow(row);
+  setSupportingDocsCell(row.getCell(8), request); // H: Supporting Docs
+  highlightRouteLimitCell(row.getCell(2), request); // B: Notes
+  markAutoFilledAccountCell(row.getCell(7), request); // G: Account Number
+
+  // Add data validation for Status column (F) - dropdown with Approved/Denied
+  row.getCell(6).dataValidation = STATUS_VALIDATION;
+}
+
+/**
+ * Add Reallocation requests to the worksheet with proper column structure
+ * Adds Status dropdown for Approved/Denied selection
+ */
 function addReallocationRequests(
   worksheet: ExcelJS.Worksheet,
   requests: BudgetRequest[],
   meetingDate?: string
 ): void {
   requests.forEach((request, index) => {
-    const displayName = request.displayName || request.organizationName;
     const rowNumber = worksheet.lastRow ? worksheet.lastRow.number + 1 : 1;
 
     // Only show date on first row of this week's data
     const dateValue = index === 0 ? (meetingDate || '') : '';
     
-    // Determine if this is a pre-approved request
-    const isPreApproved = request.isPreApproved === true;
-    
-    // For pre-approved: set Status to "Approved" and Approved Amount to the request amount
-    // For pending: leave Status blank and Approved Amount blank
-    const statusValue = isPreApproved ? 'Approved' : '';
-    const approvedAmountValue = isPreApproved ? request.amount : null;
-    
-    // Build the Notes column value
-    const notesValue = buildNotesValue(request);
-
-    const row = worksheet.addRow([
-      dateValue, // A: Date of Meeting
-      notesValue, // B: Notes column - description (with route prefix for pre-approved)
-      displayName, // C: Organization
-      request.amount, // D: Requested Amount
-      approvedAmountValue, // E: Approved Amount - pre-filled for approved, blank for pending
-      statusValue, // F: Status - "Approved" for pre-approved, blank for pending
-      request.accountNumber, // G: Account Number
-    ]);
-    styleDataRow(row);
-
-    // Add data validation for Status column (F) - dropdown with Approved/Denied
-    row.getCell(6).dataValidation = {
-      type: 'list',
-      allowBlank: true,
-      formulae: ['"Approved,Denied"'],
-      showErrorMessage: true,
-      errorTitle: 'Invalid Status',
-      error: 'Please select either Approved or Denied',
-    };
+    fillReallocationRow(worksheet.getRow(rowNumber), request, dateValue);
   });
+  hideTrackingColumns(worksheet, REALLOCATION_LAYOUT);
 }
 
 /**
  * Find the last remaining budget cell in the AFR worksheet
+ * Budget Adjustment rows are part of the chain, so the last one can be returned too.
  * Returns the cell reference (e.g., "I15") or null if not found
  */
 function findLastRemainingBudgetCell(worksheet: ExcelJS.Worksheet): string | null {
@@ -423,39 +678,597 @@ function findLastRemainingBudgetCell(worksheet: ExcelJS.Worksheet): string | nul
     if (cellG.value && typeof cellG.value === 'string' && 
         cellG.value.toLowerCase().includes('remaining budget')) {
       lastRemainingCell = `I${rowNumber}`;
+    } else if (isBudgetAdjustmentRow(row)) {
+      lastRemainingCell = `I${rowNumber}`;
     }
   });
   
   return lastRemainingCell;
 }
 
+/**
+ * Replace the Deferred to Next Week sheet with the given requests
+ * The sheet is removed when there is nothing to defer.
+ */
+function writeDeferredSheet(
+  workbook: ExcelJS.Workbook,
+  requests: BudgetRequest[],
+  meetingDate?: string
+): void {
+  const existing = workbook.getWorksheet(DEFERRED_SHEET_NAME);
+  if (existing) {
+    workbook.removeWorksheet(existing.id);
+  }
+  
+  if (requests.length === 0) {
+    return;
+  }
+  
+  const worksheet = workbook.addWorksheet(DEFERRED_SHEET_NAME, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+  worksheet.columns = DEFERRED_COLUMNS.map((col) => ({
+    width: col.width,
+    key: col.key,
+  }));
+  
+  styleHeaderRow(worksheet.addRow(DEFERRED_COLUMNS.map((col) => col.header)));
+  
+  for (const request of requests) {
+    const values: Record<DeferredColumnKey, ExcelJS.CellValue> = {
+      submissionId: request.submissionId,
+      organizationName: request.organizationName,
+      requestType: request.requestType,
+      amount: request.amount,
+      approvalStatus: request.approvalStatus,
+      financeRoute: request.financeRoute,
+      submittedOn: formatTimestamp(request.submittedOn),
+      deferredFrom: meetingDate || '',
+      reason: request.submissionTiming === 'late' ? 'Submitted after deadline' : 'Finance Review route',
+      accountNumber: request.accountNumber,
+      description: request.description,
+      submitterName: request.submitterName,
+      submitterEmail: request.submitterEmail,
+      supportingLink: request.supportingLink || '',
+      supportingUpload: request.supportingUpload || '',
+    };
+    const row = worksheet.addRow(DEFERRED_COLUMNS.map((col) => values[col.key]));
+    styleDataRow(row);
+  }
+  
+  worksheet.getColumn(4).numFmt = '"$"#,##0.00';
+}
+
+/**
+ * Read the requests deferred by the previous merge from a master spreadsheet
+ * Rows without a submission ID or a readable submission date are skipped.
+ * 
+ * @param masterBuffer - Buffer containing the master spreadsheet
+ * @returns Deferred requests, with deferredFrom set to the meeting they missed
+ */
+export async function readDeferredRequests(masterBuffer: ArrayBuffer): Promise<BudgetRequest[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(masterBuffer);
+  
+  const worksheet = workbook.getWorksheet(DEFERRED_SHEET_NAME);
+  if (!worksheet) {
+    return [];
+  }
+  
+  // Map header text to column number so reordered columns still read correctly
+  const columnNumbers = new Map<string, number>();
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    columnNumbers.set(getCellText(cell), colNumber);
+  });
+  
+  const requests: BudgetRequest[] = [];
+  
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+    
+    const get = (key: DeferredColumnKey): string => {
+      const column = DEFERRED_COLUMNS.find((col) => col.key === key);
+      const colNumber = column ? columnNumbers.get(column.header) : undefined;
+      return colNumber ? getCellText(row.getCell(colNumber)) : '';
+    };
+    
+    const submissionId = get('submissionId');
+    const submittedOn = parseTimestamp(get('submittedOn'));
+    if (!submissionId || !submittedOn) return;
+    
+    const approvalStatus = get('approvalStatus');
+    const financeRoute = get('financeRoute');
+    
+    requests.push({
+      submissionId,
+      organizationName: get('organizationName'),
+      requestType: get('requestType') === 'Reallocation' ? 'Reallocation' : 'AFR',
+      amount: parseFloat(get('amount')) || 0,
+      description: get('description'),
+      approvalStatus: approvalStatus === 'Approved' || approvalStatus === 'Denied' ? approvalStatus : 'Pending Approval',
+      financeRoute: financeRoute === 'Auto-Approve' || financeRoute === 'Budget Review' ? financeRoute : 'Sunday Meeting',
+      accountNumber: get('accountNumber'),
+      supportingLink: get('supportingLink') || undefined,
+      supportingUpload: get('supportingUpload') || undefined,
+      submittedOn,
+      submitterName: get('submitterName'),
+      submitterEmail: get('submitterEmail'),
+      deferredFrom: get('deferredFrom') || undefined,
+    });
+  });
+  
+  return requests;
+}
+
+/**
+ * Read the submission IDs already added to a master spreadsheet
+ * Uses the hidden Submission Id column on the AFR and Reallocation sheets; rows
+ * merged before the column existed have no ID and are not included.
+ * 
+ * @param masterBuffer - Buffer containing the existing master spreadsheet
+ * @returns Submission IDs found on either sheet
+ */
+export async function readMasterSubmissionIds(masterBuffer: ArrayBuffer): Promise<Set<string>> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(masterBuffer);
+  
+  const submissionIds = new Set<string>();
+  const sheets: [ExcelJS.Worksheet | undefined, number][] = [
+    [findAFRWorksheet(workbook), AFR_SUBMISSION_ID_COLUMN],
+    [findReallocationWorksheet(workbook), REALLOCATION_SUBMISSION_ID_COLUMN],
+  ];
+  
+  for (const [worksheet, column] of sheets) {
+    worksheet?.eachRow((row) => {
+      const cell = row.getCell(column);
+      // Section headers are merged across every column, including this one
+      if (cell.isMerged) return;
+      
+      const submissionId = getCellText(cell);
+      if (submissionId && submissionId !== 'Submission Id') {
+        submissionIds.add(submissionId);
+      }
+    });
+  }
+  
+  return submissionIds;
+}
+
+/**
+ * Notes prefix for rows whose request is no longer in the export
+ */
+const WITHDRAWN_MARKER = '[Withdrawn]';
+
+/**
+ * Where each sheet keeps the cells an in-place update touches (1-indexed)
+ */
+interface SectionLayout {
+  amountColumn: number;
+  /** After Amendments (AFR) or Approved Amount (Reallocation) */
+  approvedColumn: number;
+  statusColumn: number;
+  accountColumn: number;
+  lifecycleColumn: number;
+  categoryColumn: number;
+  submissionIdColumn: number;
+  /** Hidden copy of the export's description, to tell export changes from reviewer edits */
+  descriptionColumn: number;
+  /** Fills a blank row with a new request */
+  fillRow: (row: ExcelJS.Row, request: BudgetRequest, dateValue: string) => void;
+}
+
+const AFR_LAYOUT: SectionLayout = {
+  amountColumn: 4, // D
+  approvedColumn: 6, // F
+  statusColumn: 7, // G
+  accountColumn: 12, // L
+  lifecycleColumn: AFR_LIFECYCLE_COLUMN, // N
+  categoryColumn: AFR_CATEGORY_COLUMN, // S
+  submissionIdColumn: AFR_SUBMISSION_ID_COLUMN,
+  descriptionColumn: AFR_DESCRIPTION_COLUMN,
+  fillRow: fillAFRRow,
+};
+
+const REALLOCATION_LAYOUT: SectionLayout = {
+  amountColumn: 4, // D
+  approvedColumn: 5, // E
+  statusColumn: 6, // F
+  accountColumn: 7, // G
+  lifecycleColumn: REALLOCATION_LIFECYCLE_COLUMN, // I
+  categoryColumn: REALLOCATION_CATEGORY_COLUMN, // N
+  submissionIdColumn: REALLOCATION_SUBMISSION_ID_COLUMN,
+  descriptionColumn: REALLOCATION_DESCRIPTION_COLUMN,
+  fillRow: fillReallocationRow,
+};
+
+/**
+ * A meeting's "Week of" section on a sheet
+ */
+interface WeekSection {
+  /** The "Week of" header row */
+  headerRow: number;
+  /** Rows holding requests, in order */
+  dataRows: number[];
+  /** Row new requests are inserted at */
+  insertAt: number;
+  /** Weekly Subtotal row (AFR sheet only) */
+  subtotalRow: number | null;
+}
+
+/**
+ * Find the section with the given title (e.g., "Week of 1/25/26")
+ * The section runs to its Weekly Subtotal row, a blank row, or the next section header.
+ * If the title appears more than once, the last section is used.
+ */
+function findWeekSection(worksheet: ExcelJS.Worksheet, title: string): WeekSection | null {
+  let headerRow = 0;
+  worksheet.eachRow((row, rowNumber) => {
+    if (getCellText(row.getCell(1)).toLowerCase() === title.toLowerCase()) {
+      headerRow = rowNumber;
+    }
+  });
+  if (!headerRow) return null;
+  
+  const section: WeekSection = { headerRow, dataRows: [], insertAt: headerRow + 1, subtotalRow: null };
+  for (let rowNumber = headerRow + 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    // Section headers are merged across every column
+    if (row.getCell(1).isMerged) break;
+    
+    if (getCellText(row.getCell(7)).toLowerCase().includes('weekly subtotal')) {
+      section.subtotalRow = rowNumber;
+      section.insertAt = rowNumber;
+      break;
+    }
+    
+    const organization = getCellText(row.getCell(3));
+    if (!organization) break;
+    
+    // Skip the column headers row under the section header
+    if (organization !== 'Organization') {
+      section.dataRows.push(rowNumber);
+    }
+    section.insertAt = rowNumber + 1;
+  }
+  
+  return section;
+}
+
+/**
+ * Give a cell its own style before changing it
+ * Cells loaded from a file share style objects, so changing one changes them all.
+ */
+function detachStyle(cell: ExcelJS.Cell): void {
+  cell.style = { ...cell.style };
+}
+
+/**
+ * Get the description as exported, for the hidden Export Description column
+ */
+function getExportDescription(request: BudgetRequest): string {
+  return request.description?.trim() || '';
+}
+
+/**
+ * Hide the columns the merge keeps for itself (Submission Id and Export Description)
+ */
+function hideTrackingColumns(worksheet: ExcelJS.Worksheet, layout: SectionLayout): void {
+  worksheet.getColumn(layout.submissionIdColumn).hidden = true;
+  worksheet.getColumn(layout.descriptionColumn).hidden = true;
+}
+
+/**
+ * Update a row already in the master from the request's latest export
+ * The organization and Status are left as reviewers set them, and so are the Notes
+ * unless the export's description changed since the last merge. An approved amount
+ * still equal to the old amount follows the new one; an amended one is kept.
+ * 
+ * @returns Whether the notes, amount, or account changed
+ */
+function updateSectionRow(row: ExcelJS.Row, request: BudgetRequest, layout: SectionLayout): boolean {
+  let changed = false;
+  row.eachCell(detachStyle);
+  
+  // Rows merged before the Export Description column have no copy to compare - their Notes are kept
+  const notesCell = row.getCell(2); // B: Notes
+  const oldNotes = getCellText(notesCell);
+  const descriptionCell = row.getCell(layout.descriptionColumn);
+  const oldDescription = getCellText(descriptionCell);
+  const description = getExportDescription(request);
+  if (oldDescription && oldDescription !== description) {
+    notesCell.value = addRosterMarker(buildNotesValue(request), request);
+    changed = true;
+  } else if (oldNotes.startsWith(WITHDRAWN_MARKER)) {
+    notesCell.value = oldNotes.slice(WITHDRAWN_MARKER.length).trim();
+    changed = true;
+  }
+  descriptionCell.value = description;
+  
+  // A withdrawn request back in the export is restored
+  if (oldNotes.startsWith(WITHDRAWN_MARKER)) {
+    row.eachCell((cell) => {
+      cell.font = { ...cell.font, strike: false, color: undefined };
+    });
+  }
+  
+  const amountCell = row.getCell(layout.amountColumn);
+  const oldAmount = parseFloat(getCellText(amountCell).replace(/[$,]/g, ''));
+  if (oldAmount !== request.amount) {
+    const approvedCell = row.getCell(layout.approvedColumn);
+    if (typeof approvedCell.value === 'number' && approvedCell.value === oldAmount) {
+      approvedCell.value = request.amount;
+    }
+    amountCell.value = request.amount;
+    amountCell.fill = {
+      type: 'pattern',
+      pattern: 'solid',
+      fgColor: { argb: 'FFEB9C' }, // Light yellow
+    };
+    amountCell.note = Number.isNaN(oldAmount)
+      ? 'Updated from CampusGroups'
+      : `Updated from CampusGroups - was ${formatCurrency(oldAmount)}`;
+    changed = true;
+  }
+  
+  const accountCell = row.getCell(layout.accountColumn);
+  if (request.accountNumber && getCellText(accountCell) !== request.accountNumber) {
+    accountCell.value = request.accountNumber;
+    markAutoFilledAccountCell(accountCell, request);
+    changed = true;
+  }
+  
+  setLifecycleCells(row, layout.lifecycleColumn, request);
+  if (request.category) {
+    row.getCell(layout.categoryColumn).value = request.category;
+  }
+  
+  return changed;
+}
+
+/**
+ * Mark a row whose request is no longer in the export as withdrawn
+ * Notes are prefixed with "[Withdrawn]", Status is cleared so the row no longer
+ * counts as approved, and the row is struck through. The row itself is kept.
+ * 
+ * @returns Whether the row was marked (false if it already was)
+ */
+function markWithdrawnRow(row: ExcelJS.Row, layout: SectionLayout): boolean {
+  const notesCell = row.getCell(2); // B: Notes
+  const notes = getCellText(notesCell);
+  if (notes.startsWith(WITHDRAWN_MARKER)) return false;
+  
+  notesCell.value = notes ? `${WITHDRAWN_MARKER} ${notes}` : WITHDRAWN_MARKER;
+  row.getCell(layout.statusColumn).value = '';
+  row.eachCell((cell) => {
+    detachStyle(cell);
+    cell.font = { ...cell.font, strike: true, color: { argb: '808080' } };
+  });
+  return true;
+}
+
+/**
+ * Bring an existing week's section up to date in place
+ * - Rows whose request is in the export are updated (see updateSectionRow)
+ * - Rows whose request is missing from activeSubmissionIds are marked withdrawn
+ * - New requests are inserted at the end of the section, moving the rows below down
+ *   (formulas below, including the Remaining Budget chain, follow their rows)
+ * - The Weekly Subtotal SUM is rewritten to cover every row in the section
+ * Rows without a submission ID are left as they are.
+ */
+function updateWeekSection(
+  worksheet: ExcelJS.Worksheet,
+  section: WeekSection,
+  layout: SectionLayout,
+  requestsById: Map<string, BudgetRequest>,
+  newRequests: BudgetRequest[],
+  activeSubmissionIds: Set<string> | undefined,
+  meetingDate?: string
+): { updated: number; withdrawn: number } {
+  let updated = 0;
+  let withdrawn = 0;
+  
+  for (const rowNumber of section.dataRows) {
+    const row = worksheet.getRow(rowNumber);
+    const submissionId = getCellText(row.getCell(layout.submissionIdColumn));
+    if (!submissionId) continue;
+    
+    const request = requestsById.get(submissionId);
+    if (request) {
+      if (updateSectionRow(row, request, layout)) updated++;
+    } else if (activeSubmissionIds && !activeSubmissionIds.has(submissionId)) {
+      if (markWithdrawnRow(row, layout)) withdrawn++;
+    }
+  }
+  
+  if (newRequests.length > 0) {
+    insertRows(worksheet, section.insertAt, newRequests.length);
+    newRequests.forEach((request, index) => {
+      // An empty section still needs its date on the first row
+      const dateValue = section.dataRows.length === 0 && index === 0 ? (meetingDate || '') : '';
+      layout.fillRow(worksheet.getRow(section.insertAt + index), request, dateValue);
+    });
+    hideTrackingColumns(worksheet, layout);
+  }
+  
+  if (section.subtotalRow !== null && section.dataRows.length + newRequests.length > 0) {
+    const subtotalRow = section.subtotalRow + newRequests.length;
+    const firstDataRow = section.dataRows[0] ?? section.insertAt;
+    worksheet.getRow(subtotalRow).getCell(8).value = { formula: `SUM(H${firstDataRow}:H${subtotalRow - 1})` };
+  }
+  
+  return { updated, withdrawn };
+}
+
+/**
+ * A row in the Remaining Budget chain on the AFR sheet
+ */
+interface ChainRow {
+  row: number;
+  kind: 'remaining' | 'adjustment';
+}
+
+/**
+ * Find the Remaining Budget and Budget Adjustment rows on the AFR sheet, in order,
+ * along with each week's header row and date
+ */
+function findBudgetChain(worksheet: ExcelJS.Worksheet): {
+  chainRows: ChainRow[];
+  weekHeaders: { row: number; dateISO: string | null }[];
+} {
+  const chainRows: ChainRow[] = [];
+  const weekHeaders: { row: number; dateISO: string | null }[] = [];
+  
+  worksheet.eachRow((row, rowNumber) => {
+    const title = getCellText(row.getCell(1)).match(/^Week\s+of\s+(.+)$/i);
+    if (title) {
+      weekHeaders.push({ row: rowNumber, dateISO: weekDateToISO(title[1]) });
+    } else if (getCellText(row.getCell(7)).toLowerCase().includes('remaining budget')) {
+      chainRows.push({ row: rowNumber, kind: 'remaining' });
+    } else if (isBudgetAdjustmentRow(row)) {
+      chainRows.push({ row: rowNumber, kind: 'adjustment' });
+    }
+  });
+  
+  return { chainRows, weekHeaders };
+}
+
+/**
+ * Insert a Budget Adjustment row into the AFR sheet's Remaining Budget chain
+ * 
+ * The row goes just above the first week on or after the adjustment's date (or at
+ * the end, if there is none), after any adjustments already there. Its Remaining
+ * Budget is ={previous chain cell}+D{row}, and the formula that followed the
+ * previous chain cell (the next week's Remaining Budget) now follows this row.
+ */
+function addBudgetAdjustment(
+  worksheet: ExcelJS.Worksheet,
+  adjustment: BudgetAdjustment,
+  initialBudgetCell: string
+): void {
+  const { chainRows, weekHeaders } = findBudgetChain(worksheet);
+  const nextWeek = weekHeaders.find((week) => week.dateISO !== null && adjustment.date <= week.dateISO);
+  const previous = chainRows.filter((chainRow) => !nextWeek || chainRow.row < nextWeek.row).pop();
+  const previousCell = previous ? `I${previous.row}` : initialBudgetCell;
+  
+  // Adjustments are kept apart from the weeks around them by a blank row
+  let insertAt = worksheet.rowCount + 1;
+  let blankAbove = true;
+  let blankBelow = false;
+  if (previous) {
+    insertAt = previous.row + 1;
+    blankAbove = previous.kind === 'remaining';
+  } else if (nextWeek) {
+    // The row above the first week's header is already blank
+    insertAt = nextWeek.row;
+    blankAbove = false;
+    blankBelow = true;
+  }
+  insertRows(worksheet, insertAt, 1 + (blankAbove ? 1 : 0) + (blankBelow ? 1 : 0));
+  
+  const rowNumber = blankAbove ? insertAt + 1 : insertAt;
+  repointFormulas(worksheet, previousCell, `I${rowNumber}`);
+  
+  const dateObj = parseDateString(adjustment.date);
+  const rowData = new Array(AFR_COLUMNS.length).fill('');
+  rowData[0] = dateObj ? formatMeetingDateShort(dateObj) : adjustment.date; // A
+  rowData[1] = adjustment.memo; // B
+  rowData[2] = adjustment.source; // C
+  rowData[3] = adjustment.amount; // D
+  rowData[6] = BUDGET_ADJUSTMENT_LABEL; // G
+  
+  const row = worksheet.getRow(rowNumber);
+  row.values = rowData;
+  row.getCell(9).value = { formula: `${previousCell}+D${rowNumber}` }; // I
+  styleBudgetAdjustmentRow(row);
+}
+
+/**
+ * Add budget adjustments to the AFR sheet, oldest first
+ * Adjustments the sheet already lists (same date, source, amount, and memo) are skipped.
+ * 
+ * @returns Number of adjustments added
+ */
+function addBudgetAdjustments(
+  worksheet: ExcelJS.Worksheet,
+  adjustments: BudgetAdjustment[],
+  initialBudgetCell: string
+): number {
+  const existing: BudgetAdjustment[] = [];
+  worksheet.eachRow((row) => {
+    const adjustment = readBudgetAdjustmentRow(row);
+    if (adjustment) existing.push(adjustment);
+  });
+  
+  const toAdd = adjustments
+    .filter((adjustment) => !existing.some((other) => isSameAdjustment(adjustment, other)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  
+  for (const adjustment of toAdd) {
+    addBudgetAdjustment(worksheet, adjustment, initialBudgetCell);
+  }
+  if (toAdd.length > 0) {
+    applyAFRCurrencyFormat(worksheet);
+  }
+  
+  return toAdd.length;
+}
+
 interface MergeOptions {
   meetingDate?: string;
   /** Cell reference for initial budget (e.g., "I1"). Defaults to "I1" */
   initialBudgetCell?: string;
+  /** Late requests to list on the Deferred to Next Week sheet (replaces the previous list) */
+  deferredRequests?: BudgetRequest[];
+  /**
+   * Submission IDs still in the export - rows in the meeting's existing section with
+   * any other ID are marked withdrawn. Nothing is marked withdrawn when omitted.
+   */
+  activeSubmissionIds?: Set<string>;
+  /** Budget adjustments to list on the AFR sheet between the weeks around their dates */
+  budgetAdjustments?: BudgetAdjustment[];
+  /** Title of the master created when none is given (defaults to "SGA Budget Master") */
+  semesterName?: string;
+  /** Starting budget (I1) of the master created when none is given (defaults to 0) */
+  startingBudget?: number;
+}
+
+interface MergeResult {
+  buffer: Buffer;
+  summary: MergeSummary;
 }
 
 /**
  * Merge new requests into an existing master spreadsheet
  * 
- * If master exists:
+ * Requests whose submission ID is already in the master are not added again.
+ * 
+ * If master exists and already has a "Week of" section for the meeting date:
+ * - Updates the section's rows from their requests and marks withdrawn ones
+ * - Inserts new requests at the end of the section and rewrites the weekly subtotal
+ * 
+ * If master exists without a section for the meeting date:
  * - Appends new AFR requests to the AFR sheet with formulas
  * - Appends new Reallocation requests to the Reallocation sheet
  * - Adds weekly subtotal and remaining budget rows
  * 
+ * Either way, replaces the Deferred to Next Week sheet when deferredRequests is given,
+ * and lists budgetAdjustments on the AFR sheet ahead of the first week on or after
+ * each adjustment's date, with the Remaining Budget chain running through them.
+ * 
  * If master doesn't exist:
- * - Creates a new spreadsheet with the standard format
+ * - Starts from a new semester master (generateMasterSpreadsheet) titled semesterName
+ *   with startingBudget in I1, then adds the week as above
  * 
  * @param masterBuffer - Buffer containing the existing master spreadsheet (optional)
- * @param newRequests - Array of new BudgetRequest objects to add
+ * @param newRequests - Requests to add, or to update if already in the meeting's section
  * @param options - Merge options including meeting date
- * @returns Promise resolving to a Buffer containing the merged .xlsx file
+ * @returns Promise resolving to the merged .xlsx file and a summary of what changed
  */
 export async function mergeSpreadsheet(
   masterBuffer: ArrayBuffer | null,
   newRequests: BudgetRequest[],
   options: MergeOptions = {}
-): Promise<Buffer> {
+): Promise<MergeResult> {
   const workbook = new ExcelJS.Workbook();
   const initialBudgetCell = options.initialBudgetCell || 'I1';
   
@@ -463,15 +1276,28 @@ export async function mergeSpreadsheet(
   let formattedMeetingDate = options.meetingDate;
   if (options.meetingDate) {
     // Try to parse and format the date
-    const dateObj = new Date(options.meetingDate);
-    if (!isNaN(dateObj.getTime())) {
+    const dateObj = parseDateString(options.meetingDate);
+    if (dateObj) {
       formattedMeetingDate = formatMeetingDateShort(dateObj);
     }
   }
   
+  // Skip requests the master already has, so re-running a merge never adds them twice
+  const existingIds = masterBuffer ? await readMasterSubmissionIds(masterBuffer) : new Set<string>();
+  const requestsToAdd = newRequests.filter((r) => !existingIds.has(r.submissionId));
+  const requestsById = new Map(newRequests.map((r) => [r.submissionId, r]));
+  const summary: MergeSummary = {
+    added: requestsToAdd.length,
+    updated: 0,
+    withdrawn: 0,
+    alreadyInMaster: 0,
+    adjustmentsAdded: 0,
+  };
+  const sectionTitle = `Week of ${formattedMeetingDate || 'Pending'}`;
+  
   // Separate new requests by type
-  const newAfrRequests = newRequests.filter((r) => r.requestType === 'AFR');
-  const newReallocationRequests = newRequests.filter((r) => r.requestType === 'Reallocation');
+  const newAfrRequests = requestsToAdd.filter((r) => r.requestType === 'AFR');
+  const newReallocationRequests = requestsToAdd.filter((r) => r.requestType === 'Reallocation');
   
   // Sort requests: pre-approved (Auto-Approve, Budget Review) first, then pending (Sunday Meeting)
   // This makes it easier to review - approved items at top, items needing decisions below
@@ -491,197 +1317,247 @@ export async function mergeSpreadsheet(
   newAfrRequests.sort(sortByApprovalStatus);
   newReallocationRequests.sort(sortByApprovalStatus);
   
-  if (masterBuffer) {
-    // Load existing workbook
-    await workbook.xlsx.load(masterBuffer);
-    
-    // Handle AFR sheet
-    // Support both legacy and new master-generator sheet names
-    let afrWorksheet =
-      workbook.getWorksheet('AFR Requests') ||
-      workbook.getWorksheet('AFR') ||
-      workbook.getWorksheet('Sunday Meeting') ||
-      workbook.getWorksheet(1);
-    
-    if (!afrWorksheet) {
-      afrWorksheet = workbook.addWorksheet('AFR Requests', {
-        views: [{ state: 'frozen', ySplit: 2 }],
-      });
-      afrWorksheet.columns = AFR_COLUMNS.map((col) => ({
-        width: col.width,
-        key: col.key,
-      }));
-    }
-    
-    // Handle Reallocation sheet
-    // Support both legacy and new master-generator sheet names
-    let reallocationWorksheet =
-      workbook.getWorksheet('Reallocation Requests') || workbook.getWorksheet('Reallocation');
-    
-    if (!reallocationWorksheet && newReallocationRequests.length > 0) {
-      reallocationWorksheet = workbook.addWorksheet('Reallocation Requests', {
-        views: [{ state: 'frozen', ySplit: 2 }],
-      });
-      reallocationWorksheet.columns = REALLOCATION_COLUMNS.map((col) => ({
-        width: col.width,
-        key: col.key,
-      }));
-      addReallocationColumnHeaders(reallocationWorksheet);
-    }
-    
-    // Add new AFR requests if any
-    if (newAfrRequests.length > 0) {
-      // Find the last remaining budget cell to chain the formula
-      const previousRemainingCell = findLastRemainingBudgetCell(afrWorksheet);
-      
-      // Add a blank row separator if there's existing data
-      const lastRow = afrWorksheet.lastRow?.number || 0;
-      
-      if (lastRow > 0) {
-        afrWorksheet.addRow([]);
-      }
-      
-      // Add section header
-      addSectionHeader(afrWorksheet, `Week of ${formattedMeetingDate || 'Pending'}`, AFR_COLUMNS.length);
-
-      // Only add column headers when we are creating a new "weekly section" style sheet.
-      // For the semester master (generated by master-generator.ts), the column headers already exist on Row 2.
-      const existingHeaderCellA2 = afrWorksheet.getCell('A2')?.value;
-      
-      const hasMasterHeader =
-        typeof existingHeaderCellA2 === 'string' &&
-        existingHeaderCellA2.toLowerCase().includes('date');
-      
-      if (!hasMasterHeader) {
-        addAFRColumnHeaders(afrWorksheet);
-      }
-      
-      // Add the AFR requests with formulas
-      const { firstDataRow, lastDataRow } = addAFRRequests(
-        afrWorksheet, 
-        newAfrRequests, 
-        formattedMeetingDate
-      );
-      
-      // Add weekly subtotal and remaining budget rows
-      addWeeklySubtotalRows(
-        afrWorksheet,
-        firstDataRow,
-        lastDataRow,
-        previousRemainingCell,
-        initialBudgetCell
-      );
-      
-      // Apply currency formatting
-      applyAFRCurrencyFormat(afrWorksheet);
-    }
-    
-    // Add new Reallocation requests if any
-    if (newReallocationRequests.length > 0 && reallocationWorksheet) {
-      // Add a blank row separator if there's existing data
-      const reallocationLastRow = reallocationWorksheet.lastRow?.number || 0;
-      
-      if (reallocationLastRow > 0) {
-        reallocationWorksheet.addRow([]);
-      }
-      
-      // Add section header for the week (matching AFR format for xlsx-parser)
-      addSectionHeader(reallocationWorksheet, `Week of ${formattedMeetingDate || 'Pending'}`, REALLOCATION_COLUMNS.length);
-      
-      addReallocationRequests(reallocationWorksheet, newReallocationRequests, formattedMeetingDate);
-      applyReallocationCurrencyFormat(reallocationWorksheet);
-    }
-    
-  } else {
-    // No master - create fresh spreadsheet
-    workbook.creator = 'SGA Finance Platform';
-    workbook.created = new Date();
-    
-    // Create AFR worksheet
-    const afrWorksheet = workbook.addWorksheet('AFR', {
-      views: [{ state: 'frozen', ySplit: 1 }],
+  // Without a master, start from a new semester master so the merged file has the
+  // current layout, schema stamp and starting budget in I1
+  const baseBuffer = masterBuffer ?? new Uint8Array(await generateMasterSpreadsheet({
+    semesterName: options.semesterName || DEFAULT_SEMESTER_NAME,
+    startingBudget: options.startingBudget ?? 0,
+  })).buffer as ArrayBuffer;
+  await workbook.xlsx.load(baseBuffer);
+  
+  // Semester masters (master-generator.ts) keep their column headers on row 2;
+  // other layouts repeat them under every week's section header
+  const { layout, version } = detectMasterLayout(workbook);
+  const isCurrentLayout = layout === 'current';
+  if (isCurrentLayout) {
+    // Stamped masters are read with "(#N)" numbering only, so older "SGA 1" names are rewritten first
+    if (version === null) renumberLegacyOrgNames(workbook);
+    stampMasterSchema(workbook);
+  }
+  
+  // Handle AFR sheet
+  let afrWorksheet = findAFRWorksheet(workbook);
+  
+  if (!afrWorksheet) {
+    afrWorksheet = workbook.addWorksheet('AFR Requests', {
+      views: [{ state: 'frozen', ySplit: 2 }],
     });
-    
     afrWorksheet.columns = AFR_COLUMNS.map((col) => ({
       width: col.width,
       key: col.key,
     }));
+  }
+  
+  // Handle Reallocation sheet
+  let reallocationWorksheet = findReallocationWorksheet(workbook);
+  
+  if (!reallocationWorksheet && newReallocationRequests.length > 0) {
+    reallocationWorksheet = workbook.addWorksheet('Reallocation Requests', {
+      views: [{ state: 'frozen', ySplit: 2 }],
+    });
+    reallocationWorksheet.columns = REALLOCATION_COLUMNS.map((col) => ({
+      width: col.width,
+      key: col.key,
+    }));
+    addReallocationColumnHeaders(reallocationWorksheet);
+  }
+  
+  // Update the meeting's section in place if the master already has one
+  const afrSection = findWeekSection(afrWorksheet, sectionTitle);
+  if (afrSection) {
+    const { updated, withdrawn } = updateWeekSection(
+      afrWorksheet,
+      afrSection,
+      AFR_LAYOUT,
+      requestsById,
+      newAfrRequests,
+      options.activeSubmissionIds,
+      formattedMeetingDate
+    );
+    summary.updated += updated;
+    summary.withdrawn += withdrawn;
+    applyAFRCurrencyFormat(afrWorksheet);
+  } else if (newAfrRequests.length > 0) {
+    // Otherwise add a new section if there are new AFR requests
+    // Find the last remaining budget cell to chain the formula
+    const previousRemainingCell = findLastRemainingBudgetCell(afrWorksheet);
     
-    // Add initial budget row (row 2 after header)
-    addAFRColumnHeaders(afrWorksheet);
+    // Add a blank row separator if there's existing data
+    const lastRow = afrWorksheet.lastRow?.number || 0;
     
-    // Add a row for initial budget (this will be row 2)
-    const budgetRow = afrWorksheet.addRow([
-      '', // A
-      '', // B
-      'Initial Budget', // C
-      '', // D
-      '', // E
-      '', // F
-      '', // G
-      '', // H
-      null, // I - This is where user enters initial budget
-      '', // J
-      '', // K
-      '', // L
-    ]);
-    styleDataRow(budgetRow);
-    budgetRow.getCell(9).note = 'Enter the initial budget amount here';
+    if (lastRow > 0) {
+      afrWorksheet.addRow([]);
+    }
     
-    // Add AFR section if there are AFR requests
-    if (newAfrRequests.length > 0) {
-      afrWorksheet.addRow([]); // Blank separator row
-      
-      addSectionHeader(afrWorksheet, `Week of ${formattedMeetingDate || 'Pending'}`, AFR_COLUMNS.length);
+    // Add section header
+    addSectionHeader(afrWorksheet, `Week of ${formattedMeetingDate || 'Pending'}`, AFR_COLUMNS.length);
+
+    // Only add column headers when we are creating a new "weekly section" style sheet.
+    // For the semester master (generated by master-generator.ts), the column headers already exist on Row 2.
+    if (!isCurrentLayout) {
       addAFRColumnHeaders(afrWorksheet);
-      
-      // Add the AFR requests with formulas
-      const { firstDataRow, lastDataRow } = addAFRRequests(
-        afrWorksheet, 
-        newAfrRequests, 
-        formattedMeetingDate
-      );
-      
-      // Add weekly subtotal and remaining budget rows
-      // For new spreadsheet, this is the first week so previousRemainingCell is null
-      addWeeklySubtotalRows(
-        afrWorksheet,
-        firstDataRow,
-        lastDataRow,
-        null, // No previous remaining cell
-        initialBudgetCell
-      );
+    } else {
+      ensureMasterHeader(afrWorksheet, AFR_CATEGORY_COLUMN, 'Category'); // S
+      ensureMasterHeader(afrWorksheet, AFR_SUBMISSION_ID_COLUMN, 'Submission Id'); // T
+      ensureMasterHeader(afrWorksheet, AFR_DESCRIPTION_COLUMN, 'Export Description'); // U
     }
     
+    // Add the AFR requests with formulas
+    const { firstDataRow, lastDataRow } = addAFRRequests(
+      afrWorksheet, 
+      newAfrRequests, 
+      formattedMeetingDate
+    );
+    
+    // Add weekly subtotal and remaining budget rows
+    addWeeklySubtotalRows(
+      afrWorksheet,
+      firstDataRow,
+      lastDataRow,
+      previousRemainingCell,
+      initialBudgetCell
+    );
+    
     // Apply currency formatting
     applyAFRCurrencyFormat(afrWorksheet);
+  }
+  
+  const reallocationSection = reallocationWorksheet ? findWeekSection(reallocationWorksheet, sectionTitle) : null;
+  if (reallocationWorksheet && reallocationSection) {
+    const { updated, withdrawn } = updateWeekSection(
+      reallocationWorksheet,
+      reallocationSection,
+      REALLOCATION_LAYOUT,
+      requestsById,
+      newReallocationRequests,
+      options.activeSubmissionIds,
+      formattedMeetingDate
+    );
+    summary.updated += updated;
+    summary.withdrawn += withdrawn;
+    applyReallocationCurrencyFormat(reallocationWorksheet);
+  } else if (newReallocationRequests.length > 0 && reallocationWorksheet) {
+    // Otherwise add a new section if there are new Reallocation requests
+    // Add a blank row separator if there's existing data
+    const reallocationLastRow = reallocationWorksheet.lastRow?.number || 0;
     
-    // Create Reallocation worksheet if there are reallocation requests
-    if (newReallocationRequests.length > 0) {
-      const reallocationWorksheet = workbook.addWorksheet('Reallocation Requests', {
-        views: [{ state: 'frozen', ySplit: 2 }],
-      });
-      
-      reallocationWorksheet.columns = REALLOCATION_COLUMNS.map((col) => ({
-        width: col.width,
-        key: col.key,
-      }));
-      
-      // Add section header for the week (matching AFR format for xlsx-parser)
-      addSectionHeader(reallocationWorksheet, `Week of ${formattedMeetingDate || 'Pending'}`, REALLOCATION_COLUMNS.length);
-      addReallocationColumnHeaders(reallocationWorksheet);
-      addReallocationRequests(reallocationWorksheet, newReallocationRequests, formattedMeetingDate);
-      applyReallocationCurrencyFormat(reallocationWorksheet);
+    if (reallocationLastRow > 0) {
+      reallocationWorksheet.addRow([]);
     }
     
-    // If no requests at all, add placeholder
-    if (newRequests.length === 0) {
-      // AFR worksheet already has headers and initial budget row
-      // Just add a note that no requests are pending
+    // Add section header for the week (matching AFR format for xlsx-parser)
+    addSectionHeader(reallocationWorksheet, `Week of ${formattedMeetingDate || 'Pending'}`, REALLOCATION_COLUMNS.length);
+    
+    // Semester masters keep their column headers on row 2
+    const reallocationHeaderCellA2 = reallocationWorksheet.getCell('A2')?.value;
+    if (typeof reallocationHeaderCellA2 === 'string' && reallocationHeaderCellA2.toLowerCase().includes('date')) {
+      ensureMasterHeader(reallocationWorksheet, REALLOCATION_CATEGORY_COLUMN, 'Category'); // N
+      ensureMasterHeader(reallocationWorksheet, REALLOCATION_SUBMISSION_ID_COLUMN, 'Submission Id'); // O
+      ensureMasterHeader(reallocationWorksheet, REALLOCATION_DESCRIPTION_COLUMN, 'Export Description'); // P
     }
+    
+    addReallocationRequests(reallocationWorksheet, newReallocationRequests, formattedMeetingDate);
+    applyReallocationCurrencyFormat(reallocationWorksheet);
+  }
+  
+  // List budget adjustments between the weeks around their dates
+  const adjustmentWorksheet = findAFRWorksheet(workbook);
+  if (options.budgetAdjustments && adjustmentWorksheet) {
+    summary.adjustmentsAdded = addBudgetAdjustments(adjustmentWorksheet, options.budgetAdjustments, initialBudgetCell);
+  }
+  
+  // Record late requests so the next merge can carry them forward
+  if (options.deferredRequests) {
+    writeDeferredSheet(workbook, options.deferredRequests, formattedMeetingDate);
   }
   
+  summary.alreadyInMaster = newRequests.length - requestsToAdd.length - summary.updated;
+  
   // Generate buffer
   const buffer = await workbook.xlsx.writeBuffer();
-  return Buffer.from(buffer);
+  return { buffer: Buffer.from(buffer), summary };
+}
+
+/**
+ * Find the rows a week's section covers, from its header to its last row
+ * The AFR section ends with its Remaining Budget row. The blank separator row
+ * above the header (or below the section, for the first one) is included so no
+ * gap is left behind.
+ */
+function getSectionRowRange(worksheet: ExcelJS.Worksheet, section: WeekSection): { first: number; last: number } {
+  let last = section.insertAt - 1;
+  if (section.subtotalRow !== null) {
+    const nextRow = worksheet.getRow(section.subtotalRow + 1);
+    last = getCellText(nextRow.getCell(7)).toLowerCase().includes('remaining budget')
+      ? section.subtotalRow + 1
+      : section.subtotalRow;
+  }
+  
+  const rowAbove = section.headerRow > 1 ? worksheet.getRow(section.headerRow - 1) : null;
+  if (rowAbove && !rowAbove.hasValues) {
+    return { first: section.headerRow - 1, last };
+  }
+  
+  const hasSeparatorBelow = last < worksheet.rowCount && !worksheet.getRow(last + 1).hasValues;
+  return { first: section.headerRow, last: hasSeparatorBelow ? last + 1 : last };
+}
+
+/**
+ * Remove a week's section from the AFR and Reallocation sheets of a master spreadsheet
+ * 
+ * The next week's Remaining Budget formula is pointed at the cell the removed week's
+ * own Remaining Budget started from (the week before, or the initial budget), so the
+ * chain stays intact. Subtotals and formulas below move up with their rows.
+ * 
+ * @param masterBuffer - Buffer containing the master spreadsheet
+ * @param weekTitle - Section header of the week to remove (e.g., "Week of 1/25/26")
+ * @returns The repaired .xlsx file and a summary of what was removed
+ * @throws Error if neither sheet has a section with that header
+ */
+export async function removeWeek(
+  masterBuffer: ArrayBuffer,
+  weekTitle: string
+): Promise<{ buffer: Buffer; summary: WeekRemovalSummary }> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(masterBuffer);
+  
+  const summary: WeekRemovalSummary = {
+    week: weekTitle,
+    afrRequests: 0,
+    reallocationRequests: 0,
+    repointedFormulas: 0,
+  };
+  
+  const afrWorksheet = findAFRWorksheet(workbook);
+  const afrSection = afrWorksheet ? findWeekSection(afrWorksheet, weekTitle) : null;
+  if (afrWorksheet && afrSection) {
+    const { first, last } = getSectionRowRange(afrWorksheet, afrSection);
+    
+    // Re-point the next week's Remaining Budget at what this week's started from
+    const remainingCell = afrWorksheet.getRow(last).getCell(9);
+    if (remainingCell.type === ExcelJS.ValueType.Formula) {
+      const previousCell = remainingCell.formula.match(/^\s*(\$?[A-Z]{1,3}\$?\d+)\s*-/)?.[1];
+      if (previousCell) {
+        summary.repointedFormulas = repointFormulas(afrWorksheet, `I${last}`, previousCell.replace(/\$/g, ''));
+      }
+    }
+    
+    deleteRows(afrWorksheet, first, last - first + 1);
+    summary.afrRequests = afrSection.dataRows.length;
+  }
+  
+  const reallocationWorksheet = findReallocationWorksheet(workbook);
+  const reallocationSection = reallocationWorksheet ? findWeekSection(reallocationWorksheet, weekTitle) : null;
+  if (reallocationWorksheet && reallocationSection) {
+    const { first, last } = getSectionRowRange(reallocationWorksheet, reallocationSection);
+    deleteRows(reallocationWorksheet, first, last - first + 1);
+    summary.reallocationRequests = reallocationSection.dataRows.length;
+  }
+  
+  if (!afrSection && !reallocationSection) {
+    throw new Error(`"${weekTitle}" was not found in the master spreadsheet`);
+  }
+  
+  const buffer = await workbook.xlsx.writeBuffer();
+  return { buffer: Buffer.from(buffer), summary };
 }
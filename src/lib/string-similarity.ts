@@ -0,0 +1,92 @@
+/**
+ * String similarity helpers
+ *
+ * Scores how closely two strings match so the platform can suggest
+ * near matches when an exact lookup fails (e.g., reworded CSV headers).
+ */
+
+/**
+ * Normalize a string for comparison
+ * Lowercases, replaces punctuation with spaces, and collapses whitespace
+ */
+export function normalizeForComparison(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Count the character bigrams in a string
+ */
+function getBigrams(value: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+
+  for (let i = 0; i < value.length - 1; i++) {
+    const bigram = value.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  return bigrams;
+}
+
+/**
+ * Score the similarity of two strings (Sørensen–Dice coefficient over bigrams)
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Score between 0 (nothing in common) and 1 (identical after normalization)
+ */
+export function similarity(a: string, b: string): number {
+  const normalizedA = normalizeForComparison(a);
+  const normalizedB = normalizeForComparison(b);
+
+  if (normalizedA === normalizedB) {
+    return 1;
+  }
+
+  if (normalizedA.length < 2 || normalizedB.length < 2) {
+    return 0;
+  }
+
+  const bigramsA = getBigrams(normalizedA);
+  const bigramsB = getBigrams(normalizedB);
+
+  let intersection = 0;
+  for (const [bigram, countA] of bigramsA) {
+    const countB = bigramsB.get(bigram) || 0;
+    intersection += Math.min(countA, countB);
+  }
+
+  return (2 * intersection) / (normalizedA.length - 1 + normalizedB.length - 1);
+}
+
+/**
+ * Find the candidate most similar to a target string
+ *
+ * @param target - String to match
+ * @param candidates - Strings to compare against
+ * @returns The best candidate and its score, or null if there are no candidates
+ */
+export function findClosestMatch(
+  target: string,
+  candidates: string[]
+): { value: string; score: number } | null {
+  let best: { value: string; score: number } | null = null;
+
+  for (const candidate of candidates) {
+    const score = similarity(target, candidate);
+    if (!best || score > best.score) {
+      best = { value: candidate, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Format a similarity score as a whole percentage (e.g., "94%")
+ */
+export function formatSimilarity(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
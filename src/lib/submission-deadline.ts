@@ -0,0 +1,104 @@
+/**
+ * Submission deadline handling
+ *
+ * Requests must be submitted by a deadline before the meeting they are heard at
+ * (by default Thursday 11:59 PM before Sunday). Later submissions are deferred
+ * to the following week's agenda.
+ */
+
+import type { BudgetRequest, SubmissionDeadline } from '@/types/budget-request';
+import { DEFAULT_SUBMISSION_DEADLINE } from '@/constants/submission-deadline';
+import { getSubmissionDeadline } from './date-utils';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Result of classifying requests against a meeting's deadline
+ */
+export interface SubmissionClassification {
+  onTime: BudgetRequest[];
+  late: BudgetRequest[];
+  /** Last moment a submission counted as on time */
+  cutoff: Date;
+}
+
+/**
+ * Format a deadline for display
+ * Example: "Thursday 11:59 PM"
+ */
+export function formatSubmissionDeadline(deadline: SubmissionDeadline): string {
+  const hour12 = deadline.hour % 12 === 0 ? 12 : deadline.hour % 12;
+  const period = deadline.hour < 12 ? 'AM' : 'PM';
+  const minutes = String(deadline.minute).padStart(2, '0');
+
+  return `${WEEKDAY_NAMES[deadline.weekday]} ${hour12}:${minutes} ${period}`;
+}
+
+/**
+ * Build a deadline from form fields
+ *
+ * @param weekday - Day of week ("0"-"6"); defaults to the standard deadline day
+ * @param time - Time as "HH:MM" (24-hour); defaults to the standard deadline time
+ * @returns The deadline, or null if either field is invalid
+ */
+export function parseSubmissionDeadline(
+  weekday: string | null | undefined,
+  time: string | null | undefined
+): SubmissionDeadline | null {
+  const deadline = { ...DEFAULT_SUBMISSION_DEADLINE };
+
+  if (weekday) {
+    const day = Number(weekday);
+    if (!Number.isInteger(day) || day < 0 || day > 6) {
+      return null;
+    }
+    deadline.weekday = day;
+  }
+
+  if (time) {
+    const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) {
+      return null;
+    }
+    const hour = parseInt(match[1], 10);
+    const minute = parseInt(match[2], 10);
+    if (hour > 23 || minute > 59) {
+      return null;
+    }
+    deadline.hour = hour;
+    deadline.minute = minute;
+  }
+
+  return deadline;
+}
+
+/**
+ * Classify requests as on-time or late for a meeting
+ * Sets submissionTiming on each request.
+ *
+ * @param requests - Requests to classify
+ * @param meetingDate - Meeting the requests are being added to
+ * @param deadline - Submission deadline (defaults to Thursday 11:59 PM)
+ * @returns On-time and late requests plus the cutoff used
+ */
+export function classifySubmissions(
+  requests: BudgetRequest[],
+  meetingDate: Date,
+  deadline: SubmissionDeadline = DEFAULT_SUBMISSION_DEADLINE
+): SubmissionClassification {
+  const cutoff = getSubmissionDeadline(meetingDate, deadline);
+  const onTime: BudgetRequest[] = [];
+  const late: BudgetRequest[] = [];
+
+  for (const request of requests) {
+    if (new Date(request.submittedOn).getTime() > cutoff.getTime()) {
+      request.submissionTiming = 'late';
+      late.push(request);
+    } else {
+      request.submissionTiming = 'on-time';
+      onTime.push(request);
+    }
+  }
+
+  return { onTime, late, cutoff };
+}
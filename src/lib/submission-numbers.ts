@@ -0,0 +1,52 @@
+/**
+ * Submission number ledger
+ *
+ * Records the request number each submission was given ("SGA (#2)") so a
+ * submission merged again - re-exported, carried forward, or re-run - keeps
+ * the same number all semester. Stored in the data directory as
+ * submission-numbers.json.
+ */
+
+import type { SubmissionNumber } from '@/types/budget-request';
+import { readDataFile, writeDataFile } from './data-store';
+import { isRecord } from './json-values';
+
+const LEDGER_FILE = 'submission-numbers.json';
+
+/**
+ * Validate the ledger file's contents
+ *
+ * @param data - Parsed JSON from the ledger file
+ * @returns Numbers keyed by submission ID
+ * @throws Error describing the first problem found
+ */
+export function parseSubmissionNumbers(data: unknown): Record<string, SubmissionNumber> {
+  if (!isRecord(data) || !isRecord(data.submissions)) {
+    throw new Error(`${LEDGER_FILE}: Ledger needs a "submissions" object`);
+  }
+
+  const submissions: Record<string, SubmissionNumber> = {};
+  for (const [submissionId, entry] of Object.entries(data.submissions)) {
+    if (!isRecord(entry) || typeof entry.organizationName !== 'string' || typeof entry.number !== 'number') {
+      throw new Error(`${LEDGER_FILE}: Submission ${submissionId} needs "organizationName" and "number"`);
+    }
+    submissions[submissionId] = { organizationName: entry.organizationName, number: entry.number };
+  }
+
+  return submissions;
+}
+
+/**
+ * Load the saved submission numbers (empty if none have been saved yet)
+ */
+export async function loadSubmissionNumbers(): Promise<Record<string, SubmissionNumber>> {
+  const data = await readDataFile(LEDGER_FILE);
+  return data === null ? {} : parseSubmissionNumbers(data);
+}
+
+/**
+ * Save the submission numbers to the data directory
+ */
+export async function saveSubmissionNumbers(submissions: Record<string, SubmissionNumber>): Promise<void> {
+  await writeDataFile(LEDGER_FILE, { updatedAt: new Date().toISOString(), submissions });
+}
@@ -0,0 +1,126 @@
+/**
+ * Submission union for multi-file uploads
+ *
+ * The finance team often exports approved and pending reports separately, or
+ * re-exports overlapping date ranges. This combines the parsed requests by
+ * submission ID, keeping the most recently updated copy of each submission
+ * and recording any fields the copies disagree on.
+ */
+
+import type { BudgetRequest, SubmissionConflict } from '@/types/budget-request';
+import { formatTimestamp } from './date-utils';
+
+/**
+ * Requests parsed from one uploaded file
+ */
+export interface ExportSource {
+  fileName: string;
+  requests: BudgetRequest[];
+}
+
+/**
+ * Result of combining several exports
+ */
+export interface SubmissionUnion {
+  /** One request per submission ID, in first-seen order */
+  requests: BudgetRequest[];
+  /** Per-field differences between copies of the same submission */
+  conflicts: SubmissionConflict[];
+  /** Number of extra copies that were dropped */
+  duplicateCount: number;
+}
+
+/**
+ * Fields compared between copies of the same submission
+ */
+const CONFLICT_FIELDS: (keyof BudgetRequest)[] = [
+  'amount',
+  'approvalStatus',
+  'financeRoute',
+  'requestType',
+  'organizationName',
+  'accountNumber',
+];
+
+/**
+ * When a copy was last changed - "Last Updated On", falling back to "Submitted On"
+ */
+function getUpdatedTime(request: BudgetRequest): number {
+  return new Date(request.lastUpdatedOn ?? request.submittedOn).getTime();
+}
+
+/**
+ * Format a field value for comparison and display
+ */
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return formatTimestamp(value);
+  return String(value);
+}
+
+/**
+ * Combine requests from several exports by submission ID
+ * The copy with the most recent "Last Updated On" wins; on a tie the later file wins.
+ *
+ * @param sources - Parsed requests from each uploaded file, in upload order
+ * @returns Deduplicated requests with the conflicts found
+ */
+export function unionBySubmissionId(sources: ExportSource[]): SubmissionUnion {
+  const kept = new Map<string, { request: BudgetRequest; fileName: string }>();
+  const conflicts: SubmissionConflict[] = [];
+  let duplicateCount = 0;
+
+  for (const source of sources) {
+    for (const request of source.requests) {
+      const incoming = { request, fileName: source.fileName };
+      const existing = kept.get(request.submissionId);
+
+      if (!existing) {
+        kept.set(request.submissionId, incoming);
+        continue;
+      }
+
+      duplicateCount++;
+      const incomingIsNewer = getUpdatedTime(request) >= getUpdatedTime(existing.request);
+      const winner = incomingIsNewer ? incoming : existing;
+      const loser = incomingIsNewer ? existing : incoming;
+
+      for (const field of CONFLICT_FIELDS) {
+        const keptValue = formatFieldValue(winner.request[field]);
+        const discardedValue = formatFieldValue(loser.request[field]);
+
+        if (keptValue !== discardedValue) {
+          conflicts.push({
+            submissionId: request.submissionId,
+            organizationName: winner.request.organizationName,
+            field,
+            keptValue,
+            keptFile: winner.fileName,
+            discardedValue,
+            discardedFile: loser.fileName,
+          });
+        }
+      }
+
+      kept.set(request.submissionId, winner);
+    }
+  }
+
+  return {
+    requests: Array.from(kept.values(), (entry) => entry.request),
+    conflicts,
+    duplicateCount,
+  };
+}
+
+/**
+ * Describe a conflict as a warning message
+ * Example: Submission 82327 (SGA): amount differs - kept "551" (pending.csv), discarded "500" (approved.csv)
+ */
+export function formatSubmissionConflict(conflict: SubmissionConflict): string {
+  return (
+    `Submission ${conflict.submissionId} (${conflict.organizationName}): ${conflict.field} differs - ` +
+    `kept "${conflict.keptValue}" (${conflict.keptFile}), ` +
+    `discarded "${conflict.discardedValue}" (${conflict.discardedFile})`
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Supporting document helpers
+ *
+ * Shared by the merged master's Supporting Docs cells and the request preview.
+ */
+
+/**
+ * Check if a value looks like a web link
+ */
+export function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
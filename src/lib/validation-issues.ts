@@ -0,0 +1,67 @@
+/**
+ * Helpers for building and summarizing validation issues
+ */
+
+import type { BudgetRequest } from '@/types/budget-request';
+import type { IssueCode, IssueSeverity, ValidationIssue } from '@/types/validation-issue';
+
+/**
+ * Optional location and guidance for an issue
+ */
+type IssueDetails = Omit<ValidationIssue, 'code' | 'severity' | 'message'>;
+
+/**
+ * Build a validation issue
+ */
+export function createIssue(
+  code: IssueCode,
+  severity: IssueSeverity,
+  message: string,
+  details: IssueDetails = {}
+): ValidationIssue {
+  return { code, severity, message, ...details };
+}
+
+/**
+ * Build a validation issue about a specific request
+ * Fills in the submission ID, source row, and (for combined uploads) source file from the request.
+ */
+export function createRequestIssue(
+  code: IssueCode,
+  severity: IssueSeverity,
+  message: string,
+  request: BudgetRequest,
+  details: Omit<IssueDetails, 'submissionId' | 'row'> = {}
+): ValidationIssue {
+  return createIssue(code, severity, message, {
+    submissionId: request.submissionId,
+    row: request.sourceRow,
+    ...(request.sourceFile && { file: request.sourceFile }),
+    ...details,
+  });
+}
+
+/**
+ * Get the messages of error issues
+ */
+export function getErrorMessages(issues: ValidationIssue[]): string[] {
+  return issues.filter((issue) => issue.severity === 'error').map((issue) => issue.message);
+}
+
+/**
+ * Get the messages of warning and info issues
+ */
+export function getWarningMessages(issues: ValidationIssue[]): string[] {
+  return issues.filter((issue) => issue.severity !== 'error').map((issue) => issue.message);
+}
+
+/**
+ * Count issues by severity (e.g., for a short response header)
+ */
+export function countIssuesBySeverity(issues: ValidationIssue[]): Record<IssueSeverity, number> {
+  const counts: Record<IssueSeverity, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) {
+    counts[issue.severity]++;
+  }
+  return counts;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { BudgetRequest } from '@/types/budget-request';
+import type { FinancePolicy } from '@/types/validation-rule';
+import { runPolicyRules } from './validation-rules';
+
+const foodOnlyPolicy: FinancePolicy = {
+  id: 'test',
+  semester: 'Test',
+  startDate: '2026-01-01',
+  endDate: '2026-12-31',
+  rules: { 'no-food-only': { enabled: true } },
+};
+
+function makeRequest(overrides: Partial<BudgetRequest>): BudgetRequest {
+  return {
+    submissionId: '1',
+    organizationName: 'SGA',
+    requestType: 'AFR',
+    amount: 100,
+    description: '',
+    approvalStatus: 'Pending Approval',
+    financeRoute: 'Sunday Meeting',
+    accountNumber: '1234567',
+    submittedOn: new Date('2026-01-20T15:00:00Z'),
+    submitterName: 'Test Submitter',
+    submitterEmail: 'test@example.edu',
+    ...overrides,
+  };
+}
+
+describe('no-food-only', () => {
+  it('flags AFRs for food alone', () => {
+    const issues = runPolicyRules([makeRequest({ description: 'Pizza and drinks' })], foodOnlyPolicy);
+    expect(issues.map((issue) => issue.ruleId)).toEqual(['no-food-only']);
+  });
+
+  it('allows AFRs where food accompanies other costs', () => {
+    const issues = runPolicyRules([makeRequest({ description: 'Pizza, speaker fee' })], foodOnlyPolicy);
+    expect(issues).toEqual([]);
+  });
+
+  it('does not check reallocations', () => {
+    const request = makeRequest({ requestType: 'Reallocation', description: 'Move from food to travel' });
+    expect(runPolicyRules([request], foodOnlyPolicy)).toEqual([]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Finance-policy validation rules
+ *
+ * The registry of bylaw checks run against each request. Which rules run, how
+ * severe they are, and their limits come from the semester's policy file - see
+ * src/lib/finance-policy.ts. Add a rule here and a matching RuleId to make it
+ * available to policy files.
+ */
+
+import type { BudgetRequest } from '@/types/budget-request';
+import type { FinancePolicy, RuleParams, ValidationRule } from '@/types/validation-rule';
+import type { ValidationIssue } from '@/types/validation-issue';
+import { formatCurrency } from './currency-parser';
+import { createRequestIssue } from './validation-issues';
+
+interface MaxAmountParams extends RuleParams {
+  maxAmount: number;
+}
+
+interface ThresholdParams extends RuleParams {
+  threshold: number;
+}
+
+interface ReallocationLineParams extends RuleParams {
+  sourceKeywords: string[];
+  destinationKeywords: string[];
+}
+
+interface FoodOnlyParams extends RuleParams {
+  foodKeywords: string[];
+}
+
+/**
+ * Separators between line items in a free-text description
+ */
+const ITEM_SEPARATOR_PATTERN = /\n|;|,|•|\s&\s|\s\+\s|\band\b/i;
+
+/**
+ * Check whether text contains any of the keywords as whole words
+ */
+function containsKeyword(text: string, keywords: string[]): boolean {
+  return keywords.some((keyword) => {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+  });
+}
+
+/**
+ * Check whether a request has a supporting spreadsheet link or upload
+ */
+function hasSupportingDocument(request: BudgetRequest): boolean {
+  return Boolean(request.supportingLink?.trim() || request.supportingUpload?.trim());
+}
+
+const afrMaxAmount: ValidationRule<MaxAmountParams> = {
+  id: 'afr-max-amount',
+  name: 'Maximum AFR amount',
+  policy: 'A single Additional Funding Request may not exceed the semester limit.',
+  severity: 'warning',
+  field: 'amount',
+  appliesTo: 'AFR',
+  defaultParams: { maxAmount: 5000 },
+  check(request, { maxAmount }) {
+    if (request.amount <= maxAmount) return null;
+    return `AFR of ${formatCurrency(request.amount)} exceeds the ${formatCurrency(maxAmount)} single-request limit`;
+  },
+};
+
+const afrSpreadsheetRequired: ValidationRule<ThresholdParams> = {
+  id: 'afr-spreadsheet-required',
+  name: 'Spreadsheet required',
+  policy: 'AFRs above the threshold must include an itemized budget spreadsheet.',
+  severity: 'warning',
+  field: 'supportingLink',
+  appliesTo: 'AFR',
+  defaultParams: { threshold: 500 },
+  check(request, { threshold }) {
+    if (request.amount <= threshold || hasSupportingDocument(request)) return null;
+    return `AFRs over ${formatCurrency(threshold)} need a supporting spreadsheet, but none was provided`;
+  },
+};
+
+const reallocationLines: ValidationRule<ReallocationLineParams> = {
+  id: 'reallocation-lines',
+  name: 'Reallocation source and destination',
+  policy: 'Reallocations must name the budget line the money comes from and the line it goes to.',
+  severity: 'warning',
+  field: 'description',
+  appliesTo: 'Reallocation',
+  defaultParams: {
+    sourceKeywords: ['from'],
+    destinationKeywords: ['to', 'into', 'toward', 'towards'],
+  },
+  check(request, { sourceKeywords, destinationKeywords }) {
+    const description = request.description;
+    const hasSource = containsKeyword(description, sourceKeywords);
+    const hasDestination = containsKeyword(description, destinationKeywords);
+    if (hasSource && hasDestination) return null;
+
+    const missing = [!hasSource && 'source', !hasDestination && 'destination'].filter(Boolean).join(' and ');
+    return `Description does not name a ${missing} budget line`;
+  },
+};
+
+const noFoodOnly: ValidationRule<FoodOnlyParams> = {
+  id: 'no-food-only',
+  name: 'No food-only requests',
+  policy: 'Requests may not be for food alone - food must accompany other programming costs.',
+  severity: 'warning',
+  field: 'description',
+  // Reallocation descriptions name the lines money moves between ("from food to travel")
+  appliesTo: 'AFR',
+  defaultParams: {
+    foodKeywords: [
+      'food', 'catering', 'caterer', 'pizza', 'snacks', 'refreshments', 'meal', 'meals',
+      'breakfast', 'lunch', 'dinner', 'drinks', 'beverages', 'dessert', 'desserts',
+    ],
+  },
+  check(request, { foodKeywords }) {
+    const items = request.description
+      .split(ITEM_SEPARATOR_PATTERN)
+      .map((item) => item.trim())
+      .filter(Boolean);
+    if (items.length === 0) return null;
+    if (!items.every((item) => containsKeyword(item, foodKeywords))) return null;
+    return 'Request appears to be for food only';
+  },
+};
+
+/**
+ * All available rules, in the order they are reported
+ */
+export const RULE_REGISTRY: ValidationRule[] = [
+  afrMaxAmount,
+  afrSpreadsheetRequired,
+  reallocationLines,
+  noFoodOnly,
+];
+
+/**
+ * Look up a rule by ID
+ */
+export function getRule(id: string): ValidationRule | undefined {
+  return RULE_REGISTRY.find((rule) => rule.id === id);
+}
+
+/**
+ * Run a policy's enabled rules against a list of requests
+ *
+ * @param requests - Requests to check
+ * @param policy - The semester policy choosing rules, severities, and limits
+ * @returns One issue per rule violation
+ */
+export function runPolicyRules(requests: BudgetRequest[], policy: FinancePolicy): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  for (const rule of RULE_REGISTRY) {
+    const setting = policy.rules[rule.id];
+    if (!setting?.enabled) continue;
+
+    const params = { ...rule.defaultParams, ...setting.params };
+    const severity = setting.severity ?? rule.severity;
+
+    requests.forEach((request, i) => {
+      if (rule.appliesTo && request.requestType !== rule.appliesTo) return;
+
+      const violation = rule.check(request, params);
+      if (violation) {
+        issues.push(createRequestIssue(
+          'policy-violation',
+          severity,
+          `Request ${i + 1} (${request.organizationName}): ${violation}. (${policy.semester} policy: ${rule.name})`,
+          request,
+          { field: rule.field, ruleId: rule.id, policy: rule.policy }
+        ));
+      }
+    });
+  }
+
+  return issues;
+}
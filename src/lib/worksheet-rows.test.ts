@@ -0,0 +1,43 @@
+import * as ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { deleteRows, insertRows, shiftFormulaRows } from './worksheet-rows';
+
+describe('shiftFormulaRows', () => {
+  it('moves references at and below the first moved row', () => {
+    expect(shiftFormulaRows('SUM(H5:H9)+I1', 5, 2)).toBe('SUM(H7:H11)+I1');
+  });
+
+  it('turns references to deleted rows into #REF!', () => {
+    expect(shiftFormulaRows('I8-H7', 8, -1)).toBe('I7-#REF!');
+  });
+
+  it('leaves references into other sheets alone', () => {
+    expect(shiftFormulaRows("'Reallocation Requests'!D5+D5", 5, 2)).toBe("'Reallocation Requests'!D5+D7");
+  });
+
+  it('moves references that name the changed sheet', () => {
+    const scope = { sheetName: 'AFR Requests', local: false };
+    expect(shiftFormulaRows("'AFR Requests'!D5:D9+Other!D5+D5", 5, 2, scope)).toBe("'AFR Requests'!D7:D11+Other!D5+D5");
+  });
+
+  it('leaves text in quotes alone', () => {
+    expect(shiftFormulaRows('IF(G5="A1",A1,0)', 1, 1)).toBe('IF(G6="A1",A2,0)');
+  });
+});
+
+describe('insertRows and deleteRows', () => {
+  it('update formulas on other sheets that point into the changed sheet', () => {
+    const workbook = new ExcelJS.Workbook();
+    const afr = workbook.addWorksheet('AFR Requests');
+    const summary = workbook.addWorksheet('Summary');
+    afr.getCell('I5').value = 100;
+    summary.getCell('A1').value = { formula: "'AFR Requests'!I5+B1" } as ExcelJS.CellFormulaValue;
+
+    insertRows(afr, 3, 2);
+    expect(afr.getCell('I7').value).toBe(100);
+    expect(summary.getCell('A1').formula).toBe("'AFR Requests'!I7+B1");
+
+    deleteRows(afr, 1, 1);
+    expect(summary.getCell('A1').formula).toBe("'AFR Requests'!I6+B1");
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Row insertion and deletion for master worksheets
+ *
+ * ExcelJS can insert and delete rows, but it leaves formulas, merged section
+ * headers and Status dropdowns where they were. Changing an earlier week would
+ * then point every subtotal and Remaining Budget formula below it at the wrong
+ * rows. These helpers move rows themselves and re-point the formulas.
+ */
+
+import * as ExcelJS from 'exceljs';
+
+/**
+ * ExcelJS keeps data validations per cell address but doesn't type the store
+ */
+type WorksheetWithValidations = ExcelJS.Worksheet & {
+  dataValidations: { model: Record<string, ExcelJS.DataValidation | undefined> };
+};
+
+/**
+ * Pattern to match a cell reference or range in a formula (e.g., "H12", "$I$1",
+ * "H5:H9", "'Reallocation Requests'!D5"), with its sheet name if it has one.
+ * Function names ("LOG10(") and longer names are left alone.
+ */
+const CELL_REFERENCE_PATTERN = /(?<![A-Za-z_\d])((?:'(?:[^']|'')+'|[A-Za-z_][\w.]*)!)?(\$?[A-Z]{1,3}\$?\d+)(?::(\$?[A-Z]{1,3}\$?\d+))?(?![\d(A-Za-z_!])/g;
+
+/**
+ * Which references in a formula point at the sheet whose rows are changing
+ * - sheetName: Name of that sheet (references qualified with it always count)
+ * - local: Whether the formula is on that sheet (unqualified references count too)
+ */
+export interface FormulaScope {
+  sheetName: string;
+  local: boolean;
+}
+
+/**
+ * Formulas on the sheet itself, with references into other sheets left alone
+ */
+const LOCAL_SCOPE: FormulaScope = { sheetName: '', local: true };
+
+/**
+ * Get the sheet name from a reference prefix ("'AFR Requests'!" -> "AFR Requests")
+ */
+function getPrefixSheetName(prefix: string): string {
+  const name = prefix.slice(0, -1);
+  return name.startsWith("'") ? name.slice(1, -1).replace(/''/g, "'") : name;
+}
+
+/**
+ * Move the row references in a formula that point at or below a row
+ *
+ * When rows are deleted (count is negative), references to the deleted rows
+ * above fromRow become #REF!, as in Excel.
+ *
+ * @param formula - Formula without the leading "=" (e.g., "SUM(H5:H9)")
+ * @param fromRow - First row that moved
+ * @param count - How many rows it moved down (negative to move up)
+ * @param scope - Sheet whose rows moved (defaults to the formula's own sheet)
+ * @returns The formula pointing at the moved rows
+ */
+export function shiftFormulaRows(
+  formula: string,
+  fromRow: number,
+  count: number,
+  scope: FormulaScope = LOCAL_SCOPE
+): string {
+  return replaceFormulaReferences(formula, scope, (column, rowNumber) => {
+    if (rowNumber >= fromRow) return `${column}${rowNumber + count}`;
+    if (rowNumber >= fromRow + count) return '#REF!';
+    return null;
+  });
+}
+
+/**
+ * Rewrite the cell references in a formula that point at one sheet
+ *
+ * @param formula - Formula without the leading "="
+ * @param scope - Sheet whose references are rewritten
+ * @param replace - Returns the new reference, or null to keep it
+ */
+function replaceFormulaReferences(
+  formula: string,
+  scope: FormulaScope,
+  replace: (column: string, rowNumber: number) => string | null
+): string {
+  const replaceReference = (reference: string): string => {
+    const [, column, row] = reference.match(/^(\$?[A-Z]{1,3}\$?)(\d+)$/) ?? [];
+    return replace(column, parseInt(row, 10)) ?? reference;
+  };
+
+  // Text in quotes (e.g., "Approved") is never a reference
+  return formula
+    .split(/("[^"]*")/)
+    .map((part) => part.startsWith('"')
+      ? part
+      : part.replace(CELL_REFERENCE_PATTERN, (match, prefix: string | undefined, first: string, last?: string) => {
+        // Sheet names are case-insensitive in Excel
+        const onSheet = prefix
+          ? getPrefixSheetName(prefix).toLowerCase() === scope.sheetName.toLowerCase()
+          : scope.local;
+        if (!onSheet) return match;
+        return `${prefix ?? ''}${replaceReference(first)}${last ? `:${replaceReference(last)}` : ''}`;
+      }))
+    .join('');
+}
+
+/**
+ * Write shared formulas out in full on every cell
+ * A shared formula is stored once and copied by position, which breaks when rows move.
+ */
+function unshareFormulas(worksheet: ExcelJS.Worksheet): void {
+  const formulaCells: ExcelJS.Cell[] = [];
+  worksheet.eachRow((row) => {
+    row.eachCell((cell) => {
+      if (cell.type === ExcelJS.ValueType.Formula) {
+        formulaCells.push(cell);
+      }
+    });
+  });
+
+  // Read every formula before rewriting any, so copies still find their original
+  const formulas = formulaCells.map((cell) => ({ formula: cell.formula, result: cell.result }));
+  formulaCells.forEach((cell, i) => {
+    cell.value = formulas[i] as ExcelJS.CellFormulaValue;
+  });
+}
+
+/**
+ * Set every formula on the sheet, keeping the cached results
+ */
+function rewriteFormulas(worksheet: ExcelJS.Worksheet, rewrite: (formula: string) => string): void {
+  unshareFormulas(worksheet);
+  worksheet.eachRow((row) => {
+    row.eachCell((cell) => {
+      if (cell.type === ExcelJS.ValueType.Formula) {
+        cell.value = {
+          formula: rewrite(cell.formula),
+          result: cell.result,
+        } as ExcelJS.CellFormulaValue;
+      }
+    });
+  });
+}
+
+/**
+ * Rewrite the references to a sheet in every formula in its workbook - those on the
+ * sheet itself and those on other sheets that name it (e.g., "'AFR Requests'!I12")
+ */
+function rewriteWorkbookFormulas(
+  worksheet: ExcelJS.Worksheet,
+  rewrite: (formula: string, scope: FormulaScope) => string
+): void {
+  const sheets = worksheet.workbook ? worksheet.workbook.worksheets : [worksheet];
+  for (const sheet of sheets) {
+    const scope = { sheetName: worksheet.name, local: sheet === worksheet };
+    rewriteFormulas(sheet, (formula) => rewrite(formula, scope));
+  }
+}
+
+/**
+ * Point every formula that references one cell at another cell instead
+ * Formulas on other sheets that reference the cell by sheet name are updated too.
+ *
+ * @param worksheet - Worksheet the cells are on
+ * @param from - Cell the formulas reference now (e.g., "I20")
+ * @param to - Cell they should reference (e.g., "I11")
+ * @returns Number of formulas changed
+ */
+export function repointFormulas(worksheet: ExcelJS.Worksheet, from: string, to: string): number {
+  let changed = 0;
+  rewriteWorkbookFormulas(worksheet, (formula, scope) => {
+    const repointed = replaceFormulaReferences(formula, scope, (column, rowNumber) =>
+      `${column.replace(/\$/g, '')}${rowNumber}` === from ? to : null);
+    if (repointed !== formula) changed++;
+    return repointed;
+  });
+  return changed;
+}
+
+/**
+ * Build the model of a row moved to a new row number
+ * Cell models keep their address as text (e.g., "H12"), whatever the typings say.
+ */
+function moveRowModel(model: Partial<ExcelJS.RowModel>, rowNumber: number): Partial<ExcelJS.RowModel> {
+  return {
+    ...model,
+    number: rowNumber,
+    cells: (model.cells ?? []).map((cell) => ({
+      ...cell,
+      address: String(cell.address).replace(/\d+$/, String(rowNumber)),
+    }) as unknown as ExcelJS.CellModel),
+  };
+}
+
+/**
+ * Insert blank rows, moving everything at and below a row down
+ * Formulas that point at moved rows are updated, on this sheet and on other sheets
+ * that reference it by name; merged
+ * cells, styles, notes, row heights, and data validations move with their rows.
+ *
+ * @param worksheet - Worksheet to insert into
+ * @param at - Row number the first blank row takes
+ * @param count - Number of blank rows to insert
+ */
+export function insertRows(worksheet: ExcelJS.Worksheet, at: number, count: number): void {
+  if (count <= 0) return;
+
+  const validations = (worksheet as WorksheetWithValidations).dataValidations.model;
+  const lastRow = worksheet.rowCount;
+
+  // Merged cells aren't part of row models - unmerge the ranges that move and merge them again after
+  const movedMerges: [number, number, number, number][] = [];
+  for (const range of worksheet.model.merges) {
+    const [topLeft, bottomRight] = range.split(':').map((address) => worksheet.getCell(address));
+    if (Number(topLeft.row) >= at) {
+      worksheet.unMergeCells(range);
+      movedMerges.push([
+        Number(topLeft.row) + count,
+        Number(topLeft.col),
+        Number(bottomRight.row) + count,
+        Number(bottomRight.col),
+      ]);
+    }
+  }
+
+  // Point every formula referencing the sheet at the rows' new positions
+  rewriteWorkbookFormulas(worksheet, (formula, scope) => shiftFormulaRows(formula, at, count, scope));
+
+  // Move rows from the bottom up so nothing is overwritten before it is copied
+  for (let rowNumber = lastRow; rowNumber >= at; rowNumber--) {
+    const source = worksheet.getRow(rowNumber);
+    const target = worksheet.getRow(rowNumber + count);
+    target.model = moveRowModel(source.model ?? { cells: [] }, rowNumber + count);
+    source.model = { number: rowNumber, cells: [] };
+  }
+
+  // Move data validations (kept per cell address)
+  const movedValidations: [string, ExcelJS.DataValidation | undefined][] = [];
+  for (const address of Object.keys(validations)) {
+    const match = address.match(/^([A-Z]+)(\d+)$/);
+    if (match && parseInt(match[2], 10) >= at) {
+      movedValidations.push([`${match[1]}${parseInt(match[2], 10) + count}`, validations[address]]);
+      delete validations[address];
+    }
+  }
+  for (const [address, validation] of movedValidations) {
+    validations[address] = validation;
+  }
+
+  for (const [top, left, bottom, right] of movedMerges) {
+    worksheet.mergeCells(top, left, bottom, right);
+  }
+}
+
+/**
+ * Delete rows, moving everything below them up
+ * Formulas follow the moved rows, on this sheet and on other sheets that reference
+ * it by name; references to deleted rows become #REF!, so re-point them first
+ * (see repointFormulas).
+ *
+ * @param worksheet - Worksheet to delete from
+ * @param at - First row to delete
+ * @param count - Number of rows to delete
+ */
+export function deleteRows(worksheet: ExcelJS.Worksheet, at: number, count: number): void {
+  if (count <= 0) return;
+
+  const validations = (worksheet as WorksheetWithValidations).dataValidations.model;
+  const lastRow = worksheet.rowCount;
+  const end = at + count;
+
+  // Merged cells on deleted rows go with them; those below merge again after moving up
+  const movedMerges: [number, number, number, number][] = [];
+  for (const range of worksheet.model.merges) {
+    const [topLeft, bottomRight] = range.split(':').map((address) => worksheet.getCell(address));
+    if (Number(bottomRight.row) >= at) {
+      worksheet.unMergeCells(range);
+      if (Number(topLeft.row) >= end) {
+        movedMerges.push([
+          Number(topLeft.row) - count,
+          Number(topLeft.col),
+          Number(bottomRight.row) - count,
+          Number(bottomRight.col),
+        ]);
+      }
+    }
+  }
+
+  rewriteWorkbookFormulas(worksheet, (formula, scope) => shiftFormulaRows(formula, end, -count, scope));
+
+  // Move rows from the top down so nothing is overwritten before it is copied
+  for (let rowNumber = at; rowNumber <= lastRow; rowNumber++) {
+    const source = worksheet.getRow(rowNumber + count);
+    worksheet.getRow(rowNumber).model = rowNumber + count <= lastRow
+      ? moveRowModel(source.model ?? { cells: [] }, rowNumber)
+      : { number: rowNumber, cells: [] };
+  }
+  // Drop the emptied rows at the bottom so new rows are added right after the last one
+  worksheet.spliceRows(Math.max(at, lastRow - count + 1), count);
+
+  // Move data validations (kept per cell address)
+  const movedValidations: [string, ExcelJS.DataValidation | undefined][] = [];
+  for (const address of Object.keys(validations)) {
+    const match = address.match(/^([A-Z]+)(\d+)$/);
+    const rowNumber = match ? parseInt(match[2], 10) : 0;
+    if (match && rowNumber >= at) {
+      if (rowNumber >= end) {
+        movedValidations.push([`${match[1]}${rowNumber - count}`, validations[address]]);
+      }
+      delete validations[address];
+    }
+  }
+  for (const [address, validation] of movedValidations) {
+    validations[address] = validation;
+  }
+
+  for (const [top, left, bottom, right] of movedMerges) {
+    worksheet.mergeCells(top, left, bottom, right);
+  }
+}
@@ -5,6 +5,9 @@
 
 import * as ExcelJS from 'exceljs';
 import { BudgetRequest } from '@/types/budget-request';
+import { formatTimestamp } from '@/lib/date-utils';
+import { SUBMITTER_NOT_ON_ROSTER_NOTE } from '@/constants/officer-roster';
+import { LIFECYCLE_COLUMNS } from '@/constants/master-columns';
 
 /**
  * AFR Column definitions matching the master spreadsheet format
@@ -21,6 +24,7 @@ const AFR_COLUMNS = [
   { header: 'Name of Org', key: 'nameOfOrg', width: 30 },
   { header: 'Entered in KFS?', key: 'enteredInKFS', width: 15 },
   { header: 'Account Number', key: 'accountNumber', width: 18 },
+  ...LIFECYCLE_COLUMNS,
 ];
 
 /**
@@ -34,6 +38,7 @@ const REALLOCATION_COLUMNS = [
   { header: 'Approved Amount', key: 'approvedAmount', width: 18 },
   { header: 'Status', key: 'status', width: 12 },
   { header: 'Account Number', key: 'accountNumber', width: 18 },
+  ...LIFECYCLE_COLUMNS,
 ];
 
 /**
@@ -113,6 +118,16 @@ function applyReallocationCurrencyFormat(worksheet: ExcelJS.Worksheet): void {
   });
 }
 
+/**
+ * Add the "Submitter not on roster" marker to a request's notes
+ * The marker goes at the end so the route prefix stays first.
+ */
+function addRosterMarker(notes: string, request: BudgetRequest): string {
+  if (!request.submitterNotOnRoster) return notes;
+  const marker = `[${SUBMITTER_NOT_ON_ROSTER_NOTE}]`;
+  return notes ? `${notes} ${marker}` : marker;
+}
+
 /**
  * Build the Notes column value for a request
  * - For pre-approved: "[Finance Route]: [Description]"
@@ -129,6 +144,20 @@ function buildNotesValue(request: BudgetRequest): string {
   return request.description?.trim() || '';
 }
 
+/**
+ * Build the submission lifecycle values for a request
+ * Dates arrive as strings when requests are posted as JSON, so they are formatted here
+ */
+function buildLifecycleValues(request: BudgetRequest): (string | number | undefined)[] {
+  return [
+    request.submittedOn ? formatTimestamp(request.submittedOn) : '', // Submitted On
+    request.lastUpdatedOn ? formatTimestamp(request.lastUpdatedOn) : '', // Last Updated On
+    request.editedAfterSubmission ? 'Yes' : '', // Edited After Submission
+    request.turnaroundHours, // Turnaround (hrs) - blank while pending
+    request.approvalMessage || '', // Approval Message
+  ];
+}
+
 /**
  * Add a section header row
  */
@@ -190,7 +219,7 @@ function afrRequestToRow(request: BudgetRequest): (string | number | undefined)[
   const isPreApproved = request.isPreApproved === true;
   
   // Build notes value
-  const notesValue = buildNotesValue(request);
+  const notesValue = addRosterMarker(buildNotesValue(request), request);
   
   // For pre-approved: set Status to "Approved" and After Amendments to the amount
   const statusValue = isPreApproved ? 'Approved' : '';
@@ -208,6 +237,7 @@ function afrRequestToRow(request: BudgetRequest): (string | number | undefined)[
     displayName, // Name of Org (same as Organization)
     '', // Entered in KFS? - left blank
     request.accountNumber, // Account Number
+    ...buildLifecycleValues(request),
   ];
 }
 
@@ -221,7 +251,7 @@ function reallocationRequestToRow(request: BudgetRequest): (string | number | un
   const isPreApproved = request.isPreApproved === true;
   
   // Build notes value
-  const notesValue = buildNotesValue(request);
+  const notesValue = addRosterMarker(buildNotesValue(request), request);
   
   // For pre-approved: set Status to "Approved" and Approved Amount to the amount
   const statusValue = isPreApproved ? 'Approved' : '';
@@ -235,6 +265,7 @@ function reallocationRequestToRow(request: BudgetRequest): (string | number | un
     approvedAmountValue, // Approved Amount - pre-filled for approved, blank for pending
     statusValue, // Status - "Approved" for pre-approved, blank for pending
     request.accountNumber, // Account Number
+    ...buildLifecycleValues(request),
   ];
 }
 
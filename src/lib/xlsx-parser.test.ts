@@ -0,0 +1,13 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseWeeklySpreadsheet } from './xlsx-parser';
+
+describe('parseWeeklySpreadsheet', () => {
+  it('reads "SGA 1"-style numbering in masters without a schema stamp', async () => {
+    const file = readFileSync('test-data/SGA Budget Review Jan 25 2026.xlsx');
+    const { weeks } = await parseWeeklySpreadsheet(new Uint8Array(file).slice().buffer as ArrayBuffer);
+    const [row] = weeks.flatMap((week) => week.afrRequests);
+
+    expect(row).toMatchObject({ organization: 'SGA 1', organizationName: 'SGA', requestNumber: 1 });
+  });
+});
@@ -7,6 +7,7 @@
 
 import * as ExcelJS from 'exceljs';
 import type { 
+  GroupSummary,
   ParsedWeek, 
   SpreadsheetRow, 
   ParseSpreadsheetResult, 
@@ -14,6 +15,17 @@ import type {
   PresentationRequest 
 } from '@/types/presentation-request';
 import { rowToPresentationRequest } from '@/types/presentation-request';
+import type { BudgetAdjustment } from '@/types/budget-request';
+import type { ValidationIssue } from '@/types/validation-issue';
+import type { OrgGrouping } from '@/types/org-registry';
+import { weekDateToISO } from '@/lib/date-utils';
+import { isBudgetAdjustmentRow, readBudgetAdjustmentRow } from '@/lib/budget-adjustments';
+import { createIssue, getErrorMessages, getWarningMessages } from '@/lib/validation-issues';
+import { parseOrgNumbering, type ParseOrgNumberingOptions } from '@/lib/org-numbering';
+import { readMasterSchemaVersion } from '@/lib/master-schema';
+import { groupByOrgDetail } from '@/lib/org-categories';
+import { AFR_CATEGORY_COLUMN, REALLOCATION_CATEGORY_COLUMN } from '@/constants/master-columns';
+import { findAFRWorksheet, findReallocationWorksheet, getCellText } from '@/lib/master-worksheets';
 
 /**
  * Pattern to match "Week of X" section headers
@@ -63,49 +75,6 @@ function shouldSkipRow(row: ExcelJS.Row): boolean {
   return false;
 }
 
-/**
- * Parse a date string from "M/D" or "M/D/YY" format to ISO string
- * Assumes current year if not specified
- */
-function parseWeekDateToISO(dateStr: string): string {
-  const parts = dateStr.split('/');
-  const month = parseInt(parts[0], 10);
-  const day = parseInt(parts[1], 10);
-  
-  let year: number;
-  if (parts.length > 2) {
-    year = parseInt(parts[2], 10);
-    // Handle 2-digit years
-    if (year < 100) {
-      year += 2000;
-    }
-  } else {
-    year = new Date().getFullYear();
-  }
-  
-  // Create ISO date string
-  const date = new Date(year, month - 1, day);
-  return date.toISOString().split('T')[0];
-}
-
-/**
- * Extract cell value as string
- */
-function getCellString(cell: ExcelJS.Cell): string {
-  const value = cell.value;
-  if (value === null || value === undefined) return '';
-  if (typeof value === 'string') return value.trim();
-  if (typeof value === 'number') return String(value);
-  if (typeof value === 'object' && 'text' in value) return String(value.text).trim();
-  if (typeof value === 'object' && 'result' in value) {
-    // Formula result
-    const result = value.result;
-    if (result === null || result === undefined) return '';
-    return String(result);
-  }
-  return String(value).trim();
-}
-
 /**
  * Extract cell value as number
  */
@@ -144,9 +113,10 @@ function getCellNumber(cell: ExcelJS.Cell): number {
  * J: Name of Org
  * K: Entered in KFS?
  * L: Account Number
+ * S: Category
  */
-function parseAFRRow(row: ExcelJS.Row): SpreadsheetRow | null {
-  const organization = getCellString(row.getCell(3)); // Column C
+function parseAFRRow(row: ExcelJS.Row, numbering: ParseOrgNumberingOptions): SpreadsheetRow | null {
+  const organization = getCellText(row.getCell(3)); // Column C
   
   // Skip empty rows or header rows
   if (!organization || organization === 'Organization') {
@@ -155,10 +125,11 @@ function parseAFRRow(row: ExcelJS.Row): SpreadsheetRow | null {
   
   const requestedAmount = getCellNumber(row.getCell(4)); // Column D
   const afterAmendments = getCellNumber(row.getCell(6)); // Column F
-  const statusValue = getCellString(row.getCell(7)); // Column G
+  const statusValue = getCellText(row.getCell(7)); // Column G
   const finalAmount = getCellNumber(row.getCell(8)); // Column H
-  const notes = getCellString(row.getCell(2)); // Column B
-  const accountNumber = getCellString(row.getCell(12)); // Column L
+  const notes = getCellText(row.getCell(2)); // Column B
+  const accountNumber = getCellText(row.getCell(12)); // Column L
+  const category = getCellText(row.getCell(AFR_CATEGORY_COLUMN)); // Column S
   
   // Parse status
   let status: 'Approved' | 'Denied' | null = null;
@@ -168,14 +139,20 @@ function parseAFRRow(row: ExcelJS.Row): SpreadsheetRow | null {
     status = 'Denied';
   }
   
+  const { organizationName, number: requestNumber } = parseOrgNumbering(organization, numbering);
+  
   return {
     organization,
+    organizationName,
+    requestNumber,
     requestedAmount,
     afterAmendments: afterAmendments || null,
     status,
     finalAmount,
     notes,
     accountNumber,
+    category,
+    fundingTier: '', // Not kept in the master - filled from the org registry
   };
 }
 
@@ -190,9 +167,10 @@ function parseAFRRow(row: ExcelJS.Row): SpreadsheetRow | null {
  * E: Approved Amount
  * F: Status
  * G: Account Number
+ * N: Category
  */
-function parseReallocationRow(row: ExcelJS.Row): SpreadsheetRow | null {
-  const organization = getCellString(row.getCell(3)); // Column C
+function parseReallocationRow(row: ExcelJS.Row, numbering: ParseOrgNumberingOptions): SpreadsheetRow | null {
+  const organization = getCellText(row.getCell(3)); // Column C
   
   // Skip empty rows or header rows
   if (!organization || organization === 'Organization') {
@@ -201,9 +179,10 @@ function parseReallocationRow(row: ExcelJS.Row): SpreadsheetRow | null {
   
   const requestedAmount = getCellNumber(row.getCell(4)); // Column D
   const approvedAmount = getCellNumber(row.getCell(5)); // Column E
-  const statusValue = getCellString(row.getCell(6)); // Column F
-  const notes = getCellString(row.getCell(2)); // Column B
-  const accountNumber = getCellString(row.getCell(7)); // Column G
+  const statusValue = getCellText(row.getCell(6)); // Column F
+  const notes = getCellText(row.getCell(2)); // Column B
+  const accountNumber = getCellText(row.getCell(7)); // Column G
+  const category = getCellText(row.getCell(REALLOCATION_CATEGORY_COLUMN)); // Column N
   
   // Parse status
   let status: 'Approved' | 'Denied' | null = null;
@@ -213,14 +192,20 @@ function parseReallocationRow(row: ExcelJS.Row): SpreadsheetRow | null {
     status = 'Denied';
   }
   
+  const { organizationName, number: requestNumber } = parseOrgNumbering(organization, numbering);
+  
   return {
     organization,
+    organizationName,
+    requestNumber,
     requestedAmount,
     afterAmendments: approvedAmount || null,
     status,
     finalAmount: status === 'Approved' ? approvedAmount : 0,
     notes,
     accountNumber,
+    category,
+    fundingTier: '', // Not kept in the master - filled from the org registry
   };
 }
 
@@ -229,14 +214,15 @@ function parseReallocationRow(row: ExcelJS.Row): SpreadsheetRow | null {
  */
 function parseWorksheet(
   worksheet: ExcelJS.Worksheet,
-  isAFR: boolean
+  isAFR: boolean,
+  numbering: ParseOrgNumberingOptions
 ): Map<string, SpreadsheetRow[]> {
   const weekMap = new Map<string, SpreadsheetRow[]>();
   let currentWeekDate: string | null = null;
   
   worksheet.eachRow((row, rowNumber) => {
     // Check if this row is a week header
-    const cell1Value = getCellString(row.getCell(1));
+    const cell1Value = getCellText(row.getCell(1));
     const weekDate = extractWeekDate(cell1Value);
     
     if (weekDate) {
@@ -248,7 +234,7 @@ function parseWorksheet(
     }
     
     // Skip subtotal and other special rows
-    if (shouldSkipRow(row)) {
+    if (shouldSkipRow(row) || isBudgetAdjustmentRow(row)) {
       return;
     }
     
@@ -258,7 +244,7 @@ function parseWorksheet(
     }
     
     // Parse the row
-    const parsedRow = isAFR ? parseAFRRow(row) : parseReallocationRow(row);
+    const parsedRow = isAFR ? parseAFRRow(row, numbering) : parseReallocationRow(row, numbering);
     
     if (parsedRow) {
       const weekRows = weekMap.get(currentWeekDate);
@@ -271,6 +257,48 @@ function parseWorksheet(
   return weekMap;
 }
 
+/**
+ * Read the Budget Adjustment rows on the AFR sheet, by week
+ * Each adjustment belongs to the week below it - the first whose Remaining Budget
+ * includes it. Adjustments after the last week aren't listed until the next week is added.
+ * Rows whose source, date, or amount can't be read are reported and left out.
+ */
+function parseBudgetAdjustments(
+  worksheet: ExcelJS.Worksheet,
+  issues: ValidationIssue[]
+): Map<string, BudgetAdjustment[]> {
+  const weekMap = new Map<string, BudgetAdjustment[]>();
+  let pending: BudgetAdjustment[] = [];
+  
+  worksheet.eachRow((row, rowNumber) => {
+    const weekDate = extractWeekDate(getCellText(row.getCell(1)));
+    if (weekDate) {
+      if (pending.length > 0) {
+        weekMap.set(weekDate, [...(weekMap.get(weekDate) || []), ...pending]);
+        pending = [];
+      }
+      return;
+    }
+    
+    const adjustment = readBudgetAdjustmentRow(row);
+    if (adjustment) {
+      pending.push(adjustment);
+    } else if (isBudgetAdjustmentRow(row)) {
+      issues.push(createIssue(
+        'budget-adjustment-unreadable',
+        'warning',
+        `Row ${rowNumber}: Budget Adjustment could not be read - it is not listed in the week summary.`,
+        {
+          row: rowNumber,
+          suggestedFix: 'Give the row a date (column A), a source of Rollover, Supplemental Allocation, or Clawback (column C), and a non-zero amount (column D).',
+        }
+      ));
+    }
+  });
+  
+  return weekMap;
+}
+
 /**
  * Parse a weekly spreadsheet and extract budget requests by week
  * 
@@ -280,37 +308,37 @@ function parseWorksheet(
 export async function parseWeeklySpreadsheet(
   buffer: ArrayBuffer
 ): Promise<ParseSpreadsheetResult> {
-  const warnings: string[] = [];
-  const errors: string[] = [];
+  const issues: ValidationIssue[] = [];
   const weeks: ParsedWeek[] = [];
+  const result = (): ParseSpreadsheetResult => ({
+    weeks,
+    warnings: getWarningMessages(issues),
+    errors: getErrorMessages(issues),
+    issues,
+  });
   
   try {
     const workbook = new ExcelJS.Workbook();
     await workbook.xlsx.load(buffer);
     
-    // Find AFR worksheet
-    const afrWorksheet = 
-      workbook.getWorksheet('AFR Requests') ||
-      workbook.getWorksheet('AFR') ||
-      workbook.getWorksheet('Sunday Meeting') ||
-      workbook.getWorksheet(1);
-    
-    // Find Reallocation worksheet
-    const reallocationWorksheet = 
-      workbook.getWorksheet('Reallocation Requests') ||
-      workbook.getWorksheet('Reallocation');
+    const afrWorksheet = findAFRWorksheet(workbook);
+    const reallocationWorksheet = findReallocationWorksheet(workbook);
     
     if (!afrWorksheet) {
-      errors.push('Could not find AFR worksheet in the spreadsheet.');
-      return { weeks, warnings, errors };
+      issues.push(createIssue('worksheet-missing', 'error', 'Could not find AFR worksheet in the spreadsheet.'));
+      return result();
     }
     
+    // Masters written before schema stamping numbered requests "SGA 1", "SGA 2"
+    const numbering: ParseOrgNumberingOptions = { legacy: readMasterSchemaVersion(workbook) === null };
+    
     // Parse AFR worksheet
-    const afrWeeks = parseWorksheet(afrWorksheet, true);
+    const afrWeeks = parseWorksheet(afrWorksheet, true, numbering);
+    const adjustmentWeeks = parseBudgetAdjustments(afrWorksheet, issues);
     
     // Parse Reallocation worksheet if exists
     const reallocationWeeks = reallocationWorksheet 
-      ? parseWorksheet(reallocationWorksheet, false)
+      ? parseWorksheet(reallocationWorksheet, false, numbering)
       : new Map<string, SpreadsheetRow[]>();
     
     // Combine weeks from both worksheets
@@ -320,8 +348,13 @@ export async function parseWeeklySpreadsheet(
     ]);
     
     if (allWeekDates.size === 0) {
-      errors.push('No weeks found in the spreadsheet. Ensure weeks are marked with "Week of X" headers.');
-      return { weeks, warnings, errors };
+      issues.push(createIssue(
+        'no-weeks',
+        'error',
+        'No weeks found in the spreadsheet. Ensure weeks are marked with "Week of X" headers.',
+        { suggestedFix: 'Add a "Week of M/D" header row above each week\'s requests.' }
+      ));
+      return result();
     }
     
     // Build ParsedWeek objects
@@ -329,11 +362,22 @@ export async function parseWeeklySpreadsheet(
       const afrRequests = afrWeeks.get(date) || [];
       const reallocationRequests = reallocationWeeks.get(date) || [];
       
+      const dateISO = weekDateToISO(date);
+      if (!dateISO) {
+        issues.push(createIssue(
+          'invalid-week-date',
+          'warning',
+          `Week of ${date}: Not a valid date - this week will be listed last.`,
+          { suggestedFix: 'Correct the "Week of" header to a real date (e.g., "Week of 2/1/26").' }
+        ));
+      }
+      
       weeks.push({
         date,
-        dateISO: parseWeekDateToISO(date),
+        dateISO: dateISO || '',
         afrRequests,
         reallocationRequests,
+        budgetAdjustments: adjustmentWeeks.get(date) || [],
       });
     }
     
@@ -346,18 +390,21 @@ export async function parseWeeklySpreadsheet(
       const missingStatus = allRequests.filter(r => r.status === null);
       
       if (missingStatus.length > 0) {
-        warnings.push(
-          `Week of ${week.date}: ${missingStatus.length} request(s) have no status set.`
-        );
+        issues.push(createIssue(
+          'week-missing-status',
+          'warning',
+          `Week of ${week.date}: ${missingStatus.length} request(s) have no status set.`,
+          { field: 'status', suggestedFix: 'Set each request\'s status to "Approved" or "Denied".' }
+        ));
       }
     }
     
-    return { weeks, warnings, errors };
+    return result();
     
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    errors.push(`Failed to parse spreadsheet: ${message}`);
-    return { weeks, warnings, errors };
+    issues.push(createIssue('parse-error', 'error', `Failed to parse spreadsheet: ${message}`));
+    return result();
   }
 }
 
@@ -376,10 +423,27 @@ export function getWeekSummaries(weeks: ParsedWeek[]): WeekSummary[] {
       deniedCount: allRequests.filter(r => r.status === 'Denied').length,
       afrCount: week.afrRequests.length,
       reallocationCount: week.reallocationRequests.length,
+      categories: getGroupSummaries(allRequests, 'category'),
+      fundingTiers: getGroupSummaries(allRequests, 'fundingTier'),
+      budgetAdjustments: week.budgetAdjustments,
     };
   });
 }
 
+/**
+ * Count requests and approved dollars per organization category or funding tier
+ * Groups follow report order, with "Uncategorized" / "No Tier" last.
+ */
+function getGroupSummaries(rows: SpreadsheetRow[], grouping: OrgGrouping): GroupSummary[] {
+  return groupByOrgDetail(rows, grouping).map(({ name, items }) => ({
+    name,
+    requestCount: items.length,
+    approvedAmount: items
+      .filter((row) => row.status === 'Approved')
+      .reduce((sum, row) => sum + (row.finalAmount || row.afterAmendments || 0), 0),
+  }));
+}
+
 /**
  * Get all presentation requests for a specific week
  */
@@ -0,0 +1,24 @@
+/**
+ * Type definitions for the organization account registry
+ */
+
+/**
+ * An account an organization has used in a master spreadsheet
+ */
+export interface AccountRegistryEntry {
+  /** Organization name as last written in a master (without numbering) */
+  organizationName: string;
+  /** Account number without spaces or dashes */
+  accountNumber: string;
+  /** "Week of" dates (YYYY-MM-DD) the organization used this account */
+  weeks: string[];
+}
+
+/**
+ * Organization → account lookup built from past master spreadsheets
+ */
+export interface AccountRegistry {
+  /** When the registry was last changed (ISO timestamp) */
+  updatedAt: string;
+  entries: AccountRegistryEntry[];
+}
@@ -2,30 +2,200 @@
  * Core type definitions for budget requests from CampusGroups
  */
 
+import type { ColumnProfileMatch } from './column-profile';
+import type { OrgCategory } from './org-registry';
+import type { ValidationIssue } from './validation-issue';
+
 export type RequestType = 'AFR' | 'Reallocation';
 
 export type ApprovalStatus = 'Approved' | 'Pending Approval' | 'Denied';
 
 export type FinanceRoute = 'Auto-Approve' | 'Budget Review' | 'Sunday Meeting';
 
+/**
+ * How confidently an amount was read from the CSV
+ * - exact: plain number or "$1,234.56"
+ * - inferred: readable, but needed interpretation (words, "1.5k", "about", "USD", negatives)
+ * - ambiguous: a guess - ranges, foreign currency, or several amounts
+ * - missing: blank or unreadable (amount set to 0)
+ */
+export type AmountConfidence = 'exact' | 'inferred' | 'ambiguous' | 'missing';
+
+/**
+ * Why an amount needed interpretation
+ */
+export type AmountIssueCode =
+  | 'empty'
+  | 'unparseable'
+  | 'foreign-currency'
+  | 'range'
+  | 'multiple-amounts'
+  | 'words'
+  | 'shorthand'
+  | 'approximate'
+  | 'negative'
+  | 'currency-code';
+
+/**
+ * Result of reading an amount string
+ */
+export interface ParsedAmount {
+  /** Interpreted amount in USD */
+  value: number;
+  /** Original text from the CSV */
+  raw: string;
+  confidence: AmountConfidence;
+  /** Set whenever confidence is not "exact" */
+  issue?: AmountIssueCode;
+}
+
 export interface BudgetRequest {
   submissionId: string;
   organizationName: string;
-  /** Display name with numbering (e.g., "SGA 1", "SGA 2") - used when org has multiple requests */
+  /** Organization name as typed in CampusGroups, when the org registry resolved it to a different canonical name */
+  submittedOrganizationName?: string;
+  /** Display name with numbering (e.g., "SGA (#1)", "SGA (#2)") - used when org has multiple requests */
   displayName?: string;
+  /** Organization category from the org registry */
+  category?: OrgCategory;
+  /** Organization funding tier from the org registry */
+  fundingTier?: string;
   requestType: RequestType;
   amount: number;
+  /** Original amount text and how it was interpreted */
+  amountInfo?: Omit<ParsedAmount, 'value'>;
   description: string;
   approvalStatus: ApprovalStatus;
   financeRoute: FinanceRoute;
   /** Raw finance route from CSV - may include "Finance Review" for late submissions */
   rawFinanceRoute?: string;
   accountNumber: string;
+  /** True if the account number was missing and filled in from the account registry */
+  accountAutoFilled?: boolean;
+  /** Link to the org's supporting spreadsheet (AFR link or optional reallocation link) */
+  supportingLink?: string;
+  /** Uploaded supporting spreadsheet/document from CampusGroups */
+  supportingUpload?: string;
   submittedOn: Date;
+  /** When the submitter opened the form */
+  startedOn?: Date;
+  /** Last time the submission was changed in CampusGroups */
+  lastUpdatedOn?: Date;
+  /** When the approval status last changed (i.e., the approve/deny decision) */
+  approvalStatusUpdatedOn?: Date;
+  /** Message left by the approver in CampusGroups */
+  approvalMessage?: string;
+  /** True if the submission was updated after it was submitted */
+  editedAfterSubmission?: boolean;
+  /** Hours from submission to an approve/deny decision (undefined while pending) */
+  turnaroundHours?: number;
   submitterName: string;
   submitterEmail: string;
+  /** Set when an officer roster was checked and the submitter isn't the org's president or treasurer */
+  submitterNotOnRoster?: boolean;
   /** Flag indicating this request was pre-approved (Auto-Approve or Budget Review) */
   isPreApproved?: boolean;
+  /** Set when the amount is above the dollar limit of the route it was tagged with */
+  routeLimitExceeded?: RouteLimitExcess;
+  /** Whether the request made the submission deadline for its meeting */
+  submissionTiming?: SubmissionTiming;
+  /** Meeting date (e.g., "1/25/26") the request was deferred from, when carried forward */
+  deferredFrom?: string;
+  /** 1-based data row in the uploaded export (excluding the header row) */
+  sourceRow?: number;
+  /** Uploaded export the request was read from, when several files were combined */
+  sourceFile?: string;
+}
+
+/**
+ * Dollar limits for finance routes - requests above their route's limit are not pre-approved
+ * Routes without a limit (e.g., Sunday Meeting) accept any amount.
+ */
+export type RouteLimits = Partial<Record<FinanceRoute, number>>;
+
+/**
+ * The route limit a request's amount is above
+ */
+export interface RouteLimitExcess {
+  route: FinanceRoute;
+  limit: number;
+}
+
+/**
+ * Request number given to a submission (e.g., 2 for "SGA (#2)"), kept so the
+ * submission is numbered the same way in later merges
+ */
+export interface SubmissionNumber {
+  /** Organization name without numbering */
+  organizationName: string;
+  number: number;
+}
+
+/**
+ * What a merge did with the requests it was given
+ */
+export interface MergeSummary {
+  /** Requests added to the master */
+  added: number;
+  /** Rows in the meeting's existing section updated from the export */
+  updated: number;
+  /** Rows in the meeting's existing section no longer in the export */
+  withdrawn: number;
+  /** Requests already in the master and left unchanged */
+  alreadyInMaster: number;
+  /** Budget adjustments added to the AFR sheet */
+  adjustmentsAdded: number;
+}
+
+/**
+ * Where a mid-semester change to the AFR budget came from
+ * - Rollover: Unspent funds carried over from the previous semester
+ * - Supplemental Allocation: Additional funds allocated by the university
+ * - Clawback: Unspent organization funds returned to the AFR budget
+ */
+export type BudgetAdjustmentSource = 'Rollover' | 'Supplemental Allocation' | 'Clawback';
+
+/**
+ * A mid-semester change to the AFR budget, listed between weeks in the master
+ */
+export interface BudgetAdjustment {
+  /** Date of the adjustment (YYYY-MM-DD) */
+  date: string;
+  source: BudgetAdjustmentSource;
+  /** Dollars added to the remaining budget (negative to take dollars out) */
+  amount: number;
+  memo: string;
+}
+
+/**
+ * What removing a week from the master took out
+ */
+export interface WeekRemovalSummary {
+  /** Section header of the removed week (e.g., "Week of 1/25/26") */
+  week: string;
+  /** AFR requests removed */
+  afrRequests: number;
+  /** Reallocation requests removed */
+  reallocationRequests: number;
+  /** Formulas re-pointed from the removed week's Remaining Budget cell */
+  repointedFormulas: number;
+}
+
+/**
+ * Whether a request was submitted before the meeting's deadline
+ */
+export type SubmissionTiming = 'on-time' | 'late';
+
+/**
+ * Submission deadline relative to the meeting it feeds into (Eastern time)
+ * Example: { weekday: 4, hour: 23, minute: 59 } = Thursday 11:59 PM before the meeting
+ */
+export interface SubmissionDeadline {
+  /** Day of week (0 = Sunday, 6 = Saturday) - the last such day before the meeting */
+  weekday: number;
+  /** 0-23 */
+  hour: number;
+  minute: number;
 }
 
 export type CSVType = 'approved' | 'pending' | 'mixed' | 'all' | 'unknown';
@@ -40,10 +210,75 @@ export interface CSVParseResult {
   requests: BudgetRequest[];
   warnings: string[];
   errors: string[];
+  /** Structured form of warnings and errors */
+  issues: ValidationIssue[];
+  /** Column profile used to read the CSV headers */
+  profile?: ColumnProfileMatch;
+  /** Fields that differed between copies of the same submission across uploaded files */
+  conflicts?: SubmissionConflict[];
+}
+
+/**
+ * A field that differed between two copies of the same submission
+ * (e.g., the same request in an approved and a pending export)
+ */
+export interface SubmissionConflict {
+  submissionId: string;
+  organizationName: string;
+  /** BudgetRequest field that differed (e.g., "amount", "approvalStatus") */
+  field: keyof BudgetRequest;
+  /** Value from the most recently updated copy (kept) */
+  keptValue: string;
+  /** File the kept copy came from */
+  keptFile: string;
+  /** Value from the older copy (discarded) */
+  discardedValue: string;
+  /** File the discarded copy came from */
+  discardedFile: string;
+}
+
+/**
+ * An earlier request a new request may duplicate
+ */
+export interface DuplicateCandidate {
+  /** Where the earlier request was found */
+  source: 'upload' | 'master';
+  /** Organization as written (numbered, e.g., "SGA (#2)", for master rows) */
+  organizationName: string;
+  /** Organization without the request number (master rows only) */
+  unnumberedOrganizationName?: string;
+  amount: number;
+  description: string;
+  /** Submission ID (uploaded requests only) */
+  submissionId?: string;
+  /** "Week of" date the row is listed under (master rows only) */
+  weekDate?: string;
+  /** Meeting decision (master rows only) */
+  status?: 'Approved' | 'Denied' | null;
+}
+
+/**
+ * A likely duplicate of an uploaded request
+ */
+export interface DuplicateMatch {
+  submissionId: string;
+  organizationName: string;
+  amount: number;
+  candidate: DuplicateCandidate;
+  /** Weighted similarity between 0 and 1 */
+  score: number;
+  /** Per-field similarity the score was built from */
+  scores: {
+    organization: number;
+    amount: number;
+    description: number;
+  };
 }
 
 export interface ValidationResult {
   type: CSVType;
   warnings: string[];
   errors: string[];
+  /** Structured form of warnings and errors */
+  issues: ValidationIssue[];
 }
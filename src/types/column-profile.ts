@@ -0,0 +1,63 @@
+/**
+ * Type definitions for CampusGroups column-mapping profiles
+ */
+
+/**
+ * Internal keys for every CampusGroups column the CSV parser reads
+ */
+export type CSVColumnKey =
+  | 'submissionId'
+  | 'organizationName'
+  | 'requestType'
+  | 'afrAmount'
+  | 'reallocationAmount'
+  | 'approvalStatus'
+  | 'approvalMessage'
+  | 'financeReviewAFR'
+  | 'financeReviewReallocation'
+  | 'afrDescription'
+  | 'reallocationDescription'
+  | 'accountNumber'
+  | 'afrSpreadsheetLink'
+  | 'afrSpreadsheetUpload'
+  | 'reallocationSpreadsheetLink'
+  | 'reallocationSpreadsheetUpload'
+  | 'startedOn'
+  | 'submittedOn'
+  | 'lastUpdatedOn'
+  | 'approvalStatusUpdatedOn'
+  | 'firstName'
+  | 'lastName'
+  | 'email';
+
+/**
+ * Matches a CSV header - either the exact (trimmed) header text or a pattern
+ */
+export type ColumnMatcher = string | RegExp;
+
+/**
+ * A named mapping from internal column keys to the header text used by
+ * one version of the CampusGroups budget request form
+ */
+export interface ColumnProfile {
+  /** Stable identifier (e.g., "spring-2026") */
+  id: string;
+  /** Display name (e.g., "Spring 2026 form") */
+  name: string;
+  /** Header matcher for each column the parser reads */
+  columns: Record<CSVColumnKey, ColumnMatcher>;
+}
+
+/**
+ * Summary of the profile the parser selected for a CSV
+ */
+export interface ColumnProfileMatch {
+  /** ID of the selected profile */
+  id: string;
+  /** Display name of the selected profile */
+  name: string;
+  /** Number of profile columns found in the CSV headers */
+  matchedColumns: number;
+  /** Total number of columns in the profile */
+  totalColumns: number;
+}
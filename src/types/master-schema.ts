@@ -0,0 +1,38 @@
+/**
+ * Type definitions for master spreadsheet layouts
+ */
+
+/**
+ * Layout of a master spreadsheet's AFR sheet
+ * - current: Title and starting budget on row 1, column headers on row 2 (master-generator.ts)
+ * - legacy-weekly: Column headers on row 1, initial budget on row 2, and a column header
+ *   row under every week's section header (a merge without a master, before master-generator.ts)
+ * - review-sheet: A Sunday meeting review spreadsheet (xlsx-generator.ts), not a master
+ * - unknown: None of the above
+ */
+export type MasterLayout = 'current' | 'legacy-weekly' | 'review-sheet' | 'unknown';
+
+/**
+ * Layout and schema version read from a master spreadsheet
+ */
+export interface MasterSchemaInfo {
+  layout: MasterLayout;
+  /** Schema version stamped in the workbook properties, or null for masters made before stamping */
+  version: number | null;
+}
+
+/**
+ * What migrating a master to the current layout changed
+ */
+export interface MasterMigrationSummary {
+  /** Layout the master was in before migrating */
+  fromLayout: MasterLayout;
+  /** Schema version stamped on the migrated master */
+  version: number;
+  /** Per-week column header rows removed (the column headers are on row 2 now) */
+  headerRowsRemoved: number;
+  /** Sheets renamed to their current names (e.g., "AFR -> AFR Requests") */
+  renamedSheets: string[];
+  /** Organization names whose legacy "SGA 1" numbering was rewritten as "SGA (#1)" */
+  renumberedRows: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * Type definitions for organization officer rosters
+ */
+
+import type { ValidationIssue } from './validation-issue';
+
+/**
+ * One officer listed on the roster
+ */
+export interface RosterOfficer {
+  organizationName: string;
+  name: string;
+  email: string;
+  /** Officer position as written on the roster (e.g., "Treasurer") */
+  role: string;
+  /** 1-based data row in the roster file (excluding the header row) */
+  sourceRow?: number;
+}
+
+export interface OfficerRosterParseResult {
+  officers: RosterOfficer[];
+  warnings: string[];
+  errors: string[];
+  /** Structured form of warnings and errors */
+  issues: ValidationIssue[];
+}
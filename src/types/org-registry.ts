@@ -0,0 +1,86 @@
+/**
+ * Type definitions for the canonical organization registry
+ */
+
+/**
+ * Category an organization reports under
+ */
+export type OrgCategory = 'Club Sports' | 'Cultural' | 'Academic' | 'Greek Life' | 'Media';
+
+/**
+ * Organization detail that reports and presentations can group requests by
+ */
+export type OrgGrouping = 'category' | 'fundingTier';
+
+/**
+ * Reporting details kept for an organization
+ */
+export interface OrgMetadata {
+  category?: OrgCategory;
+  /** Funding tier (e.g., "Tier 2") */
+  fundingTier?: string;
+  /** Faculty or staff advisor */
+  advisor?: string;
+  /** Budget allocated for the semester in USD */
+  baseBudget?: number;
+}
+
+/**
+ * An organization, the other names it is submitted under, and its reporting details
+ */
+export interface OrgRegistryEntry extends OrgMetadata {
+  /** Name used in the master spreadsheet and presentation (e.g., "SGA") */
+  canonicalName: string;
+  /** Other spellings that mean the same organization (e.g., "Student Government Association") */
+  aliases: string[];
+}
+
+/**
+ * Canonical organization names, kept between weeks
+ */
+export interface OrgRegistry {
+  /** When the registry was last changed (ISO timestamp) */
+  updatedAt: string;
+  organizations: OrgRegistryEntry[];
+}
+
+/**
+ * How a submitted organization name was matched
+ * - canonical / alias: exact match after normalizing case and punctuation
+ * - acronym: the name is the initials of a registered name ("SGA" for "Student Government Association")
+ * - fuzzy: close enough to a registered name to be a typo
+ * - unmatched: not in the registry - needs review
+ */
+export type OrgMatchType = 'canonical' | 'alias' | 'acronym' | 'fuzzy' | 'unmatched';
+
+/**
+ * A registered organization a name might refer to
+ */
+export interface OrgSuggestion {
+  canonicalName: string;
+  /** Similarity between 0 and 1 */
+  score: number;
+}
+
+/**
+ * Result of looking a submitted organization name up in the registry
+ */
+export interface OrgResolution {
+  /** Name as submitted */
+  name: string;
+  /** Registered organization, or null if unmatched */
+  canonicalName: string | null;
+  matchType: OrgMatchType;
+  /** Similarity of the match (1 for exact matches) */
+  score: number;
+  /** Closest registered organizations (unmatched names only) */
+  suggestions: OrgSuggestion[];
+}
+
+/**
+ * A submitted organization name that needs review, with how often it appeared
+ */
+export interface OrgNameReview extends OrgResolution {
+  /** Number of requests submitted under this name */
+  count: number;
+}
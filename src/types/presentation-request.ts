@@ -2,12 +2,20 @@
  * Type definitions for generating PowerPoint presentations from weekly spreadsheets
  */
 
+import type { BudgetAdjustment } from './budget-request';
+import type { ValidationIssue } from './validation-issue';
+import { SUBMITTER_NOT_ON_ROSTER_NOTE } from '@/constants/officer-roster';
+
 /**
  * Represents a single row from the weekly spreadsheet parsed for presentation
  */
 export interface SpreadsheetRow {
-  /** Organization name as displayed in the spreadsheet */
+  /** Organization name as displayed in the spreadsheet (e.g., "Class of 2027 (#2)") */
   organization: string;
+  /** Organization name without the request number (e.g., "Class of 2027") */
+  organizationName: string;
+  /** Request number from a "(#N)" suffix (or " N" in unstamped masters), or null if the row isn't numbered */
+  requestNumber: number | null;
   /** Requested/AFR'd amount from the original request */
   requestedAmount: number;
   /** Amount after amendments (if any) */
@@ -20,6 +28,10 @@ export interface SpreadsheetRow {
   notes: string;
   /** Account number for the organization */
   accountNumber: string;
+  /** Organization category from the Category column (blank if not set) */
+  category: string;
+  /** Funding tier from the org registry (blank if not registered) */
+  fundingTier: string;
 }
 
 /**
@@ -34,6 +46,8 @@ export interface ParsedWeek {
   afrRequests: SpreadsheetRow[];
   /** Reallocation requests for this week */
   reallocationRequests: SpreadsheetRow[];
+  /** Budget adjustments listed since the previous week (they first count toward this week's Remaining Budget) */
+  budgetAdjustments: BudgetAdjustment[];
 }
 
 /**
@@ -41,7 +55,7 @@ export interface ParsedWeek {
  * Derived from SpreadsheetRow with additional computed properties
  */
 export interface PresentationRequest {
-  /** Organization name with numbering (e.g., "SGA 1", "SGA 2") */
+  /** Organization name with numbering (e.g., "SGA (#1)", "SGA (#2)") */
   organizationName: string;
   /** Display name used on slide - same as organizationName for now */
   displayName: string;
@@ -64,6 +78,10 @@ export interface PresentationRequest {
   wasAmended: boolean;
   /** Account number for reference */
   accountNumber: string;
+  /** Organization category (blank if not set) */
+  category: string;
+  /** Funding tier (blank if not set) */
+  fundingTier: string;
 }
 
 /**
@@ -76,6 +94,8 @@ export interface ParseSpreadsheetResult {
   warnings: string[];
   /** Any errors encountered during parsing */
   errors: string[];
+  /** Structured form of warnings and errors */
+  issues: ValidationIssue[];
 }
 
 /**
@@ -96,6 +116,23 @@ export interface WeekSummary {
   afrCount: number;
   /** Total reallocation requests */
   reallocationCount: number;
+  /** Requests and approved dollars per organization category */
+  categories: GroupSummary[];
+  /** Requests and approved dollars per funding tier */
+  fundingTiers: GroupSummary[];
+  /** Budget adjustments listed since the previous week */
+  budgetAdjustments: BudgetAdjustment[];
+}
+
+/**
+ * Requests in one organization category or funding tier for a week
+ */
+export interface GroupSummary {
+  /** Category or tier name ("Uncategorized" / "No Tier" for organizations without one) */
+  name: string;
+  requestCount: number;
+  /** Total final amount of approved requests */
+  approvedAmount: number;
 }
 
 /**
@@ -110,6 +147,9 @@ export function parseNotesColumn(notes: string): { financeRoute: string; descrip
     return { financeRoute: 'Sunday Meeting', description: '' };
   }
   
+  // The roster marker is for reviewers, not the presentation
+  notes = notes.replace(`[${SUBMITTER_NOT_ON_ROSTER_NOTE}]`, '').trim();
+  
   // Check for pre-approved format: "Auto-Approve: description" or "Budget Review: description"
   const preApprovedMatch = notes.match(/^(Auto-Approve|Budget Review):\s*(.*)$/i);
   
@@ -162,5 +202,7 @@ export function rowToPresentationRequest(
     requestType,
     wasAmended: finalAmount !== row.requestedAmount,
     accountNumber: row.accountNumber,
+    category: row.category,
+    fundingTier: row.fundingTier,
   };
 }
@@ -0,0 +1,107 @@
+/**
+ * Type definitions for structured validation issues
+ *
+ * Parsers and validators report problems as ValidationIssues so the UI can
+ * group, filter and link them to the offending request. The older
+ * `warnings`/`errors` string arrays are derived from the issue messages.
+ */
+
+/**
+ * How serious an issue is
+ * - error: blocks generation
+ * - warning: needs review before the meeting
+ * - info: summary of what was done automatically (exclusions, pre-approvals)
+ */
+export type IssueSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Stable machine-readable issue codes
+ */
+export type IssueCode =
+  // File and column problems
+  | 'empty-file'
+  | 'file-read-error'
+  | 'parse-error'
+  | 'field-count-mismatch'
+  | 'missing-column'
+  | 'fuzzy-column-match'
+  | 'optional-column-missing'
+  // Row problems
+  | 'missing-organization'
+  | 'org-name-resolved'
+  | 'org-unmatched'
+  | 'invalid-date'
+  | 'no-requests'
+  // Request content
+  | 'unknown-status'
+  | 'undetermined-type'
+  | 'only-denied'
+  | 'not-sunday-meeting'
+  | 'amount-missing'
+  | 'amount-unparseable'
+  | 'amount-interpreted'
+  | 'description-empty'
+  | 'account-missing'
+  | 'account-invalid-format'
+  | 'edited-after-submission'
+  // Finance-policy rules (see ruleId)
+  | 'policy-violation'
+  | 'policy-missing'
+  // Filtering summaries
+  | 'denied-excluded'
+  | 'finance-review-deferred'
+  | 'finance-review-carried-in'
+  | 'late-deferred'
+  | 'all-deferred'
+  | 'carried-forward'
+  | 'already-in-master'
+  | 'withdrawn-from-export'
+  | 'pre-approved'
+  | 'route-exceeds-limit'
+  // Multi-file uploads
+  | 'duplicate-submission'
+  | 'submission-conflict'
+  // Duplicate detection
+  | 'possible-duplicate'
+  // Officer roster
+  | 'roster-incomplete-row'
+  | 'submitter-not-on-roster'
+  // Account registry
+  | 'account-auto-filled'
+  | 'account-mismatch'
+  | 'account-multiple'
+  // Weekly spreadsheets
+  | 'worksheet-missing'
+  | 'no-weeks'
+  | 'invalid-week-date'
+  | 'week-missing-status'
+  | 'budget-adjustment-unreadable'
+  // Remaining Budget chain
+  | 'subtotal-range-mismatch'
+  | 'remaining-budget-chain-broken'
+  | 'budget-chain-hard-coded'
+  | 'budget-chain-row-missing'
+  | 'initial-budget-missing';
+
+export interface ValidationIssue {
+  code: IssueCode;
+  severity: IssueSeverity;
+  /** Human-readable description (same text as the legacy warning/error string) */
+  message: string;
+  /** Submission the issue is about, if any */
+  submissionId?: string;
+  /** 1-based data row in the uploaded file (excluding the header row) */
+  row?: number;
+  /** Field or column the issue is about (e.g., "amount", "accountNumber") */
+  field?: string;
+  /** Spreadsheet cell the issue is about (e.g., "I15") */
+  cell?: string;
+  /** What to do about it */
+  suggestedFix?: string;
+  /** Uploaded file the issue came from, when several files were combined */
+  file?: string;
+  /** Finance-policy rule that raised the issue */
+  ruleId?: string;
+  /** Text of the policy the rule enforces */
+  policy?: string;
+}
@@ -0,0 +1,72 @@
+/**
+ * Type definitions for finance-policy validation rules
+ *
+ * Each bylaw check is a rule in the registry (src/lib/validation-rules.ts).
+ * A semester's policy file (src/constants/finance-policies/*.json) chooses
+ * which rules are enabled and sets their limits.
+ */
+
+import type { BudgetRequest, RequestType, RouteLimits } from './budget-request';
+import type { IssueSeverity } from './validation-issue';
+
+/**
+ * Rule IDs - also the keys used in policy files
+ */
+export type RuleId =
+  | 'afr-max-amount'
+  | 'afr-spreadsheet-required'
+  | 'reallocation-lines'
+  | 'no-food-only';
+
+/**
+ * Rule parameters as written in a policy file
+ */
+export type RuleParams = Record<string, number | string | string[]>;
+
+/**
+ * A finance-policy check over a single request
+ */
+export interface ValidationRule<P extends RuleParams = RuleParams> {
+  id: RuleId;
+  /** Short name shown in the UI */
+  name: string;
+  /** The bylaw the rule enforces */
+  policy: string;
+  /** Severity when the policy file doesn't override it */
+  severity: IssueSeverity;
+  /** Request field the rule checks (used to point the UI at the problem) */
+  field?: keyof BudgetRequest;
+  /** Request type the rule applies to (all types if omitted) */
+  appliesTo?: RequestType;
+  /** Parameters used when the policy file doesn't set them */
+  defaultParams: P;
+  /**
+   * Check a request against the rule
+   * @returns A description of the violation, or null if the request complies
+   */
+  check(request: BudgetRequest, params: P): string | null;
+}
+
+/**
+ * Per-rule settings in a policy file
+ */
+export interface RuleSetting {
+  enabled: boolean;
+  severity?: IssueSeverity;
+  params?: RuleParams;
+}
+
+/**
+ * A semester's finance policy
+ */
+export interface FinancePolicy {
+  id: string;
+  /** Display name (e.g., "Spring 2026") */
+  semester: string;
+  /** First and last meeting dates the policy covers (YYYY-MM-DD, inclusive) */
+  startDate: string;
+  endDate: string;
+  rules: Partial<Record<RuleId, RuleSetting>>;
+  /** Dollar limits for pre-approval routes (defaults to DEFAULT_ROUTE_LIMITS) */
+  routeLimits?: RouteLimits;
+}